@@ -31,6 +31,16 @@ class MockWebSocket {
   }
 }
 
+// Record outgoing JSON-RPC requests instead of sending them
+function captureRequests(client: HardwareBridgeClient): Array<{ method: string; params: any }> {
+  const requests: Array<{ method: string; params: any }> = [];
+  (client as any).wsClient.sendRequest = async (method: string, params: any) => {
+    requests.push({ method, params });
+    return { success: true, timestamp: new Date() };
+  };
+  return requests;
+}
+
 // Store original WebSocket
 const OriginalWebSocket = global.WebSocket;
 
@@ -145,15 +155,167 @@ describe('HardwareBridgeClient', () => {
       expect(typeof client.print).toBe('function');
     });
 
+    it('should send a generated idempotency key with each print', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.print('printer_1', 'hello');
+      await client.print('printer_1', 'hello');
+
+      const firstKey = requests[0].params.idempotencyKey;
+      const secondKey = requests[1].params.idempotencyKey;
+      expect(typeof firstKey).toBe('string');
+      expect(firstKey.length).toBeGreaterThan(0);
+      expect(secondKey).not.toBe(firstKey);
+    });
+
+    it('should resend a failed submission with the same idempotency key', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const keys: string[] = [];
+      let connected = false;
+      (client as any).wsClient.sendRequest = async (_method: string, params: any) => {
+        keys.push(params.idempotencyKey);
+        if (!connected) throw new Error('Connection closed');
+        return { success: true, timestamp: new Date() };
+      };
+
+      await expect(client.print('printer_1', 'hello')).rejects.toThrow('Connection closed');
+      connected = true;
+      await client.print('printer_1', 'other');
+      await client.print('printer_1', 'hello');
+      await client.print('printer_1', 'hello');
+
+      expect(keys[2]).toBe(keys[0]);
+      expect(keys[1]).not.toBe(keys[0]);
+      expect(keys[3]).not.toBe(keys[0]);
+    });
+
+    it('should keep a caller supplied idempotency key', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.print('printer_1', 'hello', 'raw', { idempotencyKey: 'receipt-42' });
+
+      expect(requests[0].method).toBe('printer.print');
+      expect(requests[0].params.idempotencyKey).toBe('receipt-42');
+    });
+
+    it('should send copies and CUPS options with print jobs', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.print('office', '%PDF-1.4', 'raw', { copies: 2, collate: false, jobName: 'Invoices', cupsOptions: { media: 'A4' }, resetOnCancel: true });
+
+      expect(requests[0].params).toMatchObject({ copies: 2, collate: false, jobName: 'Invoices', cupsOptions: { media: 'A4' }, resetOnCancel: true });
+    });
+
+    it('should send documents to printer.printDocument', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+      const document = { elements: [{ type: 'text' as const, text: 'Thank you' }, { type: 'cut' as const }] };
+
+      await client.printDocument('printer_1', document, { priority: 2, idempotencyKey: 'receipt-43' });
+
+      expect(requests[0]).toEqual({
+        method: 'printer.printDocument',
+        params: { deviceId: 'printer_1', document, priority: 2, notBefore: undefined, idempotencyKey: 'receipt-43' },
+      });
+    });
+
+    it('should send images to printer.printImage', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.printImage('zebra_1', 'iVBORw0KGgo=', 'zpl', { maxPrintWidth: 812, dither: 'threshold', idempotencyKey: 'logo-1' });
+
+      expect(requests[0]).toEqual({
+        method: 'printer.printImage',
+        params: {
+          deviceId: 'zebra_1',
+          image: 'iVBORw0KGgo=',
+          format: 'zpl',
+          maxPrintWidth: 812,
+          width: undefined,
+          dither: 'threshold',
+          threshold: undefined,
+          priority: undefined,
+          notBefore: undefined,
+          idempotencyKey: 'logo-1',
+        },
+      });
+    });
+
+    it('should send template prints to printer.printTemplate', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.printTemplate({ deviceId: 'zebra_1', template: 'shipping', variables: { recipient: 'Ada' }, copies: 2 }, { idempotencyKey: 'label-7' });
+
+      expect(requests[0]).toEqual({
+        method: 'printer.printTemplate',
+        params: {
+          deviceId: 'zebra_1',
+          template: 'shipping',
+          variables: { recipient: 'Ada' },
+          copies: 2,
+          priority: undefined,
+          notBefore: undefined,
+          idempotencyKey: 'label-7',
+        },
+      });
+    });
+
     it('should have getPrinterStatus method', () => {
       const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
       expect(typeof client.getPrinterStatus).toBe('function');
     });
 
+    it('should pass the command language to printer.getStatus', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.getPrinterStatus('printer_1', 'zpl');
+
+      expect(requests[0]).toEqual({ method: 'printer.getStatus', params: { deviceId: 'printer_1', commandLanguage: 'zpl' } });
+    });
+
     it('should have getPrinterCapabilities method', () => {
       const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
       expect(typeof client.getPrinterCapabilities).toBe('function');
     });
+
+    it('should watch and unwatch printer status', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.watchPrinterStatus('laser_1');
+      await client.unwatchPrinterStatus('laser_1');
+
+      expect(requests).toEqual([
+        { method: 'printer.watchStatus', params: { deviceId: 'laser_1' } },
+        { method: 'printer.unwatchStatus', params: { deviceId: 'laser_1' } },
+      ]);
+    });
+  });
+
+  describe('label templates', () => {
+    it('should map template methods to templates.* requests', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+      const template = { name: 'shipping', language: 'zpl' as const, body: '^XA^FD{{to}}^FS^XZ', variables: [{ name: 'to', type: 'string' as const }] };
+
+      await client.saveTemplate(template);
+      await client.listTemplates();
+      await client.getTemplate('shipping');
+      await client.deleteTemplate('shipping');
+
+      expect(requests).toEqual([
+        { method: 'templates.save', params: template },
+        { method: 'templates.list', params: undefined },
+        { method: 'templates.get', params: { name: 'shipping' } },
+        { method: 'templates.delete', params: { name: 'shipping' } },
+      ]);
+    });
   });
 
   describe('serial port operations', () => {
@@ -183,6 +345,62 @@ describe('HardwareBridgeClient', () => {
     });
   });
 
+  describe('scales', () => {
+    it('should map scale methods to scale.* requests', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.readScale('serial_ttyusb0', { protocol: 'toledo', unit: 'kg', stable: true });
+      await client.tareScale('serial_ttyusb0');
+      await client.zeroScale('serial_ttyusb0');
+      await client.subscribeToScale('serial_ttyusb0', { interval: 250 });
+      await client.unsubscribeFromScale('serial_ttyusb0');
+
+      expect(requests).toEqual([
+        { method: 'scale.read', params: { deviceId: 'serial_ttyusb0', protocol: 'toledo', unit: 'kg', stable: true } },
+        { method: 'scale.tare', params: { deviceId: 'serial_ttyusb0' } },
+        { method: 'scale.zero', params: { deviceId: 'serial_ttyusb0' } },
+        { method: 'scale.subscribe', params: { deviceId: 'serial_ttyusb0', interval: 250 } },
+        { method: 'scale.unsubscribe', params: { deviceId: 'serial_ttyusb0' } },
+      ]);
+    });
+
+    it('should forward scale.reading notifications until the callback is removed', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const weights: Array<number | null> = [];
+      const push = (weight: number | null) => (client as any).wsClient.handleMessage(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'scale.reading',
+        params: { deviceId: 'serial_ttyusb0', weight, unit: 'kg', stable: true, net: false, overload: false, underload: false },
+      }));
+
+      const remove = client.onScaleReading(reading => weights.push(reading.weight));
+      push(1.23);
+      push(null);
+      remove();
+      push(2);
+
+      expect(weights).toEqual([1.23, null]);
+    });
+  });
+
+  describe('traffic capture', () => {
+    it('should map capture methods to diagnostics.* requests', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.startCapture('serial_ttyusb0', { maxBytes: 4096, toDisk: true });
+      await client.getCapture('serial_ttyusb0', { limit: 10, clear: true });
+      await client.stopCapture('serial_ttyusb0');
+
+      expect(requests).toEqual([
+        { method: 'diagnostics.startCapture', params: { deviceId: 'serial_ttyusb0', maxBytes: 4096, toDisk: true } },
+        { method: 'diagnostics.getCapture', params: { deviceId: 'serial_ttyusb0', limit: 10, clear: true } },
+        { method: 'diagnostics.stopCapture', params: { deviceId: 'serial_ttyusb0' } },
+      ]);
+    });
+  });
+
   describe('USB HID operations', () => {
     it('should have openUsbDevice method', () => {
       const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
@@ -225,6 +443,168 @@ describe('HardwareBridgeClient', () => {
       const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
       expect(typeof client.cancelQueueJob).toBe('function');
     });
+
+    it('should have retryQueueJob method', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      expect(typeof client.retryQueueJob).toBe('function');
+    });
+
+    it('should have requeueDeadLetters method', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      expect(typeof client.requeueDeadLetters).toBe('function');
+    });
+
+    it('should have purgeQueue method', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      expect(typeof client.purgeQueue).toBe('function');
+    });
+
+    it('should send per-device queue controls', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = captureRequests(client);
+
+      await client.pauseDeviceQueue('printer_1', 'Out of labels');
+      await client.resumeDeviceQueue('printer_1');
+      await client.drainDeviceQueue('printer_1');
+      await client.getDeviceQueue('printer_1');
+
+      expect(requests.map(r => r.method)).toEqual([
+        'queue.pauseDevice',
+        'queue.resumeDevice',
+        'queue.drainDevice',
+        'queue.getDeviceQueue',
+      ]);
+      expect(requests[0].params).toEqual({ deviceId: 'printer_1', reason: 'Out of labels' });
+    });
+  });
+
+  describe('print progress', () => {
+    it('should forward print.progress notifications until unsubscribed', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const progress: number[] = [];
+      const push = (bytesSent: number) => (client as any).wsClient.handleMessage(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'print.progress',
+        params: { jobId: 'job_1', deviceId: 'printer_1', bytesSent, totalBytes: 2048 },
+      }));
+
+      const unsubscribe = client.onPrintProgress(update => progress.push(update.bytesSent));
+      push(1024);
+      push(2048);
+      unsubscribe();
+      push(2048);
+
+      expect(progress).toEqual([1024, 2048]);
+    });
+  });
+
+  describe('serial data', () => {
+    it('should deliver data events to the port\'s callbacks until unsubscribed', () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      client.onDeviceEvent = () => undefined;
+      const received: Array<{ data: string; bytesTransferred: number; direction: string }> = [];
+      const push = (deviceId: string, data: string) => (client as any).wsClient.handleMessage(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'device.event',
+        params: {
+          eventType: 'data',
+          deviceId,
+          deviceType: 'serial',
+          timestamp: new Date(),
+          data: { data, encoding: 'utf8', bytes: data.length },
+        },
+      }));
+
+      const unsubscribe = client.onSerialData('serial_1', ({ data, bytesTransferred, direction }) => {
+        received.push({ data, bytesTransferred, direction });
+      });
+      push('serial_1', 'ST,GS,  1.250kg');
+      push('serial_2', 'other port');
+      unsubscribe();
+      push('serial_1', 'late');
+
+      expect(received).toEqual([{ data: 'ST,GS,  1.250kg', bytesTransferred: 15, direction: 'receive' }]);
+    });
+  });
+
+  describe('job updates', () => {
+    const pushJobUpdate = (client: HardwareBridgeClient, update: Record<string, unknown>) => {
+      (client as any).wsClient.handleMessage(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'queue.jobUpdated',
+        params: { deviceId: 'printer_1', operation: 'print', retryCount: 0, timestamp: new Date(), ...update },
+      }));
+    };
+
+    const stubSubscribe = (client: HardwareBridgeClient, status: string) => {
+      const requests: Array<{ method: string; params: any }> = [];
+      (client as any).wsClient.sendRequest = async (method: string, params: any) => {
+        requests.push({ method, params });
+        return {
+          success: true,
+          job: { id: params.jobId, deviceId: 'printer_1', operation: 'print', status, retryCount: 0 },
+        };
+      };
+      return requests;
+    };
+
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should subscribe and report the current state and later changes', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      const requests = stubSubscribe(client, 'pending');
+      const statuses: string[] = [];
+
+      client.onJobUpdate('job_1', (update) => statuses.push(update.status));
+      await flush();
+      pushJobUpdate(client, { jobId: 'job_1', status: 'processing' });
+      pushJobUpdate(client, { jobId: 'job_2', status: 'processing' });
+
+      expect(requests).toEqual([{ method: 'queue.subscribe', params: { jobId: 'job_1' } }]);
+      expect(statuses).toEqual(['pending', 'processing']);
+    });
+
+    it('should stop calling back once unsubscribed', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      stubSubscribe(client, 'pending');
+      const statuses: string[] = [];
+
+      const unsubscribe = client.onJobUpdate('job_1', (update) => statuses.push(update.status));
+      await flush();
+      unsubscribe();
+      pushJobUpdate(client, { jobId: 'job_1', status: 'completed' });
+
+      expect(statuses).toEqual(['pending']);
+    });
+
+    it('should resolve waitForJob when the job finishes', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      stubSubscribe(client, 'pending');
+
+      const result = client.waitForJob('job_1');
+      await flush();
+      pushJobUpdate(client, { jobId: 'job_1', status: 'processing' });
+      pushJobUpdate(client, { jobId: 'job_1', status: 'completed', bytesSent: 42 });
+
+      const update = await result;
+      expect(update.status).toBe('completed');
+      expect(update.bytesSent).toBe(42);
+    });
+
+    it('should resolve waitForJob right away for a job that already finished', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      stubSubscribe(client, 'failed');
+
+      const update = await client.waitForJob('job_1');
+      expect(update.status).toBe('failed');
+    });
+
+    it('should reject waitForJob on timeout', async () => {
+      const client = new HardwareBridgeClient({ url: 'ws://localhost:9876' });
+      stubSubscribe(client, 'pending');
+
+      await expect(client.waitForJob('job_1', 20)).rejects.toThrow('Timed out waiting for job job_1');
+    });
   });
 
   describe('system operations', () => {
@@ -3,6 +3,7 @@ import {
   ClientOptions,
   DeviceInfo,
   PrintFormat,
+  PrintOptions,
   SerialPortConfig,
   QueueStatus,
   SystemHealth,
@@ -117,6 +118,22 @@ describe('Types', () => {
     });
   });
 
+  describe('PrintOptions', () => {
+    it('should accept priority and a scheduled start', () => {
+      const options: PrintOptions = {
+        priority: 10,
+        notBefore: '2026-01-01T09:00:00Z',
+      };
+      expect(options.priority).toBe(10);
+      expect(options.notBefore).toBe('2026-01-01T09:00:00Z');
+    });
+
+    it('should accept an empty options object', () => {
+      const options: PrintOptions = {};
+      expect(options.priority).toBeUndefined();
+    });
+  });
+
   describe('QueueStatus', () => {
     it('should accept valid queue status', () => {
       const status: QueueStatus = {
@@ -3,9 +3,29 @@ import {
   DeviceInfo,
   PrintResult,
   PrintFormat,
+  PrintOptions,
+  PrinterStatus,
+  PrinterCommandLanguage,
+  EscPosDocument,
+  RasterFormat,
+  ImageRasterOptions,
+  LabelTemplate,
+  LabelTemplateDefinition,
+  PrintTemplateRequest,
   SerialPortConfig,
+  SerialData,
+  ScaleReading,
+  ScaleOptions,
+  CaptureResult,
   QueueJob,
   QueueStatus,
+  PurgeOptions,
+  JobUpdate,
+  PrintProgress,
+  JobStatus,
+  DeviceQueueInfo,
+  DeviceQueueStateResult,
+  PurgeResult,
   SystemHealth,
   DeviceEvent,
   ConnectionConfig,
@@ -16,9 +36,19 @@ import {
   DiscoverResult
 } from '../types';
 
+/** Unanswered print submissions whose keys are kept for a resend; the oldest are forgotten first. */
+const MAX_UNSETTLED_SUBMISSIONS = 100;
+
 export class HardwareBridgeClient {
   private wsClient: WebSocketClient;
   private options: ClientOptions;
+  private jobUpdateCallbacks = new Map<string, Set<(update: JobUpdate) => void>>();
+  private printProgressCallbacks = new Set<(progress: PrintProgress) => void>();
+  private serialDataCallbacks = new Map<string, Set<(data: SerialData) => void>>();
+  private scaleReadingCallbacks = new Set<(reading: ScaleReading) => void>();
+  /** Generated idempotency keys of print submissions that failed, by the submission */
+  private unsettledSubmissions = new Map<string, string>();
+  private wasConnected = false;
 
   constructor(config: ConnectionConfig, options: ClientOptions = {}) {
     this.options = {
@@ -37,8 +67,124 @@ export class HardwareBridgeClient {
   private setupEventHandlers(): void {
     // Forward device events
     this.wsClient.onDeviceEvent((event: DeviceEvent) => {
+      if (event.eventType === 'data' && event.deviceType === 'serial') {
+        this.dispatchSerialData(event);
+      }
       this.onDeviceEvent(event);
     });
+
+    this.wsClient.onJobUpdate((update: JobUpdate) => {
+      this.dispatchJobUpdate(update);
+    });
+
+    this.wsClient.onPrintProgress((progress: PrintProgress) => {
+      this.printProgressCallbacks.forEach(callback => callback(progress));
+    });
+
+    this.wsClient.onScaleReading((reading: ScaleReading) => {
+      this.scaleReadingCallbacks.forEach(callback => callback(reading));
+    });
+
+    // Job subscriptions live on the server connection, so renew them after a reconnect
+    this.wsClient.onConnectionStateChange((state) => {
+      if (state.connected && !this.wasConnected) {
+        for (const jobId of this.jobUpdateCallbacks.keys()) {
+          this.subscribeToJob(jobId);
+        }
+      }
+      this.wasConnected = state.connected;
+    });
+  }
+
+  private dispatchJobUpdate(update: JobUpdate): void {
+    const callbacks = this.jobUpdateCallbacks.get(update.jobId);
+    if (!callbacks) return;
+    for (const callback of Array.from(callbacks)) {
+      callback(update);
+    }
+  }
+
+  private dispatchSerialData(event: DeviceEvent): void {
+    const callbacks = this.serialDataCallbacks.get(event.deviceId);
+    if (!callbacks) return;
+    const data: SerialData = {
+      deviceId: event.deviceId,
+      data: event.data?.data ?? '',
+      timestamp: new Date(event.timestamp),
+      direction: 'receive',
+      bytesTransferred: event.data?.bytes ?? 0
+    };
+    for (const callback of Array.from(callbacks)) {
+      callback(data);
+    }
+  }
+
+  /**
+   * Ask the server for the job's updates and replay its current state, so
+   * changes missed while unsubscribed are not lost.
+   */
+  private subscribeToJob(jobId: string): void {
+    this.wsClient.sendRequest<{ success: boolean; job: QueueJob }>('queue.subscribe', { jobId })
+      .then(({ job }) => {
+        this.dispatchJobUpdate({
+          jobId: job.id,
+          deviceId: job.deviceId,
+          operation: job.operation,
+          status: job.status,
+          error: job.error,
+          retryCount: job.retryCount,
+          nextAttemptAt: job.nextAttemptAt,
+          timestamp: new Date()
+        });
+      })
+      .catch(() => {
+        // Not connected (renewed on reconnect) or unknown job
+      });
+  }
+
+  private generateIdempotencyKey(): string {
+    if (typeof globalThis.crypto?.randomUUID === 'function') {
+      return globalThis.crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+  }
+
+  /**
+   * Send a print submission with the caller's idempotency key or a generated
+   * one. When the submission fails, e.g. on a timeout or dropped connection,
+   * the server may still have queued it, so its generated key is kept and
+   * sending the same submission again reuses it rather than printing twice.
+   */
+  private async submitPrintJob(method: string, params: Record<string, unknown>, idempotencyKey?: string): Promise<PrintResult> {
+    if (idempotencyKey) {
+      return this.wsClient.sendRequest<PrintResult>(method, { ...params, idempotencyKey });
+    }
+
+    const submission = JSON.stringify([method, params]);
+    const key = this.unsettledSubmissions.get(submission) ?? this.generateIdempotencyKey();
+    this.unsettledSubmissions.delete(submission);
+    try {
+      return await this.wsClient.sendRequest<PrintResult>(method, { ...params, idempotencyKey: key });
+    } catch (error) {
+      this.unsettledSubmissions.set(submission, key);
+      if (this.unsettledSubmissions.size > MAX_UNSETTLED_SUBMISSIONS) {
+        this.unsettledSubmissions.delete(this.unsettledSubmissions.keys().next().value as string);
+      }
+      throw error;
+    }
+  }
+
+  /** Queue and output params shared by the print methods. */
+  private printJobParams(options: PrintOptions) {
+    return {
+      priority: options.priority,
+      notBefore: options.notBefore,
+      copies: options.copies,
+      collate: options.collate,
+      jobName: options.jobName,
+      cupsOptions: options.cupsOptions,
+      resetOnCancel: options.resetOnCancel
+    };
   }
 
   // Connection Management
@@ -91,40 +237,123 @@ export class HardwareBridgeClient {
   }
 
   // Printer Operations
-  async print(deviceId: string, data: string, format: PrintFormat = 'raw'): Promise<PrintResult> {
-    return this.wsClient.sendRequest<PrintResult>('printer.print', {
+  async print(deviceId: string, data: string, format: PrintFormat = 'raw', options: PrintOptions = {}): Promise<PrintResult> {
+    return this.submitPrintJob('printer.print', {
       deviceId,
       data,
-      format
-    });
-  }
-
-  async getPrinterStatus(deviceId: string): Promise<{
-    isConnected: boolean;
-    status: string;
-    isReady: boolean;
-    isBusy: boolean;
-    isPaused: boolean;
-    jobsInQueue: number;
-    error?: string;
-    timestamp: Date;
-  }> {
-    return this.wsClient.sendRequest('printer.getStatus', { deviceId });
+      format,
+      ...this.printJobParams(options)
+    }, options.idempotencyKey);
   }
 
+  /**
+   * Print a receipt described as an `EscPosDocument`; the server compiles it
+   * to ESC/POS.
+   */
+  async printDocument(deviceId: string, document: EscPosDocument, options: PrintOptions = {}): Promise<PrintResult> {
+    return this.submitPrintJob('printer.printDocument', {
+      deviceId,
+      document,
+      ...this.printJobParams(options)
+    }, options.idempotencyKey);
+  }
+
+  /**
+   * Print a base64 PNG or JPEG as raster graphics in `format`. The server
+   * scales it to the printable width and dithers it to black and white.
+   */
+  async printImage(
+    deviceId: string,
+    image: string,
+    format: RasterFormat = 'escpos',
+    options: PrintOptions & ImageRasterOptions = {}
+  ): Promise<PrintResult> {
+    return this.submitPrintJob('printer.printImage', {
+      deviceId,
+      image,
+      format,
+      maxPrintWidth: options.maxPrintWidth,
+      width: options.width,
+      dither: options.dither,
+      threshold: options.threshold,
+      ...this.printJobParams(options)
+    }, options.idempotencyKey);
+  }
+
+  /**
+   * Fill in a stored ZPL or EPL template and print it. The server rejects
+   * unknown, missing or mistyped variables before anything is printed.
+   */
+  async printTemplate(request: PrintTemplateRequest, options: PrintOptions = {}): Promise<PrintResult> {
+    return this.submitPrintJob('printer.printTemplate', {
+      ...request,
+      priority: options.priority,
+      notBefore: options.notBefore
+    }, options.idempotencyKey);
+  }
+
+  /**
+   * Connected network printers are queried in their command language, taken
+   * from `commandLanguage` or the language given when connecting.
+   */
+  async getPrinterStatus(deviceId: string, commandLanguage?: PrinterCommandLanguage): Promise<PrinterStatus> {
+    return this.wsClient.sendRequest<PrinterStatus>('printer.getStatus', { deviceId, commandLanguage });
+  }
+
+  /**
+   * PJL printers report their own languages, duplex unit, trays and memory;
+   * limits they don't report are null.
+   */
   async getPrinterCapabilities(deviceId: string): Promise<{
     supportedProtocols: string[];
-    maxPrintWidth: number;
+    maxPrintWidth: number | null;
     supportsColor: boolean;
     supportsDuplex: boolean;
-    maxResolution: number;
-    maxJobSize: number;
+    maxResolution: number | null;
+    maxJobSize: number | null;
+    trays?: string[];
+    memory?: number;
     error?: string;
   }> {
     return this.wsClient.sendRequest('printer.getCapabilities', { deviceId });
   }
 
+  /**
+   * Turn on unsolicited status for a connected PJL printer. Changes arrive as
+   * `status_changed` device events.
+   */
+  async watchPrinterStatus(deviceId: string): Promise<{ success: boolean; deviceId: string }> {
+    return this.wsClient.sendRequest('printer.watchStatus', { deviceId });
+  }
+
+  async unwatchPrinterStatus(deviceId: string): Promise<{ success: boolean; deviceId: string }> {
+    return this.wsClient.sendRequest('printer.unwatchStatus', { deviceId });
+  }
+
+  // Label Templates
+  async listTemplates(): Promise<LabelTemplate[]> {
+    return this.wsClient.sendRequest<LabelTemplate[]>('templates.list');
+  }
+
+  async getTemplate(name: string): Promise<LabelTemplate> {
+    return this.wsClient.sendRequest<LabelTemplate>('templates.get', { name });
+  }
+
+  /** Create a template, or replace the one with the same name. */
+  async saveTemplate(template: LabelTemplateDefinition): Promise<LabelTemplate> {
+    return this.wsClient.sendRequest<LabelTemplate>('templates.save', template);
+  }
+
+  async deleteTemplate(name: string): Promise<{ success: boolean }> {
+    return this.wsClient.sendRequest('templates.delete', { name });
+  }
+
   // Serial Port Operations
+
+  /**
+   * Open a serial port. Data it receives is pushed to this client, framed
+   * and decoded as `config` asks, and delivered to `onSerialData`.
+   */
   async openSerialPort(deviceId: string, config: SerialPortConfig): Promise<{
     success: boolean;
     portName?: string;
@@ -178,6 +407,8 @@ export class HardwareBridgeClient {
     flowControl?: string;
     bytesToRead?: number;
     bytesToWrite?: number;
+    bytesRead?: number;
+    bytesWritten?: number;
     isOpen?: boolean;
     cdHolding?: boolean;
     ctsHolding?: boolean;
@@ -189,6 +420,36 @@ export class HardwareBridgeClient {
     return this.wsClient.sendRequest('serial.getStatus', { deviceId });
   }
 
+  // Scales
+
+  /**
+   * Weigh once. With `stable`, wait for a reading that is not in motion;
+   * `timeout` (default 5000 ms) bounds the wait either way.
+   */
+  async readScale(deviceId: string, options: ScaleOptions & { stable?: boolean; timeout?: number } = {}): Promise<ScaleReading> {
+    return this.wsClient.sendRequest<ScaleReading>('scale.read', { deviceId, ...options });
+  }
+
+  async tareScale(deviceId: string, options: ScaleOptions = {}): Promise<{ success: boolean; timestamp: Date }> {
+    return this.wsClient.sendRequest('scale.tare', { deviceId, ...options });
+  }
+
+  async zeroScale(deviceId: string, options: ScaleOptions = {}): Promise<{ success: boolean; timestamp: Date }> {
+    return this.wsClient.sendRequest('scale.zero', { deviceId, ...options });
+  }
+
+  /**
+   * Have the scale's readings sent to `onScaleReading` whenever they change.
+   * Request-response scales are polled every `interval` ms (500 by default).
+   */
+  async subscribeToScale(deviceId: string, options: ScaleOptions & { interval?: number } = {}): Promise<{ success: boolean }> {
+    return this.wsClient.sendRequest('scale.subscribe', { deviceId, ...options });
+  }
+
+  async unsubscribeFromScale(deviceId: string): Promise<{ success: boolean }> {
+    return this.wsClient.sendRequest('scale.unsubscribe', { deviceId });
+  }
+
   // USB HID Operations
   async openUsbDevice(deviceId: string): Promise<{
     success: boolean;
@@ -259,10 +520,52 @@ export class HardwareBridgeClient {
     return this.wsClient.sendRequest('queue.getJobs', { deviceId, status, limit });
   }
 
+  /**
+   * Cancel a queued job; one that is printing stops mid-transfer. Direct raw
+   * prints can be cancelled too, by the job id from `onPrintProgress`.
+   */
   async cancelQueueJob(jobId: string): Promise<boolean> {
     return this.wsClient.sendRequest('queue.cancelJob', { jobId });
   }
 
+  async retryQueueJob(jobId: string): Promise<{ success: boolean; jobId: string }> {
+    return this.wsClient.sendRequest('queue.retryJob', { jobId });
+  }
+
+  async requeueDeadLetters(deviceId?: string): Promise<{ success: boolean; count: number }> {
+    return this.wsClient.sendRequest('queue.requeueDeadLetters', { deviceId });
+  }
+
+  /**
+   * Delete finished jobs. Without criteria the server applies its configured
+   * retention policy.
+   */
+  async purgeQueue(options: PurgeOptions = {}): Promise<PurgeResult> {
+    return this.wsClient.sendRequest<PurgeResult>('queue.purge', options);
+  }
+
+  /**
+   * Hold a device's jobs in the queue, e.g. while its media is reloaded.
+   */
+  async pauseDeviceQueue(deviceId: string, reason?: string): Promise<DeviceQueueStateResult> {
+    return this.wsClient.sendRequest<DeviceQueueStateResult>('queue.pauseDevice', { deviceId, reason });
+  }
+
+  async resumeDeviceQueue(deviceId: string): Promise<DeviceQueueStateResult> {
+    return this.wsClient.sendRequest<DeviceQueueStateResult>('queue.resumeDevice', { deviceId });
+  }
+
+  /**
+   * Let a device finish its queued jobs while refusing new ones.
+   */
+  async drainDeviceQueue(deviceId: string, reason?: string): Promise<DeviceQueueStateResult> {
+    return this.wsClient.sendRequest<DeviceQueueStateResult>('queue.drainDevice', { deviceId, reason });
+  }
+
+  async getDeviceQueue(deviceId: string): Promise<DeviceQueueInfo> {
+    return this.wsClient.sendRequest<DeviceQueueInfo>('queue.getDeviceQueue', { deviceId });
+  }
+
   // System Information
   async getSystemInfo(): Promise<{
     version: string;
@@ -277,6 +580,102 @@ export class HardwareBridgeClient {
     return this.wsClient.sendRequest('system.getHealth');
   }
 
+  /**
+   * Call `callback` with the job's current state and then on every status
+   * change. Returns a function that removes the callback.
+   */
+  onJobUpdate(jobId: string, callback: (update: JobUpdate) => void): () => void {
+    let callbacks = this.jobUpdateCallbacks.get(jobId);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.jobUpdateCallbacks.set(jobId, callbacks);
+    }
+    callbacks.add(callback);
+    this.subscribeToJob(jobId);
+
+    return () => {
+      const registered = this.jobUpdateCallbacks.get(jobId);
+      if (!registered) return;
+      registered.delete(callback);
+      if (registered.size === 0) {
+        this.jobUpdateCallbacks.delete(jobId);
+        if (this.isConnected) {
+          this.wsClient.sendRequest('queue.unsubscribe', { jobId }).catch(() => undefined);
+        }
+      }
+    };
+  }
+
+  /**
+   * Call `callback` as RAW print data is written, for jobs printed directly
+   * from this client and queued jobs it is subscribed to. Returns a function
+   * that removes the callback.
+   */
+  onPrintProgress(callback: (progress: PrintProgress) => void): () => void {
+    this.printProgressCallbacks.add(callback);
+    return () => {
+      this.printProgressCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Call `callback` with the readings of scales this client subscribed to.
+   * Returns a function that removes the callback.
+   */
+  onScaleReading(callback: (reading: ScaleReading) => void): () => void {
+    this.scaleReadingCallbacks.add(callback);
+    return () => {
+      this.scaleReadingCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Call `callback` with each message a serial port opened by this client
+   * receives. Returns a function that removes the callback.
+   */
+  onSerialData(deviceId: string, callback: (data: SerialData) => void): () => void {
+    let callbacks = this.serialDataCallbacks.get(deviceId);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.serialDataCallbacks.set(deviceId, callbacks);
+    }
+    callbacks.add(callback);
+
+    return () => {
+      const current = this.serialDataCallbacks.get(deviceId);
+      if (!current) return;
+      current.delete(callback);
+      if (current.size === 0) {
+        this.serialDataCallbacks.delete(deviceId);
+      }
+    };
+  }
+
+  /**
+   * Resolve with the job's final update once it is completed, failed,
+   * dead-lettered or cancelled. Check `status` to tell them apart.
+   */
+  async waitForJob(jobId: string, timeout: number = 300000): Promise<JobUpdate> {
+    const finalStatuses: JobStatus[] = ['completed', 'failed', 'dead_letter', 'cancelled'];
+
+    return new Promise((resolve, reject) => {
+      let unsubscribe: () => void = () => undefined;
+
+      const timeoutId = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`Timed out waiting for job ${jobId}`));
+      }, timeout);
+
+      unsubscribe = this.onJobUpdate(jobId, (update) => {
+        if (finalStatuses.includes(update.status)) {
+          clearTimeout(timeoutId);
+          unsubscribe();
+          resolve(update);
+        }
+      });
+    });
+  }
+
   // Event Handlers
   onDeviceEvent(event: DeviceEvent): void {
     // This can be overridden by subclasses or used to emit events
@@ -374,13 +773,32 @@ export class HardwareBridgeClient {
   }
 
   async printToNetworkPrinter(deviceId: string, host: string, port: number, data: string, format: PrintFormat = 'raw'): Promise<PrintResult> {
-    return this.wsClient.sendRequest<PrintResult>('printer.print', {
-      deviceId,
-      data,
-      format,
-      host,
-      port
-    });
+    return this.submitPrintJob('printer.print', { deviceId, data, format, host, port });
+  }
+
+  // Traffic Capture
+
+  /**
+   * Record what is sent to and received from an open serial port or network
+   * device. At most `maxBytes` (1 MB by default) are kept; `toDisk` also
+   * writes hex dumps to the server's capture directory.
+   */
+  async startCapture(deviceId: string, options: { maxBytes?: number; toDisk?: boolean } = {}): Promise<{
+    success: boolean;
+    deviceId: string;
+    file?: string;
+    timestamp: Date;
+  }> {
+    return this.wsClient.sendRequest('diagnostics.startCapture', { deviceId, ...options });
+  }
+
+  async stopCapture(deviceId: string): Promise<{ success: boolean; deviceId: string; stopped: boolean; timestamp: Date }> {
+    return this.wsClient.sendRequest('diagnostics.stopCapture', { deviceId });
+  }
+
+  /** The captured traffic, the latest `limit` entries if given; `clear` empties the capture. */
+  async getCapture(deviceId: string, options: { limit?: number; clear?: boolean } = {}): Promise<CaptureResult> {
+    return this.wsClient.sendRequest<CaptureResult>('diagnostics.getCapture', { deviceId, ...options });
   }
 
   // Biometric Device Operations
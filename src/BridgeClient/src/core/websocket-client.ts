@@ -5,7 +5,10 @@ import {
   JsonRpcRequest, 
   JsonRpcResponse, 
   ClientOptions,
-  DeviceEvent 
+  DeviceEvent,
+  JobUpdate,
+  PrintProgress,
+  ScaleReading
 } from '../types';
 
 export class WebSocketClient {
@@ -16,6 +19,9 @@ export class WebSocketClient {
   private connectionListeners: Array<(state: ConnectionState) => void> = [];
   private messageListeners: Array<(message: JsonRpcResponse) => void> = [];
   private deviceEventListeners: Array<(event: DeviceEvent) => void> = [];
+  private jobUpdateListeners: Array<(update: JobUpdate) => void> = [];
+  private printProgressListeners: Array<(progress: PrintProgress) => void> = [];
+  private scaleReadingListeners: Array<(reading: ScaleReading) => void> = [];
   private reconnectTimer: any = null;
   private pingTimer: any = null;
   private messageId = 0;
@@ -52,6 +58,18 @@ export class WebSocketClient {
     this.deviceEventListeners.push(listener);
   }
 
+  onJobUpdate(listener: (update: JobUpdate) => void): void {
+    this.jobUpdateListeners.push(listener);
+  }
+
+  onPrintProgress(listener: (progress: PrintProgress) => void): void {
+    this.printProgressListeners.push(listener);
+  }
+
+  onScaleReading(listener: (reading: ScaleReading) => void): void {
+    this.scaleReadingListeners.push(listener);
+  }
+
   get isConnected(): boolean {
     return this.connectionState.connected;
   }
@@ -225,6 +243,21 @@ export class WebSocketClient {
           const deviceEvent = notification.params as DeviceEvent;
           this.deviceEventListeners.forEach(listener => listener(deviceEvent));
         }
+
+        if (notification.method === 'queue.jobUpdated' && notification.params) {
+          const jobUpdate = notification.params as JobUpdate;
+          this.jobUpdateListeners.forEach(listener => listener(jobUpdate));
+        }
+
+        if (notification.method === 'print.progress' && notification.params) {
+          const progress = notification.params as PrintProgress;
+          this.printProgressListeners.forEach(listener => listener(progress));
+        }
+
+        if (notification.method === 'scale.reading' && notification.params) {
+          const reading = notification.params as ScaleReading;
+          this.scaleReadingListeners.forEach(listener => listener(reading));
+        }
       }
       
     } catch (error) {
@@ -333,5 +366,8 @@ export class WebSocketClient {
     this.connectionListeners = [];
     this.messageListeners = [];
     this.deviceEventListeners = [];
+    this.jobUpdateListeners = [];
+    this.printProgressListeners = [];
+    this.scaleReadingListeners = [];
   }
 }
\ No newline at end of file
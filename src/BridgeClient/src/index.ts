@@ -21,8 +21,34 @@ export type {
   PrintJob,
   PrintResult,
   PrintFormat,
+  PrintOptions,
+  PrinterStatus,
+  PrinterStatusFlags,
+  PrinterCommandLanguage,
+  EscPosDocument,
+  EscPosElement,
+  EscPosCodepage,
+  EscPosAlignment,
+  EscPosBarcodeSymbology,
+  EscPosTextStyle,
+  EscPosColumn,
+  RasterFormat,
+  DitherMethod,
+  ImageRasterOptions,
+  TemplateVariable,
+  TemplateVariableType,
+  LabelTemplate,
+  LabelTemplateDefinition,
+  PrintTemplateRequest,
   SerialPortConfig,
   SerialData,
+  FramingOptions,
+  ScaleProtocol,
+  WeightUnit,
+  ScaleReading,
+  ScaleOptions,
+  CaptureEntry,
+  CaptureResult,
   UsbHidReport,
   NetworkDeviceConfig,
   BiometricConfig,
@@ -31,6 +57,13 @@ export type {
   BiometricResult,
   QueueJob,
   QueueStatus,
+  PurgeOptions,
+  JobUpdate,
+  PrintProgress,
+  DeviceQueueState,
+  DeviceQueueInfo,
+  DeviceQueueStateResult,
+  PurgeResult,
   SystemHealth,
   DeviceEvent,
   DeviceType,
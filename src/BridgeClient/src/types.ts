@@ -92,6 +92,10 @@ export interface NetworkDeviceConfig {
   host: string;
   port: number;
   protocol: 'tcp' | 'udp' | 'http' | 'https';
+  /** Printers only: the command language used to query status. */
+  commandLanguage?: PrinterCommandLanguage;
+  /** How replies are split into messages; raw when absent. */
+  framing?: FramingOptions;
   timeout?: number;
   retryAttempts?: number;
   authentication?: {
@@ -184,16 +188,75 @@ export interface PrintResult {
   success: boolean;
   jobId?: string;
   bytesPrinted?: number;
+  status?: JobStatus;
+  idempotencyKey?: string;
+  /** True when the idempotency key matched an earlier submission and no new job was created. */
+  duplicate?: boolean;
   error?: string;
   timestamp: Date;
 }
 
+/** Bytes of a RAW print job written so far. Queued jobs report their queue job id. */
+export interface PrintProgress {
+  jobId: string;
+  deviceId: string;
+  bytesSent: number;
+  totalBytes: number;
+}
+
+export interface PrintOptions {
+  /** Higher runs first; defaults to 0. */
+  priority?: number;
+  /** Hold the job in the queue until this time. */
+  notBefore?: Date | string;
+  /**
+   * Deduplicates resubmissions of the same print. When omitted, a key is
+   * generated per submission and reused if the same print is sent again
+   * after it failed; pass your own to retry across client instances.
+   */
+  idempotencyKey?: string;
+  /** 1-10000; defaults to 1. */
+  copies?: number;
+  /** Print copies as whole sets (1,2,3,1,2,3) rather than page by page (1,1,2,2,3,3); defaults to true. */
+  collate?: boolean;
+  /** Shown in the printer's or the CUPS queue. */
+  jobName?: string;
+  /** CUPS printers only: `lp -o` options such as `{ media: 'A4', 'fit-to-page': true }`. */
+  cupsOptions?: Record<string, string | number | boolean>;
+  /**
+   * Raw socket printers only: when the job is cancelled part way, clear what the
+   * printer already received (`~JA` for ZPL, the PJL UEL for raw data).
+   */
+  resetOnCancel?: boolean;
+}
+
+/**
+ * How a device's byte stream is cut into messages. Delimiters, STX/ETX and
+ * length prefixes are not part of the message.
+ * - `raw`: data as it arrives
+ * - `line`: split at `delimiter` (CR LF unless given)
+ * - `stx-etx`: the bytes between a `start` (STX) and `end` (ETX) byte
+ * - `fixed`: records of `length` bytes
+ * - `length-prefixed`: a `prefixBytes` unsigned length (2 bytes, big-endian
+ *   unless given), then that many bytes
+ */
+export type FramingOptions =
+  | { mode: 'raw' }
+  | { mode: 'line'; delimiter?: string; maxLength?: number }
+  | { mode: 'stx-etx'; start?: number; end?: number; maxLength?: number }
+  | { mode: 'fixed'; length: number }
+  | { mode: 'length-prefixed'; prefixBytes?: 1 | 2 | 4; byteOrder?: 'big' | 'little'; maxLength?: number };
+
 export interface SerialPortConfig {
   baudRate: number;
   parity: 'None' | 'Odd' | 'Even' | 'Mark' | 'Space';
   dataBits: 7 | 8;
   stopBits: '1' | '1.5' | '2';
   flowControl: 'None' | 'XOnXOff' | 'RequestToSend' | 'RequestToSendXOnXOff';
+  /** How received data is split into messages for `onSerialData` and `receiveSerialData`; raw by default */
+  framing?: FramingOptions;
+  /** How received bytes are decoded into `SerialData.data`; utf8 by default */
+  encoding?: string;
 }
 
 export interface SerialData {
@@ -204,6 +267,68 @@ export interface SerialData {
   bytesTransferred: number;
 }
 
+/**
+ * Scale protocols with a built-in driver on the server:
+ * - `toledo`: request-response, polled with `W`
+ * - `toledo-continuous`: streams Toledo status bytes, weight and tare
+ * - `generic`: streams lines like `ST,GS,+0001.23kg`
+ */
+export type ScaleProtocol = 'toledo' | 'toledo-continuous' | 'generic';
+
+export type WeightUnit = 'kg' | 'g' | 'lb' | 'oz';
+
+export interface ScaleReading {
+  deviceId: string;
+  /** Negative below zero; null when the scale only reported its state. */
+  weight: number | null;
+  unit: WeightUnit;
+  /** Not in motion */
+  stable: boolean;
+  /** Net weight, i.e. with a tare taken off */
+  net: boolean;
+  overload: boolean;
+  underload: boolean;
+  /** Tare weight, from scales that report it */
+  tare?: number;
+  timestamp: Date;
+}
+
+/**
+ * How to open a scale's serial port. Needed on the first call for a scale;
+ * line settings default to the protocol's usual ones.
+ */
+export interface ScaleOptions extends Partial<Omit<SerialPortConfig, 'framing' | 'encoding'>> {
+  protocol?: ScaleProtocol;
+  /** The unit `toledo` scales weigh in, as their replies do not say; lb by default */
+  unit?: WeightUnit;
+}
+
+/** One chunk of traffic seen by a capture */
+export interface CaptureEntry {
+  timestamp: Date;
+  direction: 'tx' | 'rx';
+  length: number;
+  /** The bytes as hex */
+  hex: string;
+  /** Offset, hex and ASCII columns, 16 bytes a line */
+  dump: string;
+}
+
+export interface CaptureResult {
+  deviceId: string;
+  capturing: boolean;
+  startedAt: Date;
+  /** Capture file, when capturing to disk */
+  file?: string;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Oldest entries dropped to keep within the capture size */
+  droppedEntries: number;
+  entries: CaptureEntry[];
+  /** The device's own byte counts, while it is open */
+  totals?: { bytesRead: number; bytesWritten: number };
+}
+
 export interface UsbHidReport {
   deviceId: string;
   reportId: number;
@@ -217,12 +342,17 @@ export interface QueueJob {
   deviceId: string;
   deviceType: string;
   operation: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: JobStatus;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
   retryCount: number;
+  nextAttemptAt?: Date;
+  priority?: number;
+  notBefore?: Date;
+  leaseExpiresAt?: Date;
+  idempotencyKey?: string;
   parameters?: Record<string, any>;
 }
 
@@ -232,10 +362,238 @@ export interface QueueStatus {
   processingJobs: number;
   completedJobs: number;
   failedJobs: number;
+  deadLetterJobs?: number;
   lastProcessed: Date;
   averageProcessingTime: number;
 }
 
+/**
+ * Payload of the `queue.jobUpdated` notification.
+ */
+export interface JobUpdate {
+  jobId: string;
+  deviceId: string;
+  operation: string;
+  status: JobStatus;
+  /** Bytes written to the device by the attempt that just finished. */
+  bytesSent?: number;
+  error?: string;
+  retryCount: number;
+  nextAttemptAt?: Date;
+  timestamp: Date;
+}
+
+/**
+ * `paused` holds a device's jobs in the queue; `draining` keeps running the
+ * queued jobs but refuses new ones.
+ */
+export type DeviceQueueState = 'active' | 'paused' | 'draining';
+
+export interface DeviceQueueInfo {
+  deviceId: string;
+  state: DeviceQueueState;
+  reason?: string;
+  updatedAt?: Date;
+  pendingJobs: number;
+  processingJobs: number;
+  /** Pending and processing jobs, in the order they will run. */
+  jobs: QueueJob[];
+}
+
+export interface DeviceQueueStateResult {
+  success: boolean;
+  deviceId: string;
+  state: DeviceQueueState;
+  previousState: DeviceQueueState;
+  pendingJobs: number;
+  processingJobs: number;
+}
+
+export interface PurgeOptions {
+  /** Finished statuses to purge; defaults to all of them. */
+  statuses?: Array<Exclude<JobStatus, 'pending' | 'processing'>>;
+  olderThanHours?: number;
+  deviceId?: string;
+  /** Spare the most recent matching jobs. */
+  keepLatest?: number;
+  /** Compact the database file afterwards. */
+  vacuum?: boolean;
+}
+
+export interface PurgeResult {
+  success: boolean;
+  purged: number;
+  stripped: number;
+  vacuumed: boolean;
+}
+
+/**
+ * Printer condition as reported by the device itself. Flags a language has
+ * no way to report are left undefined.
+ */
+export interface PrinterStatusFlags {
+  commandLanguage: PrinterCommandLanguage;
+  online: boolean;
+  paperOut: boolean;
+  paperNearEnd?: boolean;
+  /** ESC/POS cover, or the print head on ZPL printers. */
+  coverOpen: boolean;
+  ribbonOut?: boolean;
+  paused?: boolean;
+  drawerOpen?: boolean;
+  paperJam?: boolean;
+  cutterError?: boolean;
+  unrecoverableError?: boolean;
+  autoRecoverableError?: boolean;
+  receiveBufferFull?: boolean;
+  formatsInBuffer?: number;
+  labelsRemaining?: number;
+  /** PJL status code and the text on the printer's display. */
+  statusCode?: number;
+  displayMessage?: string;
+  raw: string;
+}
+
+/**
+ * A receipt described as elements rather than bytes. The server compiles it
+ * to ESC/POS for `printer.printDocument`.
+ */
+export interface EscPosDocument {
+  /** Codepage for non-ASCII text; defaults to cp437. */
+  codepage?: EscPosCodepage;
+  /** Characters per line, used to lay out columns; defaults to 48 (80 mm paper, font A). */
+  lineWidth?: number;
+  /** Printable width in dots, which images are scaled to fit; defaults to 576. */
+  maxPrintWidth?: number;
+  elements: EscPosElement[];
+}
+
+export type EscPosCodepage = 'cp437' | 'cp850' | 'cp852' | 'cp858' | 'cp866' | 'cp1252';
+export type EscPosAlignment = 'left' | 'center' | 'right';
+export type EscPosBarcodeSymbology =
+  'UPC-A' | 'UPC-E' | 'EAN13' | 'EAN8' | 'CODE39' | 'ITF' | 'CODABAR' | 'CODE93' | 'CODE128';
+
+export interface EscPosTextStyle {
+  bold?: boolean;
+  underline?: boolean | 'double';
+  /** White on black. */
+  invert?: boolean;
+  font?: 'A' | 'B';
+  /** Character magnification, 1-8. */
+  width?: number;
+  height?: number;
+}
+
+export interface EscPosColumn {
+  text: string;
+  /** Characters; columns without a width share what is left of the line. */
+  width?: number;
+  align?: EscPosAlignment;
+}
+
+export type EscPosElement =
+  | { type: 'text'; text: string; align?: EscPosAlignment; style?: EscPosTextStyle }
+  | { type: 'columns'; columns: EscPosColumn[]; style?: EscPosTextStyle }
+  | {
+      type: 'barcode';
+      symbology: EscPosBarcodeSymbology;
+      data: string;
+      /** Dots, 1-255; defaults to 162. */
+      height?: number;
+      /** Module width, 2-6; defaults to 3. */
+      moduleWidth?: number;
+      /** Where to print the human readable text; defaults to below. */
+      hri?: 'none' | 'above' | 'below' | 'both';
+      align?: EscPosAlignment;
+    }
+  | {
+      type: 'qrcode';
+      data: string;
+      /** Module size, 1-16; defaults to 6. */
+      size?: number;
+      errorCorrection?: 'L' | 'M' | 'Q' | 'H';
+      align?: EscPosAlignment;
+    }
+  | { type: 'feed'; lines?: number }
+  | { type: 'cut'; partial?: boolean; feedLines?: number }
+  | { type: 'drawer'; pin?: 2 | 5 }
+  | { type: 'codepage'; codepage: EscPosCodepage }
+  | ({
+      type: 'image';
+      /** Base64 PNG or JPEG. */
+      image: string;
+      align?: EscPosAlignment;
+    } & Omit<ImageRasterOptions, 'maxPrintWidth'>);
+
+/** Printer languages an image can be rasterized for. */
+export type RasterFormat = 'escpos' | 'zpl' | 'epl';
+/** `threshold` turns each dot black or white on its own; `floyd-steinberg` spreads the error to keep shading. */
+export type DitherMethod = 'floyd-steinberg' | 'threshold';
+
+export interface ImageRasterOptions {
+  /** Printable width in dots; wider images are scaled down to it. Defaults to 576 (80 mm at 203 dpi). */
+  maxPrintWidth?: number;
+  /** Scale the image to exactly this many dots across instead. */
+  width?: number;
+  /** Defaults to floyd-steinberg. */
+  dither?: DitherMethod;
+  /** Gray level, 0-255, below which a dot prints black; defaults to 128. */
+  threshold?: number;
+}
+
+export type TemplateVariableType = 'string' | 'number' | 'integer' | 'boolean';
+
+/** A `{{name}}` placeholder in a label template. */
+export interface TemplateVariable {
+  name: string;
+  /** Booleans print as Y or N. */
+  type: TemplateVariableType;
+  /** Defaults to true for variables without a default. */
+  required?: boolean;
+  default?: string | number | boolean;
+  /** Longest accepted value, for strings. */
+  maxLength?: number;
+}
+
+/** What a client sends to `templates.save`. */
+export interface LabelTemplateDefinition {
+  name: string;
+  language: 'zpl' | 'epl';
+  body: string;
+  variables: TemplateVariable[];
+  description?: string;
+}
+
+export interface LabelTemplate extends LabelTemplateDefinition {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PrintTemplateRequest {
+  deviceId: string;
+  /** Name of a template saved with `templates.save`. */
+  template: string;
+  variables?: Record<string, string | number | boolean>;
+  /** Prints of the whole label; defaults to 1. */
+  copies?: number;
+}
+
+export interface PrinterStatus {
+  isConnected: boolean;
+  /** `ready`, or the most pressing condition such as `paper_out` or `cover_open`. */
+  status: string;
+  isReady: boolean;
+  isBusy: boolean;
+  isPaused: boolean;
+  jobsInQueue: number;
+  /** Total pages printed, from PJL printers. */
+  pageCount?: number;
+  /** Present when the status was queried from a connected printer. */
+  flags?: PrinterStatusFlags;
+  error?: string;
+  timestamp: Date;
+}
+
 export interface SystemHealth {
   status: 'healthy' | 'warning' | 'error' | 'no_devices';
   timestamp: Date;
@@ -276,7 +634,8 @@ export interface ClientOptions {
 
 export type DeviceType = 'printer' | 'serial' | 'usbhid' | 'network' | 'biometric';
 export type PrintFormat = 'raw' | 'escpos' | 'zpl' | 'epl';
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type PrinterCommandLanguage = 'escpos' | 'zpl' | 'epl' | 'pjl';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_letter';
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error' | 'reconnecting';
 export type DeviceSource = 'real' | 'simulated';
 export type DeviceConnectionType = 'network' | 'usb' | 'serial' | 'local';
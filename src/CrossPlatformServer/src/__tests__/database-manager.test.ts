@@ -1,4 +1,5 @@
 import { DatabaseManager } from '../database-manager.js';
+import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
@@ -35,6 +36,34 @@ describe('DatabaseManager', () => {
       await dbManager.initialize();
       expect(fs.existsSync(testDbPath)).toBe(true);
     });
+
+    it('should add missing columns to an existing queue_jobs table', async () => {
+      const legacy = new Database(testDbPath);
+      legacy.exec(`
+        CREATE TABLE queue_jobs (
+          id TEXT PRIMARY KEY,
+          device_id TEXT NOT NULL,
+          device_type TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          parameters TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at DATETIME NOT NULL,
+          started_at DATETIME,
+          completed_at DATETIME,
+          error TEXT,
+          retry_count INTEGER DEFAULT 0
+        );
+      `);
+      legacy.prepare(`INSERT INTO queue_jobs (id, device_id, device_type, operation, parameters, created_at) VALUES (?, ?, ?, ?, ?, ?)`)
+        .run('job_legacy', 'printer_1', 'printer', 'print', '{}', new Date().toISOString());
+      legacy.close();
+
+      await dbManager.initialize();
+
+      const job = await dbManager.claimNextPendingJob();
+      expect(job?.id).toBe('job_legacy');
+      expect(job?.priority).toBe(0);
+    });
   });
 
   describe('addJob', () => {
@@ -91,6 +120,467 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('claimNextPendingJob', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should return null when no jobs exist', async () => {
+      const job = await dbManager.claimNextPendingJob();
+      expect(job).toBeNull();
+    });
+
+    it('should move the oldest pending job to processing', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'first' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'second' });
+
+      const job = await dbManager.claimNextPendingJob();
+      expect(job?.id).toBe(jobId);
+      expect(job?.status).toBe('processing');
+      expect(job?.startedAt).toBeInstanceOf(Date);
+
+      const stored = await dbManager.getJob(jobId);
+      expect(stored?.status).toBe('processing');
+    });
+
+    it('should not claim the same job twice', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+
+      const first = await dbManager.claimNextPendingJob();
+      const second = await dbManager.claimNextPendingJob();
+      expect(first).not.toBeNull();
+      expect(second).toBeNull();
+    });
+
+    it('should skip jobs for excluded devices', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await dbManager.addJob('printer_2', 'printer', 'print', {});
+
+      const job = await dbManager.claimNextPendingJob(['printer_1']);
+      expect(job?.deviceId).toBe('printer_2');
+    });
+  });
+
+  describe('priority and scheduling', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should default priority to 0 and notBefore to undefined', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const job = await dbManager.getJob(jobId);
+      expect(job?.priority).toBe(0);
+      expect(job?.notBefore).toBeUndefined();
+    });
+
+    it('should persist priority and notBefore', async () => {
+      const notBefore = new Date(Date.now() + 60000);
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {}, { priority: 5, notBefore });
+      const job = await dbManager.getJob(jobId);
+      expect(job?.priority).toBe(5);
+      expect(job?.notBefore?.getTime()).toBe(notBefore.getTime());
+    });
+
+    it('should claim higher priority jobs first', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'label' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'receipt' }, { priority: 10 });
+
+      expect((await dbManager.getNextPendingJob())?.parameters).toEqual({ data: 'receipt' });
+      expect((await dbManager.claimNextPendingJob())?.parameters).toEqual({ data: 'receipt' });
+      expect((await dbManager.claimNextPendingJob())?.parameters).toEqual({ data: 'label' });
+    });
+
+    it('should keep FIFO order within the same priority', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'first' }, { priority: 1 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'second' }, { priority: 1 });
+
+      expect((await dbManager.claimNextPendingJob())?.parameters).toEqual({ data: 'first' });
+    });
+
+    it('should not return jobs scheduled for the future', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {}, { notBefore: new Date(Date.now() + 60000) });
+
+      expect(await dbManager.getNextPendingJob()).toBeNull();
+      expect(await dbManager.claimNextPendingJob()).toBeNull();
+    });
+
+    it('should return scheduled jobs once they are due', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {}, { notBefore: new Date(Date.now() - 1000) });
+
+      expect((await dbManager.claimNextPendingJob())?.id).toBe(jobId);
+    });
+  });
+
+  describe('leases and crash recovery', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should lease claimed jobs', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const before = Date.now();
+      const job = await dbManager.claimNextPendingJob([], 5000);
+
+      expect(job?.leaseExpiresAt?.getTime()).toBeGreaterThanOrEqual(before + 5000);
+    });
+
+    it('should clear the lease when the job finishes', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+      await dbManager.updateJobStatus(jobId, 'completed');
+
+      expect((await dbManager.getJob(jobId))?.leaseExpiresAt).toBeUndefined();
+    });
+
+    it('should renew leases of processing jobs only', async () => {
+      const runningId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const cancelledId = await dbManager.addJob('printer_2', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], 10);
+      await dbManager.claimNextPendingJob([], 10);
+      await dbManager.updateJobStatus(cancelledId, 'cancelled');
+
+      const renewed = await dbManager.renewLeases([runningId, cancelledId], 60000);
+
+      expect(renewed).toBe(1);
+      expect((await dbManager.getJob(runningId))?.leaseExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 50000);
+    });
+
+    it('should requeue processing jobs whose lease expired', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], -1);
+
+      const result = await dbManager.recoverOrphanedJobs();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('pending');
+      expect(job?.retryCount).toBe(1);
+      expect(job?.error).toContain('interrupted');
+      expect(job?.leaseExpiresAt).toBeUndefined();
+    });
+
+    it('should leave jobs with a live lease alone', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], 60000);
+
+      const result = await dbManager.recoverOrphanedJobs();
+
+      expect(result).toEqual({ requeued: 0, failed: 0 });
+      expect((await dbManager.getJob(jobId))?.status).toBe('processing');
+    });
+
+    it('should fail orphaned jobs once recovery attempts are exhausted', async () => {
+      dbManager.close();
+      dbManager = new DatabaseManager(testDbPath, { maxRecoveryAttempts: 2 });
+      await dbManager.initialize();
+
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], -1);
+      await dbManager.recoverOrphanedJobs();
+      await dbManager.claimNextPendingJob([], -1);
+
+      const result = await dbManager.recoverOrphanedJobs();
+
+      expect(result).toEqual({ requeued: 0, failed: 1 });
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('failed');
+      expect(job?.error).toContain('gave up after 2 attempts');
+      expect(job?.completedAt).toBeDefined();
+    });
+
+    it('should recover orphaned jobs on initialize', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], -1);
+      dbManager.close();
+
+      dbManager = new DatabaseManager(testDbPath);
+      await dbManager.initialize();
+
+      expect((await dbManager.getJob(jobId))?.status).toBe('pending');
+      expect((await dbManager.getQueueStatus()).processingJobs).toBe(0);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should return the original job id for a repeated key', async () => {
+      const first = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'a' }, { idempotencyKey: 'key-1' });
+      const second = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'a' }, { idempotencyKey: 'key-1' });
+
+      expect(second).toBe(first);
+      expect((await dbManager.getQueueStatus()).totalJobs).toBe(1);
+    });
+
+    it('should create separate jobs for different keys', async () => {
+      const first = await dbManager.addJob('printer_1', 'printer', 'print', {}, { idempotencyKey: 'key-1' });
+      const second = await dbManager.addJob('printer_1', 'printer', 'print', {}, { idempotencyKey: 'key-2' });
+
+      expect(second).not.toBe(first);
+    });
+
+    it('should not deduplicate jobs without a key', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+
+      expect((await dbManager.getQueueStatus()).totalJobs).toBe(2);
+    });
+
+    it('should find the job by its key', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {}, { idempotencyKey: 'key-1' });
+
+      const job = await dbManager.getJobByIdempotencyKey('key-1');
+      expect(job?.id).toBe(jobId);
+      expect(job?.idempotencyKey).toBe('key-1');
+      expect(await dbManager.getJobByIdempotencyKey('unknown')).toBeNull();
+    });
+
+    it('should accept a reused key once the window has passed', async () => {
+      dbManager.close();
+      dbManager = new DatabaseManager(testDbPath, { idempotencyWindow: 20 });
+      await dbManager.initialize();
+
+      const first = await dbManager.addJob('printer_1', 'printer', 'print', {}, { idempotencyKey: 'key-1' });
+      await new Promise(resolve => setTimeout(resolve, 40));
+      const second = await dbManager.addJob('printer_1', 'printer', 'print', {}, { idempotencyKey: 'key-1' });
+
+      expect(second).not.toBe(first);
+      expect((await dbManager.getJobByIdempotencyKey('key-1'))?.id).toBe(second);
+    });
+  });
+
+  describe('purging', () => {
+    const backdate = (jobId: string, hours: number) => {
+      const db = new Database(testDbPath);
+      const when = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+      db.prepare('UPDATE queue_jobs SET created_at = ?, completed_at = CASE WHEN completed_at IS NULL THEN NULL ELSE ? END WHERE id = ?')
+        .run(when, when, jobId);
+      db.close();
+    };
+
+    const addFinished = async (status: string, hoursAgo = 0, deviceId = 'printer_1') => {
+      const jobId = await dbManager.addJob(deviceId, 'printer', 'print', { deviceId, data: 'payload', format: 'raw' });
+      await dbManager.updateJobStatus(jobId, status);
+      if (hoursAgo > 0) {
+        backdate(jobId, hoursAgo);
+      }
+      return jobId;
+    };
+
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should purge all finished jobs but never pending or processing ones', async () => {
+      await addFinished('completed');
+      await addFinished('failed');
+      await addFinished('cancelled');
+      await addFinished('dead_letter');
+      const pendingId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const processingId = await dbManager.addJob('printer_2', 'printer', 'print', {});
+      await dbManager.updateJobStatus(processingId, 'processing');
+
+      expect(await dbManager.purgeJobs()).toBe(4);
+      expect(await dbManager.getJob(pendingId)).not.toBeNull();
+      expect(await dbManager.getJob(processingId)).not.toBeNull();
+    });
+
+    it('should reject unfinished statuses', async () => {
+      await expect(dbManager.purgeJobs({ statuses: ['pending' as any] })).rejects.toThrow('Only finished jobs can be purged');
+    });
+
+    it('should purge by status and age', async () => {
+      const oldCompleted = await addFinished('completed', 48);
+      const newCompleted = await addFinished('completed', 1);
+      const oldFailed = await addFinished('failed', 48);
+
+      const purged = await dbManager.purgeJobs({
+        statuses: ['completed'],
+        olderThan: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      });
+
+      expect(purged).toBe(1);
+      expect(await dbManager.getJob(oldCompleted)).toBeNull();
+      expect(await dbManager.getJob(newCompleted)).not.toBeNull();
+      expect(await dbManager.getJob(oldFailed)).not.toBeNull();
+    });
+
+    it('should age cancelled jobs by creation time', async () => {
+      const cancelled = await addFinished('cancelled', 48);
+
+      expect(await dbManager.purgeJobs({ olderThan: new Date(Date.now() - 24 * 60 * 60 * 1000) })).toBe(1);
+      expect(await dbManager.getJob(cancelled)).toBeNull();
+    });
+
+    it('should purge by device', async () => {
+      await addFinished('completed', 0, 'printer_1');
+      const other = await addFinished('completed', 0, 'printer_2');
+
+      expect(await dbManager.purgeJobs({ deviceId: 'printer_1' })).toBe(1);
+      expect(await dbManager.getJob(other)).not.toBeNull();
+    });
+
+    it('should keep the most recent jobs', async () => {
+      const oldest = await addFinished('completed', 3);
+      const middle = await addFinished('completed', 2);
+      const newest = await addFinished('completed', 1);
+
+      expect(await dbManager.purgeJobs({ keepLatest: 2 })).toBe(1);
+      expect(await dbManager.getJob(oldest)).toBeNull();
+      expect(await dbManager.getJob(middle)).not.toBeNull();
+      expect(await dbManager.getJob(newest)).not.toBeNull();
+    });
+
+    it('should strip payloads from old completed jobs only', async () => {
+      const oldCompleted = await addFinished('completed', 48);
+      const newCompleted = await addFinished('completed', 1);
+      const oldFailed = await addFinished('failed', 48);
+
+      const stripped = await dbManager.stripCompletedPayloads(new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+      expect(stripped).toBe(1);
+      expect((await dbManager.getJob(oldCompleted))?.parameters).toEqual({ deviceId: 'printer_1', format: 'raw' });
+      expect((await dbManager.getJob(newCompleted))?.parameters?.data).toBe('payload');
+      expect((await dbManager.getJob(oldFailed))?.parameters?.data).toBe('payload');
+      expect(await dbManager.stripCompletedPayloads(new Date())).toBe(1);
+    });
+
+    it('should vacuum without error', async () => {
+      await addFinished('completed');
+      await dbManager.purgeJobs();
+
+      await expect(dbManager.vacuum()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('device queue state', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should treat unknown devices as active', async () => {
+      expect(await dbManager.getDeviceQueueState('printer_1')).toBe('active');
+    });
+
+    it('should persist state changes and return the previous state', async () => {
+      expect(await dbManager.setDeviceQueueState('printer_1', 'paused', 'Out of labels')).toBe('active');
+      expect(await dbManager.setDeviceQueueState('printer_1', 'draining')).toBe('paused');
+      expect(await dbManager.getDeviceQueueState('printer_1')).toBe('draining');
+    });
+
+    it('should keep the state across restarts', async () => {
+      await dbManager.setDeviceQueueState('printer_1', 'paused');
+      dbManager.close();
+
+      dbManager = new DatabaseManager(testDbPath);
+      await dbManager.initialize();
+
+      expect(await dbManager.getDeviceQueueState('printer_1')).toBe('paused');
+    });
+
+    it('should not hand out jobs for paused devices', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const otherId = await dbManager.addJob('printer_2', 'printer', 'print', {});
+      await dbManager.setDeviceQueueState('printer_1', 'paused');
+
+      expect((await dbManager.getNextPendingJob())?.id).toBe(otherId);
+      expect((await dbManager.claimNextPendingJob())?.id).toBe(otherId);
+      expect(await dbManager.claimNextPendingJob()).toBeNull();
+    });
+
+    it('should keep handing out jobs for draining devices', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.setDeviceQueueState('printer_1', 'draining');
+
+      expect((await dbManager.claimNextPendingJob())?.id).toBe(jobId);
+    });
+
+    it('should list outstanding jobs of a device in run order', async () => {
+      const low = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const high = await dbManager.addJob('printer_1', 'printer', 'print', {}, { priority: 5 });
+      const done = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.updateJobStatus(done, 'completed');
+      await dbManager.addJob('printer_2', 'printer', 'print', {});
+      await dbManager.setDeviceQueueState('printer_1', 'paused', 'Out of labels');
+
+      const queue = await dbManager.getDeviceQueue('printer_1');
+
+      expect(queue.state).toBe('paused');
+      expect(queue.reason).toBe('Out of labels');
+      expect(queue.updatedAt).toBeInstanceOf(Date);
+      expect(queue.pendingJobs).toBe(2);
+      expect(queue.processingJobs).toBe(0);
+      expect(queue.jobs.map(job => job.id)).toEqual([high, low]);
+    });
+  });
+
+  describe('label templates', () => {
+    const shipping = {
+      name: 'shipping',
+      language: 'zpl' as const,
+      body: '^XA^FO50,50^FD{{recipient}}^FS^XZ',
+      variables: [{ name: 'recipient', type: 'string' as const }],
+    };
+
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should save, list and get templates', async () => {
+      const saved = await dbManager.saveTemplate({ ...shipping, description: '4x6 shipping label' });
+      await dbManager.saveTemplate({ ...shipping, name: 'address' });
+
+      expect(saved).toMatchObject({ ...shipping, description: '4x6 shipping label' });
+      expect(saved.createdAt).toBeInstanceOf(Date);
+      expect((await dbManager.listTemplates()).map(t => t.name)).toEqual(['address', 'shipping']);
+      expect(await dbManager.getTemplate('shipping')).toEqual(saved);
+      expect(await dbManager.getTemplate('missing')).toBeNull();
+    });
+
+    it('should replace a template and keep its creation time', async () => {
+      const first = await dbManager.saveTemplate(shipping);
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      const second = await dbManager.saveTemplate({ ...shipping, body: '^XA^FD{{recipient}}^FS^XZ' });
+
+      expect(second.body).toBe('^XA^FD{{recipient}}^FS^XZ');
+      expect(second.createdAt).toEqual(first.createdAt);
+      expect(second.updatedAt.getTime()).toBeGreaterThan(first.updatedAt.getTime());
+      expect(await dbManager.listTemplates()).toHaveLength(1);
+    });
+
+    it('should delete templates', async () => {
+      await dbManager.saveTemplate(shipping);
+
+      expect(await dbManager.deleteTemplate('shipping')).toBe(true);
+      expect(await dbManager.deleteTemplate('shipping')).toBe(false);
+      expect(await dbManager.getTemplate('shipping')).toBeNull();
+    });
+  });
+
+  describe('getJob', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should return null for unknown job', async () => {
+      expect(await dbManager.getJob('job_missing')).toBeNull();
+    });
+
+    it('should return job by ID', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'test' });
+      const job = await dbManager.getJob(jobId);
+      expect(job?.id).toBe(jobId);
+      expect(job?.parameters).toEqual({ data: 'test' });
+    });
+  });
+
   describe('updateJobStatus', () => {
     beforeEach(async () => {
       await dbManager.initialize();
@@ -127,6 +617,177 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('finishJob', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should record the outcome of a processing job', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+
+      expect(await dbManager.finishJob(jobId, 'failed', 'Printer offline')).toBe(true);
+
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('failed');
+      expect(job?.error).toBe('Printer offline');
+      expect(job?.completedAt).toBeDefined();
+      expect(job?.leaseExpiresAt).toBeUndefined();
+    });
+
+    it('should leave a job cancelled while it ran', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+      await dbManager.cancelJob(jobId);
+
+      expect(await dbManager.finishJob(jobId, 'completed')).toBe(false);
+      expect((await dbManager.getJob(jobId))?.status).toBe('cancelled');
+    });
+
+    it('should leave a job recovered after its lease expired', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob([], -1);
+      await dbManager.recoverOrphanedJobs();
+
+      expect(await dbManager.finishJob(jobId, 'dead_letter', 'Connection timeout')).toBe(false);
+      expect(await dbManager.scheduleRetry(jobId, 'Connection timeout', new Date())).toBe(false);
+
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('pending');
+      expect(job?.retryCount).toBe(1);
+    });
+  });
+
+  describe('scheduleRetry', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should return job to pending and increment retry count', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+
+      const nextAttemptAt = new Date(Date.now() + 60000);
+      await dbManager.scheduleRetry(jobId, 'Connection timeout', nextAttemptAt);
+
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('pending');
+      expect(job?.retryCount).toBe(1);
+      expect(job?.error).toBe('Connection timeout');
+      expect(job?.nextAttemptAt?.getTime()).toBe(nextAttemptAt.getTime());
+    });
+
+    it('should not claim job before its next attempt time', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+      await dbManager.scheduleRetry(jobId, 'Connection timeout', new Date(Date.now() + 60000));
+
+      expect(await dbManager.claimNextPendingJob()).toBeNull();
+    });
+
+    it('should claim job once its next attempt time has passed', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob();
+      await dbManager.scheduleRetry(jobId, 'Connection timeout', new Date(Date.now() - 1000));
+
+      const job = await dbManager.claimNextPendingJob();
+      expect(job?.id).toBe(jobId);
+    });
+  });
+
+  describe('cancelJob', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should cancel pending and processing jobs', async () => {
+      const pendingId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      const processingId = await dbManager.addJob('printer_2', 'printer', 'print', {});
+      await dbManager.claimNextPendingJob(['printer_1']);
+
+      expect(await dbManager.cancelJob(pendingId)).toBe(true);
+      expect(await dbManager.cancelJob(processingId)).toBe(true);
+
+      const processing = await dbManager.getJob(processingId);
+      expect(processing?.status).toBe('cancelled');
+      expect(processing?.leaseExpiresAt).toBeUndefined();
+      expect((await dbManager.getJob(pendingId))?.status).toBe('cancelled');
+    });
+
+    it('should leave finished jobs as they are', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.updateJobStatus(jobId, 'completed');
+
+      expect(await dbManager.cancelJob(jobId)).toBe(false);
+      expect(await dbManager.cancelJob('job_missing')).toBe(false);
+      expect((await dbManager.getJob(jobId))?.status).toBe('completed');
+    });
+  });
+
+  describe('retryJob', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should requeue a dead-lettered job with a fresh retry count', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.scheduleRetry(jobId, 'Connection timeout', new Date());
+      await dbManager.updateJobStatus(jobId, 'dead_letter', 'Connection timeout');
+
+      expect(await dbManager.retryJob(jobId)).toBe(true);
+
+      const job = await dbManager.getJob(jobId);
+      expect(job?.status).toBe('pending');
+      expect(job?.retryCount).toBe(0);
+      expect(job?.error).toBeNull();
+      expect(job?.completedAt).toBeUndefined();
+    });
+
+    it('should requeue a failed job', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.updateJobStatus(jobId, 'failed', 'Invalid data');
+
+      expect(await dbManager.retryJob(jobId)).toBe(true);
+    });
+
+    it('should refuse to requeue jobs in other states', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+      await dbManager.updateJobStatus(jobId, 'completed');
+
+      expect(await dbManager.retryJob(jobId)).toBe(false);
+      expect(await dbManager.retryJob('job_missing')).toBe(false);
+    });
+  });
+
+  describe('requeueDeadLetters', () => {
+    beforeEach(async () => {
+      await dbManager.initialize();
+    });
+
+    it('should requeue all dead-lettered jobs', async () => {
+      const job1 = await dbManager.addJob('p1', 'printer', 'print', {});
+      const job2 = await dbManager.addJob('p2', 'printer', 'print', {});
+      const job3 = await dbManager.addJob('p3', 'printer', 'print', {});
+      await dbManager.updateJobStatus(job1, 'dead_letter', 'Connection timeout');
+      await dbManager.updateJobStatus(job2, 'dead_letter', 'Connection timeout');
+      await dbManager.updateJobStatus(job3, 'failed', 'Invalid data');
+
+      expect(await dbManager.requeueDeadLetters()).toBe(2);
+      expect((await dbManager.getJobs(undefined, 'pending')).length).toBe(2);
+      expect((await dbManager.getJobs(undefined, 'failed')).length).toBe(1);
+    });
+
+    it('should only requeue jobs for the given device', async () => {
+      const job1 = await dbManager.addJob('p1', 'printer', 'print', {});
+      const job2 = await dbManager.addJob('p2', 'printer', 'print', {});
+      await dbManager.updateJobStatus(job1, 'dead_letter', 'Connection timeout');
+      await dbManager.updateJobStatus(job2, 'dead_letter', 'Connection timeout');
+
+      expect(await dbManager.requeueDeadLetters('p1')).toBe(1);
+      expect((await dbManager.getJobs('p2', 'dead_letter')).length).toBe(1);
+    });
+  });
+
   describe('getQueueStatus', () => {
     beforeEach(async () => {
       await dbManager.initialize();
@@ -161,6 +822,17 @@ describe('DatabaseManager', () => {
       expect(status.completedJobs).toBe(1);
       expect(status.failedJobs).toBe(1);
     });
+
+    it('should count dead-lettered jobs separately from failed ones', async () => {
+      const job1 = await dbManager.addJob('p1', 'printer', 'print', {});
+      const job2 = await dbManager.addJob('p2', 'printer', 'print', {});
+      await dbManager.updateJobStatus(job1, 'failed', 'Invalid data');
+      await dbManager.updateJobStatus(job2, 'dead_letter', 'Connection timeout');
+
+      const status = await dbManager.getQueueStatus();
+      expect(status.failedJobs).toBe(1);
+      expect(status.deadLetterJobs).toBe(1);
+    });
   });
 
   describe('getJobs', () => {
@@ -0,0 +1,194 @@
+import { compileEscPosDocument, encodeEscPosText } from '../escpos-document.js';
+import { EscPosElement } from '../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const INIT = [0x1b, 0x40, 0x1b, 0x74, 0];
+const PLAIN_STYLE = [0x1b, 0x45, 0, 0x1b, 0x2d, 0, 0x1d, 0x42, 0, 0x1b, 0x4d, 0, 0x1d, 0x21, 0];
+const PLAIN_STYLE_TEXT = Buffer.from(PLAIN_STYLE).toString('latin1');
+
+function compile(...elements: EscPosElement[]): Buffer {
+  return compileEscPosDocument({ elements });
+}
+
+/** The bytes an element compiles to, without the leading initialization. */
+function body(...elements: EscPosElement[]): number[] {
+  return [...compile(...elements).subarray(INIT.length)];
+}
+
+describe('escpos-document', () => {
+  it('should initialize the printer and select the codepage', () => {
+    expect([...compile()]).toEqual(INIT);
+    expect([...compileEscPosDocument({ codepage: 'cp1252', elements: [] })]).toEqual([0x1b, 0x40, 0x1b, 0x74, 16]);
+  });
+
+  describe('text', () => {
+    it('should reset alignment and style before plain text', () => {
+      expect(body({ type: 'text', text: 'Hi' })).toEqual([0x1b, 0x61, 0, ...PLAIN_STYLE, 0x48, 0x69, 0x0a]);
+    });
+
+    it('should apply alignment and style', () => {
+      const bytes = body({
+        type: 'text',
+        text: 'TOTAL',
+        align: 'right',
+        style: { bold: true, underline: 'double', invert: true, font: 'B', width: 2, height: 3 },
+      });
+
+      expect(bytes.slice(0, 18)).toEqual([
+        0x1b, 0x61, 2,
+        0x1b, 0x45, 1,
+        0x1b, 0x2d, 2,
+        0x1d, 0x42, 1,
+        0x1b, 0x4d, 1,
+        0x1d, 0x21, 0x12,
+      ]);
+    });
+
+    it('should reject out of range sizes', () => {
+      expect(() => compile({ type: 'text', text: 'x', style: { width: 9 } }))
+        .toThrow('Element 0 (text): character width must be an integer from 1 to 8, got 9');
+    });
+  });
+
+  describe('encodeEscPosText', () => {
+    it('should encode characters in the codepage and replace the rest', () => {
+      expect([...encodeEscPosText('Grüße €', 'cp437')]).toEqual([0x47, 0x72, 0x81, 0xe1, 0x65, 0x20, 0x3f]);
+      expect([...encodeEscPosText('€', 'cp858')]).toEqual([0xd5]);
+      expect([...encodeEscPosText('€', 'cp1252')]).toEqual([0x80]);
+      expect([...encodeEscPosText('Дом', 'cp866')]).toEqual([0x84, 0xae, 0xac]);
+    });
+
+    it('should replace control characters other than line feeds', () => {
+      expect([...encodeEscPosText('A\x1bp\x00\x19\x1dV\x00\tB\r\nC\x7f', 'cp437')]).toEqual([
+        0x41, 0x3f, 0x70, 0x3f, 0x3f, 0x3f, 0x56, 0x3f, 0x3f, 0x42, 0x3f, 0x0a, 0x43, 0x3f,
+      ]);
+    });
+
+    it('should keep commands in text out of compiled documents', () => {
+      const bytes = compileEscPosDocument({ elements: [{ type: 'text', text: 'Total\x1dV\x00' }] });
+
+      expect(bytes.includes(Buffer.from([0x1d, 0x56]))).toBe(false);
+      expect(bytes.includes(Buffer.from('Total?V?\n'))).toBe(true);
+    });
+
+    it('should switch codepages mid-document', () => {
+      const bytes = compileEscPosDocument({
+        elements: [{ type: 'codepage', codepage: 'cp866' }, { type: 'text', text: 'Я' }],
+      });
+
+      expect([...bytes.subarray(INIT.length, INIT.length + 3)]).toEqual([0x1b, 0x74, 17]);
+      expect(bytes.includes(Buffer.from([0x9f, 0x0a]))).toBe(true);
+    });
+  });
+
+  describe('columns', () => {
+    it('should pad and align columns to the line width', () => {
+      const bytes = compileEscPosDocument({
+        lineWidth: 20,
+        elements: [{
+          type: 'columns',
+          columns: [{ text: 'Coffee' }, { text: '2', width: 3, align: 'center' }, { text: '7.00', width: 7, align: 'right' }],
+        }],
+      });
+
+      expect(bytes.toString('latin1').endsWith(PLAIN_STYLE_TEXT + 'Coffee     2    7.00\n')).toBe(true);
+    });
+
+    it('should cut off text longer than its column', () => {
+      const bytes = compileEscPosDocument({
+        lineWidth: 10,
+        elements: [{ type: 'columns', columns: [{ text: 'Cappuccino grande', width: 6 }, { text: '4.50', width: 4 }] }],
+      });
+
+      expect(bytes.toString('latin1').endsWith('Cappuc4.50\n')).toBe(true);
+    });
+
+    it('should reject columns wider than the line', () => {
+      expect(() => compileEscPosDocument({ lineWidth: 10, elements: [{ type: 'columns', columns: [{ text: 'a', width: 11 }] }] }))
+        .toThrow('more than the line width of 10');
+    });
+  });
+
+  describe('barcode', () => {
+    it('should set height, width and HRI before the data', () => {
+      const bytes = body({ type: 'barcode', symbology: 'EAN13', data: '400638133393', height: 80, moduleWidth: 2, hri: 'none', align: 'center' });
+
+      expect(bytes).toEqual([
+        0x1b, 0x61, 1,
+        0x1d, 0x68, 80,
+        0x1d, 0x77, 2,
+        0x1d, 0x48, 0,
+        0x1d, 0x6b, 67, 12,
+        ...Buffer.from('400638133393'),
+        0x0a,
+      ]);
+    });
+
+    it('should default CODE128 to code set B', () => {
+      const bytes = Buffer.from(body({ type: 'barcode', symbology: 'CODE128', data: 'A-42' }));
+
+      expect(bytes.includes(Buffer.from([73, 6, 0x7b, 0x42, 0x41, 0x2d, 0x34, 0x32]))).toBe(true);
+    });
+
+    it('should reject unknown symbologies', () => {
+      expect(() => compile({ type: 'barcode', symbology: 'PDF417' as never, data: '1' })).toThrow('Unknown barcode symbology "PDF417"');
+    });
+  });
+
+  describe('qrcode', () => {
+    it('should select the model, size and error correction, then store and print', () => {
+      const bytes = body({ type: 'qrcode', data: 'https://example.com', size: 4, errorCorrection: 'Q' });
+
+      expect(bytes).toEqual([
+        0x1b, 0x61, 0,
+        0x1d, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0,
+        0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x43, 4,
+        0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x45, 50,
+        0x1d, 0x28, 0x6b, 22, 0, 0x31, 0x50, 0x30,
+        ...Buffer.from('https://example.com'),
+        0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30,
+        0x0a,
+      ]);
+    });
+  });
+
+  describe('paper handling', () => {
+    it('should feed, cut and kick the drawer', () => {
+      expect(body({ type: 'feed', lines: 4 })).toEqual([0x1b, 0x64, 4]);
+      expect(body({ type: 'cut' })).toEqual([0x1d, 0x56, 65, 3]);
+      expect(body({ type: 'cut', partial: true, feedLines: 0 })).toEqual([0x1d, 0x56, 66, 0]);
+      expect(body({ type: 'drawer', pin: 5 })).toEqual([0x1b, 0x70, 1, 25, 250]);
+    });
+  });
+
+  describe('image', () => {
+    const logo = fs.readFileSync(path.join(__dirname, 'fixtures', 'images', 'logo.png')).toString('base64');
+
+    it('should align and print the image as a raster bit image', () => {
+      const bytes = body({ type: 'image', image: logo, align: 'center' });
+
+      expect(bytes.slice(0, 11)).toEqual([0x1b, 0x61, 1, 0x1d, 0x76, 0x30, 0, 3, 0, 10, 0]);
+      expect(bytes.length).toBe(11 + 30);
+    });
+
+    it('should scale images to the document print width', () => {
+      const bytes = compileEscPosDocument({ maxPrintWidth: 8, elements: [{ type: 'image', image: logo }] });
+
+      expect([...bytes.subarray(INIT.length + 3)]).toEqual([0x1d, 0x76, 0x30, 0, 1, 0, 4, 0, 0xf0, 0xf0, 0xf0, 0xf0]);
+    });
+
+    it('should reject data that is not an image', () => {
+      expect(() => compile({ type: 'image', image: 'aGVsbG8=' })).toThrow('Element 0 (image): Unsupported image format');
+    });
+  });
+
+  it('should name the element that failed', () => {
+    expect(() => compile({ type: 'feed' }, { type: 'stamp' } as never)).toThrow('Element 1 (stamp): Unknown element type "stamp"');
+    expect(() => compileEscPosDocument({} as never)).toThrow('Document must have an elements array');
+  });
+});
@@ -0,0 +1,37 @@
+-- Schema version 2: retry backoff.
+CREATE TABLE schema_version (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  applied_at DATETIME NOT NULL
+);
+
+INSERT INTO schema_version (version, description, applied_at) VALUES
+  (1, 'Create queue_jobs', '2025-02-01T00:00:00.000Z'),
+  (2, 'Add retry backoff to queue_jobs', '2025-03-01T00:00:00.000Z');
+
+CREATE TABLE queue_jobs (
+  id TEXT PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  device_type TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  parameters TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at DATETIME NOT NULL,
+  started_at DATETIME,
+  completed_at DATETIME,
+  error TEXT,
+  retry_count INTEGER DEFAULT 0,
+  next_attempt_at DATETIME
+);
+
+CREATE INDEX idx_queue_jobs_device_id ON queue_jobs(device_id);
+CREATE INDEX idx_queue_jobs_status ON queue_jobs(status);
+CREATE INDEX idx_queue_jobs_created_at ON queue_jobs(created_at);
+
+INSERT INTO queue_jobs (id, device_id, device_type, operation, parameters, status, created_at, started_at, completed_at, error, retry_count) VALUES
+  ('job_fixture_pending', 'printer_1', 'printer', 'print', '{"deviceId":"printer_1","data":"^XA^FDpending^FS^XZ","format":"zpl"}', 'pending', '2025-01-10T09:00:00.000Z', NULL, NULL, NULL, 0),
+  ('job_fixture_completed', 'printer_1', 'printer', 'print', '{"deviceId":"printer_1","data":"receipt","format":"raw"}', 'completed', '2025-01-10T08:00:00.000Z', '2025-01-10T08:00:01.000Z', '2025-01-10T08:00:02.000Z', NULL, 0),
+  ('job_fixture_failed', 'printer_2', 'printer', 'print', '{"deviceId":"printer_2","data":"label","format":"raw"}', 'failed', '2025-01-10T07:00:00.000Z', '2025-01-10T07:00:01.000Z', '2025-01-10T07:00:05.000Z', 'Connection timeout', 1);
+
+INSERT INTO queue_jobs (id, device_id, device_type, operation, parameters, status, created_at, error, retry_count, next_attempt_at) VALUES
+  ('job_fixture_retry', 'printer_3', 'printer', 'print', '{"deviceId":"printer_3","data":"retry","format":"raw"}', 'pending', '2025-03-02T10:00:00.000Z', 'connect ECONNREFUSED', 1, '2025-03-02T10:00:02.000Z');
@@ -0,0 +1,102 @@
+import { createFramer, readFramingOptions } from '../framing.js';
+
+const text = (frames: Buffer[]) => frames.map(frame => frame.toString('latin1'));
+
+describe('readFramingOptions', () => {
+  it('should default to raw and fill in line defaults', () => {
+    expect(readFramingOptions(undefined)).toEqual({ mode: 'raw' });
+    expect(readFramingOptions({ mode: 'line' })).toEqual({ mode: 'line', delimiter: '\r\n', maxLength: 4096 });
+    expect(readFramingOptions({ mode: 'stx-etx' })).toEqual({ mode: 'stx-etx', start: 0x02, end: 0x03, maxLength: 4096 });
+    expect(readFramingOptions({ mode: 'length-prefixed' })).toEqual({
+      mode: 'length-prefixed', prefixBytes: 2, byteOrder: 'big', maxLength: 4096,
+    });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => readFramingOptions('line')).toThrow('framing must be an object');
+    expect(() => readFramingOptions({ mode: 'line', delimiter: '' })).toThrow('framing.delimiter must be a non-empty string');
+    expect(() => readFramingOptions({ mode: 'line', maxLength: 0 })).toThrow('framing.maxLength must be a positive integer');
+    expect(() => readFramingOptions({ mode: 'packets' })).toThrow('Unknown framing mode packets');
+    expect(() => readFramingOptions({ mode: 'stx-etx', end: 0x100 })).toThrow('framing.end must be a byte value');
+    expect(() => readFramingOptions({ mode: 'stx-etx', start: 0x0a, end: 0x0a })).toThrow('framing.start and framing.end must differ');
+    expect(() => readFramingOptions({ mode: 'fixed' })).toThrow('framing.length must be a positive integer');
+    expect(() => readFramingOptions({ mode: 'length-prefixed', prefixBytes: 3 })).toThrow('framing.prefixBytes must be 1, 2 or 4');
+    expect(() => readFramingOptions({ mode: 'length-prefixed', byteOrder: 'middle' })).toThrow('framing.byteOrder must be big or little');
+  });
+});
+
+describe('createFramer', () => {
+  it('should pass raw data on as it arrives', () => {
+    const framer = createFramer({ mode: 'raw' });
+
+    expect(text(framer.push(Buffer.from('ST,')))).toEqual(['ST,']);
+    expect(framer.push(Buffer.alloc(0))).toEqual([]);
+  });
+
+  it('should split lines across chunks and drop the delimiter', () => {
+    const framer = createFramer({ mode: 'line' });
+
+    expect(text(framer.push(Buffer.from('ST,GS,  1.2')))).toEqual([]);
+    expect(text(framer.push(Buffer.from('50kg\r')))).toEqual([]);
+    expect(text(framer.push(Buffer.from('\nUS,GS,  0.000kg\r\n\r\nST')))).toEqual(['ST,GS,  1.250kg', 'US,GS,  0.000kg', '']);
+  });
+
+  it('should use a custom delimiter', () => {
+    const framer = createFramer({ mode: 'line', delimiter: '\r' });
+
+    expect(text(framer.push(Buffer.from('123\r456\r7')))).toEqual(['123', '456']);
+  });
+
+  it('should pass on data that outgrows maxLength without a delimiter', () => {
+    const framer = createFramer({ mode: 'line', maxLength: 4 });
+
+    expect(text(framer.push(Buffer.from('abcdefghij')))).toEqual(['abcd', 'efgh']);
+    expect(text(framer.push(Buffer.from('\n')))).toEqual([]);
+    expect(text(framer.push(Buffer.from('\r\n')))).toEqual(['ij\n']);
+  });
+
+  it('should forget a partial line on reset', () => {
+    const framer = createFramer({ mode: 'line' });
+
+    framer.push(Buffer.from('stale'));
+    framer.reset();
+
+    expect(text(framer.push(Buffer.from('fresh\r\n')))).toEqual(['fresh']);
+  });
+
+  it('should return the bytes between STX and ETX and skip noise', () => {
+    const framer = createFramer({ mode: 'stx-etx' });
+
+    expect(text(framer.push(Buffer.from('junk\x02ST,+001.2')))).toEqual([]);
+    expect(text(framer.push(Buffer.from('5kg\x03\r\n\x02US\x03\x02')))).toEqual(['ST,+001.25kg', 'US']);
+  });
+
+  it('should resynchronise when an ETX is lost', () => {
+    const framer = createFramer({ mode: 'stx-etx', maxLength: 4 });
+
+    expect(text(framer.push(Buffer.from('\x02abcdefg\x02ok\x03')))).toEqual(['ok']);
+  });
+
+  it('should cut fixed-length records', () => {
+    const framer = createFramer({ mode: 'fixed', length: 3 });
+
+    expect(text(framer.push(Buffer.from('abcde')))).toEqual(['abc']);
+    expect(text(framer.push(Buffer.from('fghi')))).toEqual(['def', 'ghi']);
+  });
+
+  it('should read length-prefixed packets in either byte order', () => {
+    const big = createFramer({ mode: 'length-prefixed' });
+    const little = createFramer({ mode: 'length-prefixed', prefixBytes: 4, byteOrder: 'little' });
+
+    expect(text(big.push(Buffer.from([0x00, 0x03, 0x41, 0x42])))).toEqual([]);
+    expect(text(big.push(Buffer.from([0x43, 0x00, 0x00, 0x00, 0x01])))).toEqual(['ABC', '']);
+    expect(text(little.push(Buffer.from([0x02, 0, 0, 0, 0x68, 0x69])))).toEqual(['hi']);
+  });
+
+  it('should drop a length-prefixed packet longer than maxLength', () => {
+    const framer = createFramer({ mode: 'length-prefixed', prefixBytes: 1, maxLength: 2 });
+
+    expect(text(framer.push(Buffer.from([0x05, 0x41, 0x42])))).toEqual([]);
+    expect(text(framer.push(Buffer.from([0x01, 0x43])))).toEqual(['C']);
+  });
+});
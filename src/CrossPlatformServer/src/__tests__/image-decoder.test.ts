@@ -0,0 +1,79 @@
+import { decodeImage } from '../image-decoder.js';
+import * as fs from 'fs';
+import { deflateSync } from 'zlib';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'images', name));
+
+/** An 8-bit grayscale PNG around already filtered image data; CRCs are left zero as the decoder skips them. */
+function grayPng(width: number, height: number, raw: Buffer, interlaced = false): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[12] = interlaced ? 1 : 0;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+describe('image-decoder', () => {
+  it('should decode a PNG and blend transparency onto white', () => {
+    const image = decodeImage(fixture('logo.png'));
+
+    expect(image.width).toBe(20);
+    expect(image.height).toBe(10);
+    expect(image.pixels[0]).toBe(0);
+    expect(image.pixels[9]).toBe(0);
+    expect(image.pixels[10]).toBe(255);
+    expect(image.pixels[image.pixels.length - 1]).toBe(255);
+  });
+
+  it('should decode interlaced PNGs', () => {
+    // Adam7 passes of a 3x3 image: (0,0), (2,0), (0,2) (2,2), (1,0) (1,2), (0,1) (1,1) (2,1)
+    const raw = Buffer.from([0, 10, 0, 20, 0, 30, 40, 0, 50, 0, 60, 0, 70, 80, 90]);
+
+    const image = decodeImage(grayPng(3, 3, raw, true));
+
+    expect([...image.pixels]).toEqual([10, 50, 20, 70, 80, 90, 30, 60, 40]);
+  });
+
+  it('should reject PNG data that inflates past the image size', () => {
+    const bomb = grayPng(10, 10, Buffer.alloc(16 * 1024 * 1024));
+
+    expect(() => decodeImage(bomb)).toThrow('Invalid PNG image data');
+  });
+
+  it('should decode the luminance of a baseline JPEG', () => {
+    const image = decodeImage(fixture('half-black.jpg'));
+
+    expect(image.width).toBe(16);
+    expect(image.height).toBe(8);
+    for (let y = 0; y < 8; y++) {
+      expect(image.pixels[y * 16 + 2]).toBeLessThan(16);
+      expect(image.pixels[y * 16 + 13]).toBeGreaterThan(240);
+    }
+  });
+
+  it('should reject other formats', () => {
+    expect(() => decodeImage(Buffer.from('GIF89a'))).toThrow('Unsupported image format; expected PNG or JPEG');
+  });
+
+  it('should reject progressive JPEGs', () => {
+    const progressive = Buffer.from([0xff, 0xd8, 0xff, 0xc2, 0x00, 0x02]);
+
+    expect(() => decodeImage(progressive)).toThrow('Progressive JPEGs are not supported');
+  });
+});
@@ -0,0 +1,302 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { IppClient } from '../ipp-client.js';
+import {
+  IPP_OPERATIONS,
+  IPP_GROUP_TAGS,
+  IPP_VALUE_TAGS,
+  IppAttribute,
+  IppMessage,
+  decodeIppMessage,
+  encodeIppMessage,
+  findAttributeValue,
+  ippAttribute,
+} from '../ipp-protocol.js';
+import { TcpPrinterService } from '../tcp-printer-service.js';
+import { NetworkDeviceManager } from '../network-device-manager.js';
+
+/**
+ * Minimal IPP printer: decodes each request, records it and answers with
+ * whatever `respond` returns.
+ */
+class IppStandIn {
+  requests: IppMessage[] = [];
+  respond: (request: IppMessage) => { status: number; groups?: IppMessage['groups'] } = () => ({ status: 0 });
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const request = decodeIppMessage(Buffer.concat(chunks));
+      this.requests.push(request);
+      const { status, groups = [] } = this.respond(request);
+      const body = encodeIppMessage({
+        code: status,
+        requestId: request.requestId,
+        groups: [
+          {
+            tag: IPP_GROUP_TAGS.OPERATION,
+            attributes: {
+              'attributes-charset': ippAttribute(IPP_VALUE_TAGS.CHARSET, 'utf-8'),
+              'attributes-natural-language': ippAttribute(IPP_VALUE_TAGS.NATURAL_LANGUAGE, 'en'),
+            },
+          },
+          ...groups,
+        ],
+      });
+      res.writeHead(200, { 'Content-Type': 'application/ipp' });
+      res.end(body);
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `ipp://127.0.0.1:${port}/ipp/print`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const jobGroup = (attributes: Record<string, IppAttribute>) => ({ tag: IPP_GROUP_TAGS.JOB, attributes });
+
+describe('ipp-protocol', () => {
+  it('should round-trip attributes, additional values and document data', () => {
+    const message: IppMessage = {
+      code: IPP_OPERATIONS.GET_PRINTER_ATTRIBUTES,
+      requestId: 42,
+      groups: [
+        {
+          tag: IPP_GROUP_TAGS.OPERATION,
+          attributes: {
+            'attributes-charset': ippAttribute(IPP_VALUE_TAGS.CHARSET, 'utf-8'),
+            'requested-attributes': ippAttribute(IPP_VALUE_TAGS.KEYWORD, 'printer-state', 'queued-job-count'),
+            'job-id': ippAttribute(IPP_VALUE_TAGS.INTEGER, -7),
+            'printer-is-accepting-jobs': ippAttribute(IPP_VALUE_TAGS.BOOLEAN, true),
+            'copies-supported': ippAttribute(IPP_VALUE_TAGS.RANGE_OF_INTEGER, { lower: 1, upper: 99 }),
+          },
+        },
+      ],
+      data: Buffer.from('^XA^XZ'),
+    };
+
+    const decoded = decodeIppMessage(encodeIppMessage(message));
+
+    expect(decoded.version).toEqual({ major: 1, minor: 1 });
+    expect(decoded.code).toBe(IPP_OPERATIONS.GET_PRINTER_ATTRIBUTES);
+    expect(decoded.requestId).toBe(42);
+    expect(decoded.groups).toEqual(message.groups);
+    expect(decoded.data?.toString()).toBe('^XA^XZ');
+  });
+
+  it('should decode collections', () => {
+    const raw = Buffer.concat([
+      Buffer.from([1, 1, 0, 0, 0, 0, 0, 1, IPP_GROUP_TAGS.PRINTER]),
+      // media-col-default = { media-size-name: "na_letter" }
+      Buffer.from([IPP_VALUE_TAGS.BEGIN_COLLECTION, 0, 17]), Buffer.from('media-col-default'), Buffer.from([0, 0]),
+      Buffer.from([IPP_VALUE_TAGS.MEMBER_ATTR_NAME, 0, 0, 0, 15]), Buffer.from('media-size-name'),
+      Buffer.from([IPP_VALUE_TAGS.KEYWORD, 0, 0, 0, 9]), Buffer.from('na_letter'),
+      Buffer.from([IPP_VALUE_TAGS.END_COLLECTION, 0, 0, 0, 0]),
+      Buffer.from([IPP_GROUP_TAGS.END]),
+    ]);
+
+    const decoded = decodeIppMessage(raw);
+
+    expect(findAttributeValue(decoded, IPP_GROUP_TAGS.PRINTER, 'media-col-default')).toEqual({
+      'media-size-name': { tag: IPP_VALUE_TAGS.KEYWORD, values: ['na_letter'] },
+    });
+  });
+
+  it('should reject truncated messages', () => {
+    const encoded = encodeIppMessage({
+      code: 0,
+      requestId: 1,
+      groups: [{ tag: IPP_GROUP_TAGS.OPERATION, attributes: { 'job-name': ippAttribute(IPP_VALUE_TAGS.NAME, 'label') } }],
+    });
+
+    expect(() => decodeIppMessage(encoded.subarray(0, encoded.length - 4))).toThrow('truncated');
+  });
+});
+
+describe('IppClient', () => {
+  let printer: IppStandIn;
+  let printerUri: string;
+  let client: IppClient;
+
+  beforeEach(async () => {
+    printer = new IppStandIn();
+    printerUri = await printer.start();
+    client = new IppClient(printerUri, { timeout: 2000 });
+  });
+
+  afterEach(async () => {
+    await printer.stop();
+  });
+
+  it('should send Print-Job with the document and return the new job', async () => {
+    printer.respond = () => ({
+      status: 0,
+      groups: [jobGroup({
+        'job-id': ippAttribute(IPP_VALUE_TAGS.INTEGER, 17),
+        'job-uri': ippAttribute(IPP_VALUE_TAGS.URI, `${printerUri}/17`),
+        'job-state': ippAttribute(IPP_VALUE_TAGS.ENUM, 3),
+        'job-state-reasons': ippAttribute(IPP_VALUE_TAGS.KEYWORD, 'none'),
+      })],
+    });
+
+    const job = await client.printJob('^XA^FDhello^FS^XZ', { jobName: 'label', copies: 2 });
+
+    expect(job).toEqual({
+      jobId: 17,
+      jobUri: `${printerUri}/17`,
+      state: 'pending',
+      stateReasons: ['none'],
+      stateMessage: undefined,
+      impressionsCompleted: undefined,
+    });
+
+    const request = printer.requests[0];
+    expect(request.code).toBe(IPP_OPERATIONS.PRINT_JOB);
+    expect(Object.keys(request.groups[0].attributes).slice(0, 3))
+      .toEqual(['attributes-charset', 'attributes-natural-language', 'printer-uri']);
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.OPERATION, 'printer-uri')).toBe(printerUri);
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.OPERATION, 'job-name')).toBe('label');
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.OPERATION, 'document-format')).toBe('application/octet-stream');
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.JOB, 'copies')).toBe(2);
+    expect(request.data?.toString()).toBe('^XA^FDhello^FS^XZ');
+  });
+
+  it('should map job states from Get-Job-Attributes', async () => {
+    printer.respond = () => ({
+      status: 0,
+      groups: [jobGroup({
+        'job-id': ippAttribute(IPP_VALUE_TAGS.INTEGER, 17),
+        'job-state': ippAttribute(IPP_VALUE_TAGS.ENUM, 9),
+        'job-state-reasons': ippAttribute(IPP_VALUE_TAGS.KEYWORD, 'job-completed-successfully'),
+        'job-impressions-completed': ippAttribute(IPP_VALUE_TAGS.INTEGER, 2),
+      })],
+    });
+
+    const job = await client.getJobAttributes(17);
+
+    expect(job.state).toBe('completed');
+    expect(job.stateReasons).toEqual(['job-completed-successfully']);
+    expect(job.impressionsCompleted).toBe(2);
+    expect(findAttributeValue(printer.requests[0], IPP_GROUP_TAGS.OPERATION, 'job-id')).toBe(17);
+  });
+
+  it('should summarize Get-Printer-Attributes', async () => {
+    printer.respond = () => ({
+      status: 0,
+      groups: [{
+        tag: IPP_GROUP_TAGS.PRINTER,
+        attributes: {
+          'printer-state': ippAttribute(IPP_VALUE_TAGS.ENUM, 5),
+          'printer-state-reasons': ippAttribute(IPP_VALUE_TAGS.KEYWORD, 'media-empty-error', 'cover-open'),
+          'printer-is-accepting-jobs': ippAttribute(IPP_VALUE_TAGS.BOOLEAN, false),
+          'printer-make-and-model': ippAttribute(IPP_VALUE_TAGS.TEXT, 'Zebra ZD420'),
+          'document-format-supported': ippAttribute(IPP_VALUE_TAGS.MIME_MEDIA_TYPE, 'application/octet-stream', 'image/pwg-raster'),
+          'queued-job-count': ippAttribute(IPP_VALUE_TAGS.INTEGER, 3),
+        },
+      }],
+    });
+
+    const status = await client.getPrinterAttributes();
+
+    expect(status).toMatchObject({
+      state: 'stopped',
+      stateReasons: ['media-empty-error', 'cover-open'],
+      isAcceptingJobs: false,
+      makeAndModel: 'Zebra ZD420',
+      documentFormats: ['application/octet-stream', 'image/pwg-raster'],
+      queuedJobCount: 3,
+    });
+  });
+
+  it('should send Cancel-Job', async () => {
+    await client.cancelJob(17);
+
+    expect(printer.requests[0].code).toBe(IPP_OPERATIONS.CANCEL_JOB);
+    expect(findAttributeValue(printer.requests[0], IPP_GROUP_TAGS.OPERATION, 'job-id')).toBe(17);
+  });
+
+  it('should throw with the status name and message on error statuses', async () => {
+    printer.respond = () => ({
+      status: 0x0406,
+      groups: [{
+        tag: IPP_GROUP_TAGS.OPERATION,
+        attributes: { 'status-message': ippAttribute(IPP_VALUE_TAGS.TEXT, 'No such job') },
+      }],
+    });
+
+    await expect(client.cancelJob(99)).rejects.toThrow('IPP Cancel-Job failed: client-error-not-found (No such job)');
+  });
+
+  it('should reject unreachable printers', async () => {
+    const unreachable = new IppClient('ipp://127.0.0.1:1/ipp/print', { timeout: 500 });
+    await expect(unreachable.getPrinterAttributes()).rejects.toThrow();
+  });
+
+  it('should reject unsupported URI schemes', () => {
+    expect(() => new IppClient('lpd://printer/queue')).toThrow('Unsupported printer URI scheme');
+  });
+});
+
+describe('TcpPrinterService IPP jobs', () => {
+  let printer: IppStandIn;
+  let printerUri: string;
+  let service: TcpPrinterService;
+  let jobState: number;
+
+  beforeEach(async () => {
+    printer = new IppStandIn();
+    printerUri = await printer.start();
+    jobState = 5;
+    printer.respond = () => ({
+      status: 0,
+      groups: [jobGroup({
+        'job-id': ippAttribute(IPP_VALUE_TAGS.INTEGER, 8),
+        'job-state': ippAttribute(IPP_VALUE_TAGS.ENUM, jobState),
+      })],
+    });
+    service = new TcpPrinterService(new NetworkDeviceManager());
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await printer.stop();
+  });
+
+  it('should track the printer-side state of submitted jobs', async () => {
+    const result = await service.printIpp('printer_ipp', printerUri, 'data');
+    expect(result.success).toBe(true);
+    expect(service.getJobStatus(result.jobId!)?.ipp).toMatchObject({ jobId: 8, state: 'processing' });
+
+    jobState = 8;
+    const refreshed = await service.refreshJobStatus(result.jobId!);
+
+    expect(refreshed?.ipp?.state).toBe('aborted');
+    expect(refreshed?.status).toBe('error');
+    expect(printer.requests.map(r => r.code)).toEqual([IPP_OPERATIONS.PRINT_JOB, IPP_OPERATIONS.GET_JOB_ATTRIBUTES]);
+  });
+
+  it('should ask the printer for copies and collation', async () => {
+    await service.printIpp('printer_ipp', printerUri, 'data', { copies: 3, collate: false, jobName: 'invoices' });
+
+    const request = printer.requests[0];
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.OPERATION, 'job-name')).toBe('invoices');
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.JOB, 'copies')).toBe(3);
+    expect(findAttributeValue(request, IPP_GROUP_TAGS.JOB, 'multiple-document-handling')).toBe('separate-documents-uncollated-copies');
+    expect(request.data?.toString()).toBe('data');
+  });
+
+  it('should report a failed submission', async () => {
+    printer.respond = () => ({ status: 0x0506 });
+
+    const result = await service.printIpp('printer_ipp', printerUri, 'data');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('server-error-not-accepting-jobs');
+  });
+});
@@ -0,0 +1,100 @@
+import { findPlaceholders, validateLabelTemplate, renderLabelTemplate } from '../label-templates.js';
+import { LabelTemplateDefinition } from '../types.js';
+
+const shipping: LabelTemplateDefinition = {
+  name: 'shipping',
+  language: 'zpl',
+  body: '^XA^FO50,50^FD{{recipient}}^FS^FO50,100^FDWeight: {{ weight }} kg^FS^FO50,150^BCN,80^FD{{tracking}}^FS^XZ',
+  variables: [
+    { name: 'recipient', type: 'string', maxLength: 20 },
+    { name: 'weight', type: 'number' },
+    { name: 'tracking', type: 'string', default: 'UNTRACKED' },
+  ],
+};
+
+const eplAddress: LabelTemplateDefinition = {
+  name: 'address',
+  language: 'epl',
+  body: 'N\nA50,50,0,3,1,1,N,"{{name}}"\nA50,100,0,3,1,1,N,"{{fragile}}"\nP1\n',
+  variables: [
+    { name: 'name', type: 'string' },
+    { name: 'fragile', type: 'boolean', required: false },
+  ],
+};
+
+describe('label-templates', () => {
+  describe('findPlaceholders', () => {
+    it('should list each placeholder once in order of use', () => {
+      expect(findPlaceholders('{{a}} {{ b }} {{a}} {{not-a-name}}')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('validateLabelTemplate', () => {
+    it('should accept a consistent template', () => {
+      expect(() => validateLabelTemplate(shipping)).not.toThrow();
+      expect(() => validateLabelTemplate(eplAddress)).not.toThrow();
+    });
+
+    it('should reject placeholders that are not declared', () => {
+      expect(() => validateLabelTemplate({ ...shipping, body: `${shipping.body}{{extra}}` }))
+        .toThrow('Template uses undeclared variables: extra');
+    });
+
+    it('should reject declared variables the body never uses', () => {
+      expect(() => validateLabelTemplate({ ...shipping, variables: [...shipping.variables, { name: 'unused', type: 'string' }] }))
+        .toThrow('Template declares unused variables: unused');
+    });
+
+    it('should reject bad declarations', () => {
+      expect(() => validateLabelTemplate({ ...shipping, language: 'pcl' as never })).toThrow('must be zpl or epl');
+      expect(() => validateLabelTemplate({ ...shipping, variables: [{ name: 'recipient', type: 'date' as never }] }))
+        .toThrow('Variable recipient has unknown type "date"');
+      expect(() => validateLabelTemplate({ ...shipping, variables: [...shipping.variables, shipping.variables[0]] }))
+        .toThrow('Variable recipient is declared twice');
+      expect(() => validateLabelTemplate({ ...shipping, variables: [{ name: 'weight', type: 'number', default: 'heavy' }] }))
+        .toThrow('Variable weight must be a number');
+    });
+  });
+
+  describe('renderLabelTemplate', () => {
+    it('should substitute values and defaults', () => {
+      expect(renderLabelTemplate(shipping, { recipient: 'Ada Lovelace', weight: 2.5 })).toBe(
+        '^XA^FO50,50^FDAda Lovelace^FS^FO50,100^FDWeight: 2.5 kg^FS^FO50,150^BCN,80^FDUNTRACKED^FS^XZ'
+      );
+    });
+
+    it('should repeat the label for copies', () => {
+      const label = renderLabelTemplate(shipping, { recipient: 'A', weight: 1 });
+      expect(renderLabelTemplate(shipping, { recipient: 'A', weight: 1 }, 3)).toBe(label.repeat(3));
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A', weight: 1 }, 0)).toThrow('copies must be an integer');
+    });
+
+    it('should reject unknown and missing variables', () => {
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A', weight: 1, colour: 'red' }))
+        .toThrow('Unknown template variables: colour');
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A' })).toThrow('Missing template variables: weight');
+    });
+
+    it('should reject variables that are not an object', () => {
+      expect(() => renderLabelTemplate(shipping, null as any)).toThrow('Template variables must be an object');
+      expect(() => renderLabelTemplate(shipping, ['A', 1] as any)).toThrow('Template variables must be an object');
+    });
+
+    it('should type-check values', () => {
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A', weight: '2' })).toThrow('Variable weight must be a number');
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A'.repeat(21), weight: 1 })).toThrow('longer than 20 characters');
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A\nB', weight: 1 })).toThrow('contains control characters');
+    });
+
+    it('should keep ZPL commands out of field data', () => {
+      expect(() => renderLabelTemplate(shipping, { recipient: 'A^XZ', weight: 1 })).toThrow('contains ^ or ~');
+    });
+
+    it('should escape quotes in EPL and leave optional variables empty', () => {
+      expect(renderLabelTemplate(eplAddress, { name: 'The "Big" Shop \\ Co' })).toBe(
+        'N\nA50,50,0,3,1,1,N,"The \\"Big\\" Shop \\\\ Co"\nA50,100,0,3,1,1,N,""\nP1\n'
+      );
+      expect(renderLabelTemplate(eplAddress, { name: 'X', fragile: true })).toContain('"Y"');
+    });
+  });
+});
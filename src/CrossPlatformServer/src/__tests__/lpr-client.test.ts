@@ -0,0 +1,207 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { LprClient } from '../lpr-client.js';
+import { TcpPrinterService } from '../tcp-printer-service.js';
+import { NetworkDeviceManager } from '../network-device-manager.js';
+
+interface ReceivedJob {
+  queue: string;
+  controlFileName: string;
+  controlFile: string;
+  dataFileName: string;
+  data: Buffer;
+}
+
+/**
+ * Minimal LPD daemon: accepts one job per connection and acknowledges every
+ * step unless `rejectStep` names it.
+ */
+class LpdStandIn {
+  jobs: ReceivedJob[] = [];
+  rejectStep: 'queue' | 'control' | 'data' | null = null;
+  private server = net.createServer(socket => this.handle(socket));
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = Buffer.alloc(0);
+    const job: Partial<ReceivedJob> = {};
+    // Expected next: a command line, or `length` bytes of file content plus a NUL
+    let expecting: { file: 'control' | 'data'; length: number; name: string } | null = null;
+
+    const ack = (step: 'queue' | 'control' | 'data') => socket.write(Buffer.from([this.rejectStep === step ? 1 : 0]));
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        if (expecting) {
+          if (buffer.length < expecting.length + 1) return;
+          const content = buffer.subarray(0, expecting.length);
+          buffer = buffer.subarray(expecting.length + 1);
+          if (expecting.file === 'control') {
+            job.controlFileName = expecting.name;
+            job.controlFile = content.toString('ascii');
+          } else {
+            job.dataFileName = expecting.name;
+            job.data = Buffer.from(content);
+            this.jobs.push(job as ReceivedJob);
+          }
+          ack(expecting.file);
+          expecting = null;
+          continue;
+        }
+
+        const newline = buffer.indexOf(0x0a);
+        if (newline < 0) return;
+        const line = buffer.subarray(0, newline);
+        buffer = buffer.subarray(newline + 1);
+        const command = line[0];
+        const operand = line.subarray(1).toString('ascii');
+
+        if (!job.queue) {
+          job.queue = operand;
+          ack('queue');
+        } else {
+          const [length, name] = operand.split(' ');
+          expecting = { file: command === 0x02 ? 'control' : 'data', length: Number(length), name };
+          ack(expecting.file);
+        }
+      }
+    });
+    socket.on('error', () => { /* client went away */ });
+  }
+}
+
+describe('LprClient', () => {
+  let daemon: LpdStandIn;
+  let port: number;
+
+  beforeEach(async () => {
+    daemon = new LpdStandIn();
+    port = await daemon.start();
+  });
+
+  afterEach(async () => {
+    await daemon.stop();
+  });
+
+  it('should send the control file and data to the named queue', async () => {
+    const client = new LprClient('127.0.0.1', port, { hostname: 'bridgehost', user: 'alice' });
+
+    const result = await client.printJob('zebra', '^XA^FDhello^FS^XZ', { jobName: 'Shipping label', copies: 2 });
+
+    expect(result.bytesSent).toBe(17);
+    expect(daemon.jobs).toHaveLength(1);
+    const job = daemon.jobs[0];
+    const suffix = `A${String(result.jobNumber).padStart(3, '0')}bridgehost`;
+    expect(job.queue).toBe('zebra');
+    expect(job.controlFileName).toBe(`cf${suffix}`);
+    expect(job.dataFileName).toBe(`df${suffix}`);
+    expect(job.controlFile.split('\n')).toEqual([
+      'Hbridgehost',
+      'Palice',
+      'JShipping label',
+      'NShipping label',
+      `ldf${suffix}`,
+      `ldf${suffix}`,
+      `Udf${suffix}`,
+      '',
+    ]);
+    expect(job.data.toString()).toBe('^XA^FDhello^FS^XZ');
+  });
+
+  it('should pass binary data through unchanged', async () => {
+    const client = new LprClient('127.0.0.1', port);
+    const data = Buffer.from([0x1b, 0x40, 0x00, 0x0a, 0xff, 0x1d, 0x56, 0x00]);
+
+    await client.printJob('raw', data);
+
+    expect(daemon.jobs[0].data.equals(data)).toBe(true);
+  });
+
+  it('should use a new job number for every job', async () => {
+    const client = new LprClient('127.0.0.1', port);
+
+    const first = await client.printJob('lp', 'one');
+    const second = await client.printJob('lp', 'two');
+
+    expect(second.jobNumber).toBe((first.jobNumber + 1) % 1000);
+  });
+
+  it('should fail when the printer rejects the queue', async () => {
+    daemon.rejectStep = 'queue';
+    const client = new LprClient('127.0.0.1', port);
+
+    await expect(client.printJob('missing', 'data')).rejects.toThrow('rejected the receive job');
+    expect(daemon.jobs).toHaveLength(0);
+  });
+
+  it('should reject invalid queue names', async () => {
+    const client = new LprClient('127.0.0.1', port);
+
+    await expect(client.printJob('bad queue', 'data')).rejects.toThrow('Invalid LPD queue name');
+  });
+
+  it('should fail when the printer cannot be reached', async () => {
+    const client = new LprClient('127.0.0.1', 1, { timeout: 500 });
+
+    await expect(client.printJob('lp', 'data')).rejects.toThrow();
+  });
+});
+
+describe('TcpPrinterService LPD jobs', () => {
+  let daemon: LpdStandIn;
+  let port: number;
+  let service: TcpPrinterService;
+
+  beforeEach(async () => {
+    daemon = new LpdStandIn();
+    port = await daemon.start();
+    service = new TcpPrinterService(new NetworkDeviceManager());
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await daemon.stop();
+  });
+
+  it('should record sent jobs', async () => {
+    const result = await service.printLpd('printer_lpd', '127.0.0.1', port, 'lp', 'data');
+
+    expect(result).toMatchObject({ success: true, bytesPrinted: 4 });
+    expect(service.getJobStatus(result.jobId!)?.status).toBe('sent');
+    expect(daemon.jobs[0].controlFile).toContain(`J${result.jobId}`);
+  });
+
+  it('should let the daemon print collated copies', async () => {
+    await service.printLpd('printer_lpd', '127.0.0.1', port, 'lp', '^XA^FD1^FS^XZ^XA^FD2^FS^XZ', { format: 'zpl', copies: 2 });
+
+    expect(daemon.jobs[0].data.toString()).toBe('^XA^FD1^FS^XZ^XA^FD2^FS^XZ');
+    expect(daemon.jobs[0].controlFile.split('\n').filter(line => line.startsWith('l'))).toHaveLength(2);
+  });
+
+  it('should send uncollated copies as repeated labels', async () => {
+    await service.printLpd('printer_lpd', '127.0.0.1', port, 'lp', '^XA^FD1^FS^XZ^XA^FD2^FS^XZ', {
+      format: 'zpl', copies: 2, collate: false,
+    });
+
+    expect(daemon.jobs[0].data.toString()).toBe('^XA^FD1^FS^XZ^XA^FD1^FS^XZ^XA^FD2^FS^XZ^XA^FD2^FS^XZ');
+    expect(daemon.jobs[0].controlFile.split('\n').filter(line => line.startsWith('l'))).toHaveLength(1);
+  });
+
+  it('should report rejected jobs', async () => {
+    daemon.rejectStep = 'data';
+
+    const result = await service.printLpd('printer_lpd', '127.0.0.1', port, 'lp', 'data');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('rejected the data file');
+  });
+});
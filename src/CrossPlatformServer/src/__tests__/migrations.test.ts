@@ -0,0 +1,143 @@
+import Database from 'better-sqlite3';
+import { MIGRATIONS, runMigrations, getSchemaVersion } from '../migrations.js';
+import { DatabaseManager } from '../database-manager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'schema');
+const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Tables, columns and indexes, without the bookkeeping rows that differ between runs. */
+function describeSchema(db: Database.Database): Record<string, unknown> {
+  const tables = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as Array<{ name: string }>;
+  const schema: Record<string, unknown> = {};
+  for (const { name } of tables) {
+    schema[name] = {
+      columns: db.prepare(`PRAGMA table_info(${name})`).all(),
+      indexes: db.prepare(`SELECT name, sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL ORDER BY name`).all(name),
+    };
+  }
+  return schema;
+}
+
+function loadFixture(dbPath: string, version: number): void {
+  const db = new Database(dbPath);
+  db.exec(fs.readFileSync(path.join(fixturesDir, `v${version}.sql`), 'utf8'));
+  db.close();
+}
+
+describe('migrations', () => {
+  const testDbPath = path.join(__dirname, 'test-migrations.db');
+  const freshDbPath = path.join(__dirname, 'test-migrations-fresh.db');
+
+  const cleanup = () => {
+    for (const file of [testDbPath, freshDbPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  };
+
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it('should number migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+  });
+
+  it('should apply every migration to an empty database', () => {
+    const db = new Database(testDbPath);
+    const applied = runMigrations(db);
+
+    expect(applied).toEqual(MIGRATIONS.map(m => m.version));
+    expect(getSchemaVersion(db)).toBe(latestVersion);
+    db.close();
+  });
+
+  it('should not reapply migrations', () => {
+    const db = new Database(testDbPath);
+    runMigrations(db);
+
+    expect(runMigrations(db)).toEqual([]);
+    expect(db.prepare('SELECT COUNT(*) AS count FROM schema_version').get()).toEqual({ count: latestVersion });
+    db.close();
+  });
+
+  it('should roll back a failing migration and keep earlier ones', () => {
+    const db = new Database(testDbPath);
+    const migrations = [
+      ...MIGRATIONS,
+      {
+        version: latestVersion + 1,
+        description: 'Broken step',
+        up: (d: Database.Database) => {
+          d.exec('ALTER TABLE queue_jobs ADD COLUMN half_done TEXT');
+          throw new Error('boom');
+        }
+      },
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow(`Migration ${latestVersion + 1} (Broken step) failed: boom`);
+    expect(getSchemaVersion(db)).toBe(latestVersion);
+    const columns = db.prepare('PRAGMA table_info(queue_jobs)').all() as Array<{ name: string }>;
+    expect(columns.some(c => c.name === 'half_done')).toBe(false);
+    db.close();
+  });
+
+  it('should refuse a database from a newer version', () => {
+    const db = new Database(testDbPath);
+    runMigrations(db);
+    db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+      .run(latestVersion + 1, 'From the future', new Date().toISOString());
+
+    expect(() => runMigrations(db)).toThrow('newer than the latest supported version');
+    db.close();
+  });
+
+  it('should have a fixture for every historical version', () => {
+    for (let version = 0; version < latestVersion; version++) {
+      expect(fs.existsSync(path.join(fixturesDir, `v${version}.sql`))).toBe(true);
+    }
+  });
+
+  describe.each(Array.from({ length: latestVersion }, (_, version) => version))('upgrading from version %i', (version) => {
+    it('should end up with the same schema as a fresh database', () => {
+      loadFixture(testDbPath, version);
+      const upgraded = new Database(testDbPath);
+      const applied = runMigrations(upgraded);
+
+      const fresh = new Database(freshDbPath);
+      runMigrations(fresh);
+
+      expect(applied).toEqual(MIGRATIONS.filter(m => m.version > version).map(m => m.version));
+      expect(getSchemaVersion(upgraded)).toBe(latestVersion);
+      expect(describeSchema(upgraded)).toEqual(describeSchema(fresh));
+      upgraded.close();
+      fresh.close();
+    });
+
+    it('should keep existing jobs usable', async () => {
+      loadFixture(testDbPath, version);
+      const dbManager = new DatabaseManager(testDbPath);
+      await dbManager.initialize();
+
+      const completed = await dbManager.getJob('job_fixture_completed');
+      expect(completed?.status).toBe('completed');
+      expect(completed?.priority).toBe(0);
+
+      const failed = await dbManager.getJob('job_fixture_failed');
+      expect(failed?.error).toBe('Connection timeout');
+      expect(failed?.retryCount).toBe(1);
+
+      const next = await dbManager.claimNextPendingJob(['printer_3']);
+      expect(next?.id).toBe('job_fixture_pending');
+      expect(next?.parameters).toEqual({ deviceId: 'printer_1', data: '^XA^FDpending^FS^XZ', format: 'zpl' });
+
+      dbManager.close();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { NetworkDeviceManager } from '../network-device-manager.js';
+
+describe('NetworkDeviceManager framing', () => {
+  let device: net.Server;
+  let port: number;
+  let manager: NetworkDeviceManager;
+  /** What the device answers to each request, written in pieces */
+  let reply: Buffer[];
+
+  beforeEach(async () => {
+    reply = [];
+    device = net.createServer((socket) => {
+      socket.on('data', () => {
+        reply.forEach((piece, i) => setTimeout(() => socket.write(piece), i * 20));
+      });
+    });
+    await new Promise<void>(resolve => device.listen(0, '127.0.0.1', resolve));
+    port = (device.address() as AddressInfo).port;
+    manager = new NetworkDeviceManager({ defaultTimeout: 2000 });
+  });
+
+  afterEach(async () => {
+    await manager.disconnectAll();
+    await new Promise(resolve => device.close(resolve));
+  });
+
+  it('should return exactly one framed reply', async () => {
+    await manager.connect('terminal', { host: '127.0.0.1', port, protocol: 'tcp', framing: { mode: 'stx-etx' } });
+    reply = [Buffer.from('\x02OK,1'), Buffer.from('23\x03\x02NEXT\x03')];
+
+    const result = await manager.sendAndReceive('terminal', 'STATUS\r\n');
+
+    expect(result).toMatchObject({ success: true, bytesWritten: 8 });
+    expect(result.response.toString()).toBe('OK,123');
+    expect(manager.getConnectionStatus('terminal')?.framing).toEqual({ mode: 'stx-etx', start: 2, end: 3, maxLength: 4096 });
+  });
+
+  it('should emit each frame as device-frame', async () => {
+    await manager.connect('terminal', {
+      host: '127.0.0.1', port, protocol: 'tcp', framing: { mode: 'length-prefixed', prefixBytes: 1 },
+    });
+    reply = [Buffer.from([0x02, 0x41, 0x42, 0x01]), Buffer.from([0x43])];
+    const frames: string[] = [];
+    manager.on('device-frame', (_deviceId: string, frame: Buffer) => frames.push(frame.toString()));
+
+    await manager.sendAndReceive('terminal', 'x');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(frames).toEqual(['AB', 'C']);
+  });
+
+  it('should time out when no complete frame arrives', async () => {
+    await manager.connect('terminal', { host: '127.0.0.1', port, protocol: 'tcp', framing: { mode: 'line' } });
+    reply = [Buffer.from('partial')];
+
+    const result = await manager.sendAndReceive('terminal', 'x', 200);
+
+    expect(result).toMatchObject({ success: false, error: 'Response timeout' });
+    expect(result.response.length).toBe(0);
+  });
+
+  it('should refuse invalid framing', async () => {
+    const result = await manager.connect('terminal', { host: '127.0.0.1', port, protocol: 'tcp', framing: { mode: 'fixed' } as never });
+
+    expect(result).toMatchObject({ success: false, error: 'framing.length must be a positive integer' });
+  });
+});
@@ -0,0 +1,186 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import {
+  PjlClient,
+  buildPjlRequest,
+  parsePjlResponse,
+  parsePjlStatus,
+  parsePjlConfig,
+  parsePjlUnsolicited,
+  pjlStatusToFlags,
+} from '../pjl.js';
+import { summarizePrinterStatus } from '../printer-status.js';
+import { NetworkDeviceManager } from '../network-device-manager.js';
+
+const UEL = '\x1b%-12345X';
+
+const STATUS_REPLY = '@PJL INFO STATUS\r\nCODE=10001\r\nDISPLAY="READY"\r\nONLINE=TRUE\r\n\f';
+const PAGECOUNT_REPLY = '@PJL INFO PAGECOUNT\r\nPAGECOUNT=48213\r\n\f';
+const CONFIG_REPLY = [
+  '@PJL INFO CONFIG',
+  'IN TRAYS [2 ENUMERATED]',
+  '\tINTRAY1 MP',
+  '\tINTRAY2 PC',
+  'DUPLEX',
+  'LANGUAGES [2 ENUMERATED]',
+  '\tPCL',
+  '\tPOSTSCRIPT',
+  'MEMORY=262144',
+  'DISPLAY LINES=2',
+  '',
+].join('\r\n') + '\f';
+const RESOLUTION_REPLY = '@PJL INQUIRE RESOLUTION\r\n600\r\n\f';
+
+describe('pjl', () => {
+  describe('buildPjlRequest', () => {
+    it('should wrap the commands in UEL', () => {
+      expect(buildPjlRequest(['INFO STATUS']).toString('ascii'))
+        .toBe(`${UEL}@PJL\r\n@PJL INFO STATUS\r\n${UEL}`);
+    });
+  });
+
+  describe('parsePjlResponse', () => {
+    it('should split replies into one block per echoed command', () => {
+      const blocks = parsePjlResponse(STATUS_REPLY + PAGECOUNT_REPLY);
+
+      expect(blocks).toEqual([
+        { command: 'INFO STATUS', lines: ['CODE=10001', 'DISPLAY="READY"', 'ONLINE=TRUE'] },
+        { command: 'INFO PAGECOUNT', lines: ['PAGECOUNT=48213'] },
+      ]);
+    });
+
+    it('should skip data before the first echoed command', () => {
+      expect(parsePjlResponse(`garbage\f${STATUS_REPLY}`)).toHaveLength(1);
+    });
+  });
+
+  describe('parsePjlStatus', () => {
+    it('should read code, display and online state', () => {
+      expect(parsePjlStatus(['CODE=40021', 'DISPLAY="CLOSE DOOR"', 'ONLINE=FALSE']))
+        .toEqual({ code: 40021, display: 'CLOSE DOOR', online: false });
+    });
+
+    it('should require a code', () => {
+      expect(() => parsePjlStatus(['ONLINE=TRUE'])).toThrow('did not include a CODE');
+    });
+  });
+
+  describe('parsePjlConfig', () => {
+    it('should read trays, languages, duplex and memory', () => {
+      const config = parsePjlConfig(parsePjlResponse(CONFIG_REPLY)[0].lines);
+
+      expect(config).toMatchObject({
+        duplex: true,
+        languages: ['PCL', 'POSTSCRIPT'],
+        trays: ['INTRAY1', 'INTRAY2'],
+        memory: 262144,
+      });
+      expect(config.entries['DISPLAY LINES']).toBe('2');
+    });
+  });
+
+  describe('pjlStatusToFlags', () => {
+    it.each([
+      [10001, 'ready'],
+      [40021, 'cover_open'],
+      [40022, 'paper_jam'],
+      [41102, 'paper_out'],
+      [42104, 'paper_jam'],
+      [50001, 'error'],
+    ])('should summarize code %d as %s', (code, status) => {
+      const flags = pjlStatusToFlags({ code, online: true }, Buffer.alloc(0));
+      expect(summarizePrinterStatus(flags)).toBe(status);
+    });
+
+    it('should report offline printers', () => {
+      const flags = pjlStatusToFlags({ code: 10002, display: 'OFFLINE', online: false }, Buffer.from('x'));
+
+      expect(flags).toMatchObject({ commandLanguage: 'pjl', online: false, statusCode: 10002, displayMessage: 'OFFLINE', raw: '78' });
+      expect(summarizePrinterStatus(flags)).toBe('offline');
+    });
+  });
+
+  describe('parsePjlUnsolicited', () => {
+    it('should read device, job and page messages', () => {
+      const statuses = parsePjlUnsolicited(
+        '@PJL USTATUS DEVICE\r\nCODE=41102\r\nDISPLAY="LOAD TRAY 2"\r\nONLINE=TRUE\r\n\f' +
+        '@PJL USTATUS JOB\r\nEND\r\nNAME="report"\r\nPAGES=3\r\n\f' +
+        '@PJL USTATUS PAGE\r\n2\r\n\f' +
+        STATUS_REPLY
+      );
+
+      expect(statuses).toEqual([
+        { type: 'device', status: { code: 41102, display: 'LOAD TRAY 2', online: true } },
+        { type: 'job', event: 'end', name: 'report', pages: 3 },
+        { type: 'page', page: 2 },
+      ]);
+    });
+  });
+
+  describe('PjlClient', () => {
+    let printer: net.Server;
+    let manager: NetworkDeviceManager;
+    let received: string[];
+
+    beforeEach(async () => {
+      received = [];
+      // Answer each command the way a JetDirect printer would
+      printer = net.createServer(socket => {
+        socket.on('data', chunk => {
+          const request = chunk.toString('latin1');
+          received.push(request);
+          const replies: Record<string, string> = {
+            'INFO STATUS': STATUS_REPLY,
+            'INFO PAGECOUNT': PAGECOUNT_REPLY,
+            'INFO CONFIG': CONFIG_REPLY,
+            'INQUIRE RESOLUTION': RESOLUTION_REPLY,
+          };
+          const answer = Object.entries(replies)
+            .filter(([command]) => request.includes(`@PJL ${command}\r\n`))
+            .map(([, reply]) => reply)
+            .join('');
+          if (answer) socket.write(answer, 'latin1');
+        });
+      });
+      await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+
+      manager = new NetworkDeviceManager({ defaultTimeout: 2000 });
+      await manager.connect('laser', {
+        host: '127.0.0.1',
+        port: (printer.address() as AddressInfo).port,
+        protocol: 'tcp',
+        commandLanguage: 'pjl',
+      });
+    });
+
+    afterEach(async () => {
+      await manager.disconnectAll();
+      await new Promise(resolve => printer.close(resolve));
+    });
+
+    it('should read status and page count in one round trip', async () => {
+      const result = await new PjlClient(manager, 'laser').getStatus();
+
+      expect(result.status).toEqual({ code: 10001, display: 'READY', online: true });
+      expect(result.pageCount).toBe(48213);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should read the configuration and resolution', async () => {
+      const config = await new PjlClient(manager, 'laser').getConfig();
+
+      expect(config).toMatchObject({ duplex: true, languages: ['PCL', 'POSTSCRIPT'], resolution: 600 });
+    });
+
+    it('should send USTATUS commands', async () => {
+      await new PjlClient(manager, 'laser').setUnsolicitedStatus(true);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(received.join('')).toContain('@PJL USTATUS DEVICE = ON\r\n@PJL USTATUS JOB = ON\r\n@PJL USTATUS PAGE = ON\r\n');
+    });
+
+    it('should fail for devices that are not connected', async () => {
+      await expect(new PjlClient(manager, 'missing').getStatus()).rejects.toThrow('PJL INFO STATUS, INFO PAGECOUNT request to missing failed');
+    });
+  });
+});
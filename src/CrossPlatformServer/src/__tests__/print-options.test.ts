@@ -0,0 +1,76 @@
+import { readOutputOptions, expandCopies, splitPages, buildLpArguments } from '../print-options.js';
+
+const pageText = (pages: Buffer[]) => pages.map(page => page.toString('latin1'));
+
+describe('print-options', () => {
+  describe('readOutputOptions', () => {
+    it('should default to one collated copy', () => {
+      expect(readOutputOptions({})).toEqual({ copies: 1, collate: true, jobName: undefined, cupsOptions: undefined });
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => readOutputOptions({ copies: 0 })).toThrow('copies must be an integer from 1 to 10000');
+      expect(() => readOutputOptions({ copies: 1.5 })).toThrow('copies must be an integer');
+      expect(() => readOutputOptions({ collate: 'no' })).toThrow('collate must be a boolean');
+      expect(() => readOutputOptions({ cupsOptions: ['media=A4'] })).toThrow('cupsOptions must be an object');
+      expect(() => readOutputOptions({ cupsOptions: { '-o': 'x' } })).toThrow('Invalid CUPS option name "-o"');
+      expect(() => readOutputOptions({ cupsOptions: { media: 'A4 landscape' } })).toThrow('without spaces');
+    });
+  });
+
+  describe('splitPages', () => {
+    it('should split ZPL after each label and keep trailing bytes with the last', () => {
+      expect(pageText(splitPages(Buffer.from('^XA1^XZ\n^xa2^xz\n'), 'zpl'))).toEqual(['^XA1^XZ', '\n^xa2^xz\n']);
+    });
+
+    it('should split EPL after each print command', () => {
+      expect(pageText(splitPages(Buffer.from('N\nA1\nP1\nN\nA2\nP2,1\n'), 'epl'))).toEqual(['N\nA1\nP1\n', 'N\nA2\nP2,1\n']);
+    });
+
+    it('should split ESC/POS after cuts but not inside raster data', () => {
+      const raster = Buffer.from([0x1d, 0x76, 0x30, 0, 2, 0, 1, 0, 0x1d, 0x56]);
+      const data = Buffer.concat([raster, Buffer.from([0x1d, 0x56, 0x00]), Buffer.from('B'), Buffer.from([0x1d, 0x56, 66, 3])]);
+
+      expect(splitPages(data, 'escpos').map(page => page.length)).toEqual([13, 5]);
+    });
+
+    it('should split plain text at form feeds', () => {
+      expect(pageText(splitPages(Buffer.from('one\ftwo'), 'raw'))).toEqual(['one\f', 'two']);
+      expect(pageText(splitPages(Buffer.from('one'), 'raw'))).toEqual(['one']);
+    });
+  });
+
+  describe('expandCopies', () => {
+    it('should repeat whole sets when collated and each page when not', () => {
+      const data = Buffer.from('1\f2\f');
+
+      const joined = (copies: number, collate: boolean) => Buffer.concat([...expandCopies(data, 'raw', copies, collate).parts()]).toString();
+
+      expect(joined(2, true)).toBe('1\f2\f1\f2\f');
+      expect(joined(2, false)).toBe('1\f1\f2\f2\f');
+      expect([...expandCopies(data, 'raw', 1, false).parts()]).toEqual([data]);
+    });
+
+    it('should reuse the data for each copy instead of allocating all of them', () => {
+      const data = Buffer.alloc(4 * 1024 * 1024);
+      const copies = expandCopies(data, 'raw', 10000, true);
+
+      expect(copies.length).toBe(data.length * 10000);
+      let count = 0;
+      for (const part of copies.parts()) {
+        expect(part).toBe(data);
+        count++;
+      }
+      expect(count).toBe(10000);
+    });
+  });
+
+  describe('buildLpArguments', () => {
+    it('should only add what differs from the defaults', () => {
+      expect(buildLpArguments('Office')).toEqual(['-d', 'Office', '-']);
+      expect(buildLpArguments('Office', { copies: 2, cupsOptions: { media: 'Letter', 'number-up': 2, sides: false } })).toEqual([
+        '-d', 'Office', '-n', '2', '-o', 'collate=true', '-o', 'media=Letter', '-o', 'number-up=2', '-o', 'sides=false', '-',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  ESCPOS_STATUS_QUERY,
+  ZPL_STATUS_QUERY,
+  statusQueryFor,
+  parseEscPosStatus,
+  parseZplHostStatus,
+  parseStatusResponse,
+  summarizePrinterStatus,
+} from '../printer-status.js';
+
+/** A ~HS reply; `first` and `second` override fields of the first two strings. */
+function hostStatus(first: Record<number, string> = {}, second: Record<number, string> = {}): Buffer {
+  const one = ['030', '0', '0', '1245', '000', '0', '0', '0', '000', '0', '0', '0'];
+  const two = ['001', '0', '0', '0', '1', '2', '4', '0', '00000000', '1', '000'];
+  Object.entries(first).forEach(([i, v]) => { one[Number(i)] = v; });
+  Object.entries(second).forEach(([i, v]) => { two[Number(i)] = v; });
+  return Buffer.from(`\x02${one.join(',')}\x03\r\n\x02${two.join(',')}\x03\r\n\x021234,0\x03\r\n`, 'ascii');
+}
+
+describe('printer-status', () => {
+  describe('statusQueryFor', () => {
+    it('should pick the query for the command language', () => {
+      expect(statusQueryFor('escpos')).toBe(ESCPOS_STATUS_QUERY);
+      expect(statusQueryFor('zpl')).toBe(ZPL_STATUS_QUERY);
+      expect(statusQueryFor('epl')).toBeUndefined();
+    });
+  });
+
+  describe('parseEscPosStatus', () => {
+    it('should report a ready printer', () => {
+      const flags = parseEscPosStatus(Buffer.from([0x12, 0x12, 0x12, 0x12]));
+
+      expect(flags).toEqual({
+        commandLanguage: 'escpos',
+        online: true,
+        drawerOpen: false,
+        coverOpen: false,
+        paperOut: false,
+        paperNearEnd: false,
+        cutterError: false,
+        unrecoverableError: false,
+        autoRecoverableError: false,
+        raw: '12121212',
+      });
+      expect(summarizePrinterStatus(flags)).toBe('ready');
+    });
+
+    it('should decode offline, cover, paper and drawer bits', () => {
+      const flags = parseEscPosStatus(Buffer.from([
+        0x12 | 0x08 | 0x04, // offline, drawer pin 3 high
+        0x12 | 0x04 | 0x20, // cover open, stopped by paper end
+        0x12 | 0x04, // autocutter error
+        0x12 | 0x0c | 0x60, // near end, paper end
+      ]));
+
+      expect(flags).toMatchObject({
+        online: false,
+        drawerOpen: true,
+        coverOpen: true,
+        paperOut: true,
+        paperNearEnd: true,
+        cutterError: true,
+      });
+      expect(summarizePrinterStatus(flags)).toBe('error');
+    });
+
+    it('should reject short or malformed replies', () => {
+      expect(() => parseEscPosStatus(Buffer.from([0x12, 0x12]))).toThrow('Expected 4 ESC/POS status bytes');
+      expect(() => parseEscPosStatus(Buffer.from('OK\r\n'))).toThrow('Invalid ESC/POS status byte');
+    });
+  });
+
+  describe('parseZplHostStatus', () => {
+    it('should report a ready printer', () => {
+      const flags = parseZplHostStatus(hostStatus());
+
+      expect(flags).toMatchObject({
+        commandLanguage: 'zpl',
+        online: true,
+        paperOut: false,
+        coverOpen: false,
+        ribbonOut: false,
+        paused: false,
+        receiveBufferFull: false,
+        formatsInBuffer: 0,
+        labelsRemaining: 0,
+      });
+      expect(summarizePrinterStatus(flags)).toBe('ready');
+    });
+
+    it('should decode paper out, pause, head open and ribbon out', () => {
+      expect(summarizePrinterStatus(parseZplHostStatus(hostStatus({ 1: '1' })))).toBe('paper_out');
+      expect(summarizePrinterStatus(parseZplHostStatus(hostStatus({ 2: '1' })))).toBe('paused');
+      expect(summarizePrinterStatus(parseZplHostStatus(hostStatus({}, { 2: '1' })))).toBe('cover_open');
+      expect(summarizePrinterStatus(parseZplHostStatus(hostStatus({}, { 3: '1' })))).toBe('ribbon_out');
+    });
+
+    it('should report queued formats and remaining labels', () => {
+      const flags = parseZplHostStatus(hostStatus({ 4: '003', 5: '1' }, { 8: '00000012' }));
+
+      expect(flags.formatsInBuffer).toBe(3);
+      expect(flags.receiveBufferFull).toBe(true);
+      expect(flags.labelsRemaining).toBe(12);
+    });
+
+    it('should reject incomplete replies', () => {
+      expect(() => parseZplHostStatus(Buffer.from('\x02030,0,0\x03\r\n', 'ascii'))).toThrow('Incomplete ZPL host status');
+    });
+  });
+
+  it('should refuse to parse languages without a status query', () => {
+    expect(() => parseStatusResponse('epl', Buffer.alloc(0))).toThrow('not supported for epl');
+  });
+});
@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import { DatabaseManager } from '../database-manager.js';
+import { QueueMaintenance, DEFAULT_RETENTION_POLICY } from '../queue-maintenance.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('QueueMaintenance', () => {
+  const testDbPath = path.join(__dirname, 'test-queue-maintenance.db');
+  let dbManager: DatabaseManager;
+
+  const addFinished = async (status: string, hoursAgo: number) => {
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'payload' });
+    await dbManager.updateJobStatus(jobId, status);
+
+    const db = new Database(testDbPath);
+    const when = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+    db.prepare('UPDATE queue_jobs SET created_at = ?, completed_at = ? WHERE id = ?').run(when, when, jobId);
+    db.close();
+
+    return jobId;
+  };
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    dbManager = new DatabaseManager(testDbPath);
+    await dbManager.initialize();
+  });
+
+  afterEach(() => {
+    dbManager.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should use the default policy when none is given', () => {
+    const maintenance = new QueueMaintenance(dbManager);
+    expect(maintenance.getPolicy()).toEqual(DEFAULT_RETENTION_POLICY);
+  });
+
+  it('should merge a partial policy with the defaults', () => {
+    const maintenance = new QueueMaintenance(dbManager, { maxFinishedJobs: 50 });
+    expect(maintenance.getPolicy().maxFinishedJobs).toBe(50);
+    expect(maintenance.getPolicy().purgeIntervalMinutes).toBe(DEFAULT_RETENTION_POLICY.purgeIntervalMinutes);
+  });
+
+  it('should purge jobs past their per-status age', async () => {
+    const maintenance = new QueueMaintenance(dbManager, {
+      maxAgeHours: { completed: 24, failed: 72 },
+      maxFinishedJobs: undefined,
+      stripPayloadsAfterHours: undefined,
+    });
+    const oldCompleted = await addFinished('completed', 48);
+    const oldFailed = await addFinished('failed', 48);
+    const oldCancelled = await addFinished('cancelled', 1000);
+
+    const result = await maintenance.applyRetention();
+
+    expect(result).toEqual({ purged: 1, stripped: 0, vacuumed: false });
+    expect(await dbManager.getJob(oldCompleted)).toBeNull();
+    expect(await dbManager.getJob(oldFailed)).not.toBeNull();
+    expect(await dbManager.getJob(oldCancelled)).not.toBeNull();
+  });
+
+  it('should cap the number of finished jobs', async () => {
+    const maintenance = new QueueMaintenance(dbManager, {
+      maxAgeHours: {},
+      maxFinishedJobs: 2,
+      stripPayloadsAfterHours: undefined,
+    });
+    const oldest = await addFinished('completed', 3);
+    await addFinished('failed', 2);
+    await addFinished('completed', 1);
+    const pending = await dbManager.addJob('printer_1', 'printer', 'print', {});
+
+    const result = await maintenance.applyRetention();
+
+    expect(result.purged).toBe(1);
+    expect(await dbManager.getJob(oldest)).toBeNull();
+    expect(await dbManager.getJob(pending)).not.toBeNull();
+  });
+
+  it('should strip payloads after the configured age', async () => {
+    const maintenance = new QueueMaintenance(dbManager, {
+      maxAgeHours: {},
+      maxFinishedJobs: undefined,
+      stripPayloadsAfterHours: 12,
+    });
+    const jobId = await addFinished('completed', 24);
+
+    const result = await maintenance.applyRetention();
+
+    expect(result.stripped).toBe(1);
+    expect((await dbManager.getJob(jobId))?.parameters).toEqual({});
+  });
+
+  it('should stop its timers', () => {
+    const maintenance = new QueueMaintenance(dbManager, { maxAgeHours: {} });
+    maintenance.start();
+    expect(() => maintenance.stop()).not.toThrow();
+  });
+});
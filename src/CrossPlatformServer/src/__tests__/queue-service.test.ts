@@ -0,0 +1,185 @@
+import { DatabaseManager } from '../database-manager.js';
+import { QueueService } from '../queue-service.js';
+import { JobUpdate } from '../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe('QueueService', () => {
+  const testDbPath = path.join(__dirname, 'test-queue-service.db');
+  let dbManager: DatabaseManager;
+  let queue: QueueService;
+  let updates: JobUpdate[];
+
+  const request = (overrides: Record<string, any> = {}) => ({
+    deviceId: 'printer_1',
+    deviceType: 'printer',
+    operation: 'print',
+    parameters: { data: 'test' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    dbManager = new DatabaseManager(testDbPath);
+    await dbManager.initialize();
+    queue = new QueueService(dbManager, { worker: { pollInterval: 20 } });
+    updates = [];
+    queue.onJobUpdate(update => updates.push(update));
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    dbManager.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  describe('enqueue', () => {
+    it('should store the job with its scheduling options', async () => {
+      const notBefore = new Date(Date.now() + 60000);
+      const { job, duplicate } = await queue.enqueue(request({ priority: 3, notBefore }));
+
+      expect(duplicate).toBe(false);
+      expect(job.status).toBe('pending');
+      expect(job.priority).toBe(3);
+      expect(job.notBefore?.getTime()).toBe(notBefore.getTime());
+    });
+
+    it('should return the earlier job for a repeated idempotency key', async () => {
+      const first = await queue.enqueue(request({ idempotencyKey: 'key-1' }));
+      const second = await queue.enqueue(request({ idempotencyKey: 'key-1' }));
+
+      expect(second.duplicate).toBe(true);
+      expect(second.job.id).toBe(first.job.id);
+      expect((await queue.getStatus()).totalJobs).toBe(1);
+    });
+
+    it('should reject new jobs for a draining device', async () => {
+      await queue.setDeviceState('printer_1', 'draining');
+
+      await expect(queue.enqueue(request())).rejects.toThrow('is draining');
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should cancel a pending job and publish the update', async () => {
+      const { job } = await queue.enqueue(request());
+
+      expect(await queue.cancelJob(job.id)).toBe(true);
+      expect((await queue.getJob(job.id))?.status).toBe('cancelled');
+      expect(updates.map(u => [u.jobId, u.status])).toEqual([[job.id, 'cancelled']]);
+    });
+
+    it('should refuse unknown and finished jobs', async () => {
+      const { job } = await queue.enqueue(request());
+      await dbManager.updateJobStatus(job.id, 'completed');
+
+      expect(await queue.cancelJob('job_missing')).toBe(false);
+      expect(await queue.cancelJob(job.id)).toBe(false);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should abort a running job and keep it cancelled', async () => {
+      let started!: () => void;
+      const running = new Promise<void>(resolve => { started = resolve; });
+      queue.registerExecutor('print', (_job, signal) => new Promise((resolve) => {
+        started();
+        signal.addEventListener('abort', () => resolve({ success: false, error: 'Cancelled', bytesSent: 2 }));
+      }));
+      const { job } = await queue.enqueue(request());
+      queue.start();
+      await running;
+
+      expect(await queue.cancelJob(job.id)).toBe(true);
+      expect((await queue.getJob(job.id))?.status).toBe('cancelled');
+      expect(updates.map(u => [u.status, u.bytesSent])).toEqual([['processing', undefined], ['cancelled', 2]]);
+    });
+
+    it('should not abort a running job that has already finished', async () => {
+      let started!: () => void;
+      const running = new Promise<void>(resolve => { started = resolve; });
+      let finish!: () => void;
+      let aborted = false;
+      queue.registerExecutor('print', (_job, signal) => new Promise((resolve) => {
+        started();
+        signal.addEventListener('abort', () => { aborted = true; });
+        finish = () => resolve({ success: true, bytesSent: 2 });
+      }));
+      const { job } = await queue.enqueue(request());
+      queue.start();
+      await running;
+      // Recorded as finished while its executor is still winding down
+      await dbManager.updateJobStatus(job.id, 'completed');
+
+      expect(await queue.cancelJob(job.id)).toBe(false);
+      expect(aborted).toBe(false);
+      finish();
+      await queue.stop();
+      expect((await queue.getJob(job.id))?.status).toBe('completed');
+    });
+  });
+
+  describe('retryJob', () => {
+    it('should requeue a failed job and publish the update', async () => {
+      const { job } = await queue.enqueue(request());
+      await dbManager.updateJobStatus(job.id, 'failed', 'Paper out');
+
+      expect(await queue.retryJob(job.id)).toBe(true);
+      expect(updates.map(u => u.status)).toEqual(['pending']);
+    });
+
+    it('should refuse jobs that have not failed', async () => {
+      const { job } = await queue.enqueue(request());
+
+      expect(await queue.retryJob(job.id)).toBe(false);
+    });
+  });
+
+  describe('purge', () => {
+    it('should purge by criteria', async () => {
+      const { job } = await queue.enqueue(request());
+      await dbManager.updateJobStatus(job.id, 'completed');
+      await queue.enqueue(request());
+
+      const result = await queue.purge({ statuses: ['completed'] });
+
+      expect(result).toEqual({ purged: 1, stripped: 0, vacuumed: false });
+      expect((await queue.getStatus()).totalJobs).toBe(1);
+    });
+
+    it('should apply the retention policy without criteria and vacuum on request', async () => {
+      const result = await queue.purge(undefined, true);
+
+      expect(result).toEqual({ purged: 0, stripped: 0, vacuumed: true });
+    });
+  });
+
+  it('should run queued jobs through registered executors once started', async () => {
+    queue.registerExecutor('print', async () => ({ success: true, bytesSent: 4 }));
+    const { job } = await queue.enqueue(request());
+
+    queue.start();
+    const deadline = Date.now() + 2000;
+    while ((await queue.getJob(job.id))?.status !== 'completed') {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the job to complete');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(updates.filter(u => u.jobId === job.id).map(u => u.status)).toEqual(['processing', 'completed']);
+  });
+
+  it('should report the previous device state', async () => {
+    expect(await queue.setDeviceState('printer_1', 'paused', 'Jammed')).toBe('active');
+    expect(await queue.setDeviceState('printer_1', 'active')).toBe('paused');
+    expect((await queue.getDeviceQueue('printer_1')).state).toBe('active');
+  });
+});
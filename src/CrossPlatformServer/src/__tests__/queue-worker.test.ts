@@ -0,0 +1,316 @@
+import { DatabaseManager } from '../database-manager.js';
+import { QueueWorker } from '../queue-worker.js';
+import { QueueJob, JobUpdate } from '../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+async function waitFor(predicate: () => Promise<boolean>, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('QueueWorker', () => {
+  const testDbPath = path.join(__dirname, 'test-queue-worker.db');
+  let dbManager: DatabaseManager;
+  let worker: QueueWorker;
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    dbManager = new DatabaseManager(testDbPath);
+    await dbManager.initialize();
+    worker = new QueueWorker(dbManager, { pollInterval: 20 });
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    dbManager.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should run pending jobs and mark them completed', async () => {
+    const executed: string[] = [];
+    worker.registerExecutor('print', async (job) => {
+      executed.push(job.id);
+      return { success: true };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'test' });
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'completed');
+    expect(executed).toEqual([jobId]);
+  });
+
+  it('should pass stored parameters to the executor', async () => {
+    let received: QueueJob | undefined;
+    worker.registerExecutor('print', async (job) => {
+      received = job;
+      return { success: true };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'hello', format: 'zpl' });
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'completed');
+    expect(received?.status).toBe('processing');
+    expect(received?.parameters).toEqual({ data: 'hello', format: 'zpl' });
+  });
+
+  it('should mark job failed when executor reports failure', async () => {
+    worker.registerExecutor('print', async () => ({ success: false, error: 'Printer offline' }));
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'failed');
+    expect((await dbManager.getJob(jobId))?.error).toBe('Printer offline');
+  });
+
+  it('should mark job failed when executor throws', async () => {
+    worker.registerExecutor('print', async () => {
+      throw new Error('Socket closed');
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'failed');
+    expect((await dbManager.getJob(jobId))?.error).toBe('Socket closed');
+  });
+
+  it('should mark job failed when no executor is registered', async () => {
+    const jobId = await dbManager.addJob('serial_1', 'serial', 'serial.send', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'failed');
+    expect((await dbManager.getJob(jobId))?.error).toContain('serial.send');
+  });
+
+  it('should retry transient failures until the job succeeds', async () => {
+    worker = new QueueWorker(dbManager, {
+      pollInterval: 10,
+      retryPolicies: { print: { initialDelay: 10, maxAttempts: 3 } },
+    });
+    let attempts = 0;
+    worker.registerExecutor('print', async () => {
+      attempts++;
+      return attempts < 3
+        ? { success: false, error: 'Connection timeout to 10.0.0.5:9100' }
+        : { success: true };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'completed');
+    expect(attempts).toBe(3);
+    expect((await dbManager.getJob(jobId))?.retryCount).toBe(2);
+  });
+
+  it('should move job to dead letter after exhausting retries', async () => {
+    worker = new QueueWorker(dbManager, {
+      pollInterval: 10,
+      retryPolicies: { print: { initialDelay: 10, maxAttempts: 2 } },
+    });
+    let attempts = 0;
+    worker.registerExecutor('print', async () => {
+      attempts++;
+      return { success: false, error: 'connect ECONNREFUSED 10.0.0.5:9100' };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'dead_letter');
+    expect(attempts).toBe(2);
+    expect((await dbManager.getJob(jobId))?.error).toContain('ECONNREFUSED');
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    worker = new QueueWorker(dbManager, {
+      pollInterval: 10,
+      retryPolicies: { print: { initialDelay: 10 } },
+    });
+    let attempts = 0;
+    worker.registerExecutor('print', async () => {
+      attempts++;
+      return { success: false, error: 'Invalid ZPL data' };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'failed');
+    expect(attempts).toBe(1);
+    expect((await dbManager.getJob(jobId))?.retryCount).toBe(0);
+  });
+
+  it('should run jobs for the same device one at a time in order', async () => {
+    const order: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    worker.registerExecutor('print', async (job) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      order.push(job.parameters?.data);
+      inFlight--;
+      return { success: true };
+    });
+
+    worker.start();
+    for (let i = 0; i < 3; i++) {
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: `receipt_${i}` });
+      worker.notify();
+    }
+
+    await waitFor(async () => (await dbManager.getJobs(undefined, 'completed')).length === 3);
+    expect(maxInFlight).toBe(1);
+    expect(order).toEqual(['receipt_0', 'receipt_1', 'receipt_2']);
+  });
+
+  it('should run jobs for different devices in parallel', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    worker.registerExecutor('print', async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      inFlight--;
+      return { success: true };
+    });
+
+    await dbManager.addJob('printer_1', 'printer', 'print', {});
+    await dbManager.addJob('printer_2', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJobs(undefined, 'completed')).length === 2);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should keep renewing the lease of a long-running job', async () => {
+    worker = new QueueWorker(dbManager, { pollInterval: 10, leaseDuration: 60, heartbeatInterval: 20 });
+    worker.registerExecutor('print', async () => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return { success: true };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'completed');
+    expect((await dbManager.getJob(jobId))?.retryCount).toBe(0);
+    expect((await dbManager.getJob(jobId))?.error).toBeFalsy();
+  });
+
+  it('should keep a cancel recorded after the executor returned', async () => {
+    let ran = false;
+    worker.registerExecutor('print', async (job) => {
+      // Lands between the executor's result and the worker recording it
+      await dbManager.cancelJob(job.id);
+      ran = true;
+      return { success: true };
+    });
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => ran && worker.getActiveJobCount() === 0);
+    expect((await dbManager.getJob(jobId))?.status).toBe('cancelled');
+  });
+
+  it('should pick up jobs orphaned by another worker', async () => {
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    await dbManager.claimNextPendingJob([], -1);
+
+    worker = new QueueWorker(dbManager, { pollInterval: 10, heartbeatInterval: 20 });
+    worker.registerExecutor('print', async () => ({ success: true }));
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(jobId))?.status === 'completed');
+    expect((await dbManager.getJob(jobId))?.retryCount).toBe(1);
+  });
+
+  it('should hold jobs of a paused device until it is resumed', async () => {
+    const executed: string[] = [];
+    worker.registerExecutor('print', async (job) => {
+      executed.push(job.deviceId);
+      return { success: true };
+    });
+
+    await dbManager.setDeviceQueueState('printer_1', 'paused');
+    const pausedJob = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    const otherJob = await dbManager.addJob('printer_2', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => (await dbManager.getJob(otherJob))?.status === 'completed');
+    expect((await dbManager.getJob(pausedJob))?.status).toBe('pending');
+
+    await dbManager.setDeviceQueueState('printer_1', 'active');
+    worker.notify();
+
+    await waitFor(async () => (await dbManager.getJob(pausedJob))?.status === 'completed');
+    expect(executed).toEqual(['printer_2', 'printer_1']);
+  });
+
+  it('should emit job updates for each status change', async () => {
+    const updates: JobUpdate[] = [];
+    worker.on('job-updated', (update: JobUpdate) => updates.push(update));
+    worker.registerExecutor('print', async () => ({ success: true, bytesSent: 128 }));
+
+    const jobId = await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => updates.some(u => u.status === 'completed'));
+    expect(updates.map(u => u.status)).toEqual(['processing', 'completed']);
+    expect(updates[1]).toMatchObject({ jobId, deviceId: 'printer_1', operation: 'print', bytesSent: 128 });
+  });
+
+  it('should emit scheduled retries and the final failure', async () => {
+    worker = new QueueWorker(dbManager, {
+      pollInterval: 10,
+      retryPolicies: { print: { initialDelay: 10, maxAttempts: 2 } },
+    });
+    const updates: JobUpdate[] = [];
+    worker.on('job-updated', (update: JobUpdate) => updates.push(update));
+    worker.registerExecutor('print', async () => ({ success: false, error: 'Connection timeout' }));
+
+    await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+
+    await waitFor(async () => updates.some(u => u.status === 'dead_letter'));
+    expect(updates.map(u => u.status)).toEqual(['processing', 'pending', 'processing', 'dead_letter']);
+    expect(updates[1].nextAttemptAt).toBeInstanceOf(Date);
+    expect(updates[3].error).toBe('Connection timeout');
+  });
+
+  it('should wait for running jobs on stop', async () => {
+    let finished = false;
+    worker.registerExecutor('print', async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      finished = true;
+      return { success: true };
+    });
+
+    await dbManager.addJob('printer_1', 'printer', 'print', {});
+    worker.start();
+    await waitFor(async () => worker.getActiveJobCount() === 1);
+
+    await worker.stop();
+    expect(finished).toBe(true);
+    expect(worker.isRunning()).toBe(false);
+  });
+});
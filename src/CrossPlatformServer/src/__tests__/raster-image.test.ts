@@ -0,0 +1,85 @@
+import { rasterizeImage, imageToPrinterData, escPosRaster, zplGraphicLabel, eplGraphicLabel, MonoBitmap } from '../raster-image.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'images', name));
+
+/** 12x2 dots: a black bar across the first row. */
+const bar: MonoBitmap = { width: 12, height: 2, bytesPerRow: 2, data: Buffer.from([0xff, 0xf0, 0x00, 0x00]) };
+
+function countBlack(data: Buffer): number {
+  return [...data].reduce((sum, byte) => sum + byte.toString(2).replace(/0/g, '').length, 0);
+}
+
+describe('raster-image', () => {
+  describe('rasterizeImage', () => {
+    it('should keep images that fit at their own size', () => {
+      const bitmap = rasterizeImage(fixture('logo.png'));
+
+      expect(bitmap).toMatchObject({ width: 20, height: 10, bytesPerRow: 3 });
+      expect([...bitmap.data.subarray(0, 3)]).toEqual([0xff, 0xc0, 0x00]);
+    });
+
+    it('should scale images down to the printable width', () => {
+      const bitmap = rasterizeImage(fixture('logo.png'), { maxPrintWidth: 8 });
+
+      expect(bitmap).toMatchObject({ width: 8, height: 4, bytesPerRow: 1 });
+      expect([...bitmap.data]).toEqual([0xf0, 0xf0, 0xf0, 0xf0]);
+    });
+
+    it('should scale to an explicit width', () => {
+      expect(rasterizeImage(fixture('half-black.jpg'), { width: 32 })).toMatchObject({ width: 32, height: 16 });
+      expect(() => rasterizeImage(fixture('logo.png'), { maxPrintWidth: 8, width: 9 }))
+        .toThrow('width must be an integer from 1 to 8, got 9');
+    });
+
+    it('should dither gray to a mix of dots', () => {
+      const dithered = rasterizeImage(fixture('gray.png'));
+      const thresholded = rasterizeImage(fixture('gray.png'), { dither: 'threshold' });
+      const darker = rasterizeImage(fixture('gray.png'), { dither: 'threshold', threshold: 200 });
+
+      expect(countBlack(dithered.data)).toBeGreaterThan(100);
+      expect(countBlack(dithered.data)).toBeLessThan(156);
+      expect(countBlack(thresholded.data)).toBe(0);
+      expect(countBlack(darker.data)).toBe(256);
+    });
+
+    it('should reject unknown dither methods', () => {
+      expect(() => rasterizeImage(fixture('gray.png'), { dither: 'ordered' as never })).toThrow('Unknown dither method "ordered"');
+    });
+  });
+
+  describe('printer commands', () => {
+    it('should wrap ESC/POS raster data in GS v 0', () => {
+      expect([...escPosRaster(bar)]).toEqual([0x1d, 0x76, 0x30, 0, 2, 0, 2, 0, 0xff, 0xf0, 0x00, 0x00]);
+    });
+
+    it('should split tall ESC/POS images into bands', () => {
+      const tall: MonoBitmap = { width: 8, height: 300, bytesPerRow: 1, data: Buffer.alloc(300) };
+      const bytes = escPosRaster(tall);
+
+      expect([...bytes.subarray(0, 8)]).toEqual([0x1d, 0x76, 0x30, 0, 1, 0, 0, 1]);
+      expect([...bytes.subarray(8 + 256, 8 + 256 + 8)]).toEqual([0x1d, 0x76, 0x30, 0, 1, 0, 44, 0]);
+      expect(bytes.length).toBe(16 + 300);
+    });
+
+    it('should write a ZPL graphic field as hex', () => {
+      expect(zplGraphicLabel(bar, 10, 20).toString()).toBe('^XA^FO10,20^GFA,4,4,2,FFF00000^FS^XZ');
+    });
+
+    it('should write an EPL graphic with inverted bits', () => {
+      const expected = Buffer.concat([Buffer.from('N\nGW0,0,2,2,'), Buffer.from([0x00, 0x0f, 0xff, 0xff]), Buffer.from('\nP1\n')]);
+
+      expect(eplGraphicLabel(bar).equals(expected)).toBe(true);
+    });
+
+    it('should pick the command for the format', () => {
+      expect(imageToPrinterData(fixture('logo.png'), 'zpl').toString()).toMatch(/^\^XA\^FO0,0\^GFA,30,30,3,FFC000/);
+      expect(() => imageToPrinterData(fixture('logo.png'), 'pjl' as never)).toThrow('Images can be printed as escpos, zpl or epl, not pjl');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  isRetryableError,
+  getRetryDelay,
+} from '../retry-policy.js';
+
+describe('retry policy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should fall back to the default policy for unknown operations', () => {
+      expect(resolveRetryPolicy('usb.sendReport')).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should apply built-in per-operation defaults', () => {
+      expect(resolveRetryPolicy('print').maxAttempts).toBe(5);
+    });
+
+    it('should let overrides win over defaults', () => {
+      const policy = resolveRetryPolicy('print', { print: { maxAttempts: 1 } });
+      expect(policy.maxAttempts).toBe(1);
+      expect(policy.backoffMultiplier).toBe(DEFAULT_RETRY_POLICY.backoffMultiplier);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should treat connection failures as retryable', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, 'Connection timeout to 10.0.0.5:9100')).toBe(true);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, 'connect ECONNREFUSED 10.0.0.5:9100')).toBe(true);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, 'Device printer_1 is not connected')).toBe(true);
+    });
+
+    it('should treat data errors as not retryable', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, 'Device ID and data are required')).toBe(false);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, 'Invalid ZPL data')).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should grow exponentially', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, backoffMultiplier: 2, maxDelay: 10000 };
+      expect(getRetryDelay(policy, 0)).toBe(100);
+      expect(getRetryDelay(policy, 1)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(800);
+    });
+
+    it('should be capped at maxDelay', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 1000, backoffMultiplier: 10, maxDelay: 5000 };
+      expect(getRetryDelay(policy, 4)).toBe(5000);
+    });
+  });
+});
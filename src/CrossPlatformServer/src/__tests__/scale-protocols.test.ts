@@ -0,0 +1,74 @@
+import { getScaleDriver } from '../scale-protocols.js';
+
+const frame = (text: string) => Buffer.from(text, 'latin1');
+
+describe('getScaleDriver', () => {
+  it('should reject unknown protocols and units', () => {
+    expect(() => getScaleDriver('dibal')).toThrow('Unknown scale protocol dibal; expected one of toledo, toledo-continuous, generic');
+    expect(() => getScaleDriver('toledo', 'stone')).toThrow('unit must be one of');
+  });
+
+  describe('toledo', () => {
+    const driver = getScaleDriver('toledo', 'kg');
+
+    it('should ask for the weight and frame replies from STX to CR', () => {
+      expect(driver.continuous).toBe(false);
+      expect(driver.weighCommand).toEqual(Buffer.from('W'));
+      expect(driver.framing).toEqual({ mode: 'stx-etx', start: 0x02, end: 0x0d });
+    });
+
+    it('should parse a weight', () => {
+      expect(driver.parse(frame('01.235'))).toEqual({
+        weight: 1.235, unit: 'kg', stable: true, net: false, overload: false, underload: false,
+      });
+    });
+
+    it('should parse status replies', () => {
+      expect(driver.parse(frame('?\x21'))).toMatchObject({ weight: null, stable: false, overload: false });
+      expect(driver.parse(frame('?\x22'))).toMatchObject({ weight: null, stable: true, overload: true });
+      expect(driver.parse(frame('?\x24'))).toMatchObject({ underload: true });
+    });
+
+    it('should ignore other frames', () => {
+      expect(driver.parse(frame('E'))).toBeUndefined();
+    });
+  });
+
+  describe('toledo-continuous', () => {
+    const driver = getScaleDriver('toledo-continuous');
+
+    it('should parse weight, tare and status bytes', () => {
+      // Two decimals (SWA 0x34); net, kg (SWB 0x31)
+      expect(driver.parse(frame('\x34\x31\x20001250000500'))).toEqual({
+        weight: 12.5, unit: 'kg', stable: true, net: true, overload: false, underload: false, tare: 5,
+      });
+    });
+
+    it('should read sign, motion and range from status byte B', () => {
+      // No decimals, trailing zero (SWA 0x21); negative, out of range, in motion, lb (SWB 0x2e)
+      expect(driver.parse(frame('\x21\x2e\x20000012000000'))).toEqual({
+        weight: -120, unit: 'lb', stable: false, net: false, overload: false, underload: true, tare: 0,
+      });
+    });
+  });
+
+  describe('generic', () => {
+    const driver = getScaleDriver('generic');
+
+    it('should parse stable and unstable gross and net weights', () => {
+      expect(driver.parse(frame('ST,GS,+0001.23kg'))).toEqual({
+        weight: 1.23, unit: 'kg', stable: true, net: false, overload: false, underload: false,
+      });
+      expect(driver.parse(frame('US,NT,-  12.5 lbs'))).toMatchObject({ weight: -12.5, unit: 'lb', stable: false, net: true });
+    });
+
+    it('should report overload without a weight', () => {
+      expect(driver.parse(frame('OL,GS,+9999.99kg'))).toMatchObject({ weight: null, overload: true });
+    });
+
+    it('should ignore lines that are not readings', () => {
+      expect(driver.parse(frame('ST,TR,+0000.50kg'))).toBeUndefined();
+      expect(driver.parse(frame('ST,GS,+0001.23st'))).toBeUndefined();
+    });
+  });
+});
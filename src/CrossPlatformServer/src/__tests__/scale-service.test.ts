@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { ScaleService, readScaleSettings } from '../scale-service.js';
+import { SerialPortManager } from '../serial-port-manager.js';
+import { ScaleReading, SerialPortConfig } from '../types.js';
+
+/** Stands in for the serial port: records writes and lets tests send frames. */
+class FakeSerialPorts extends EventEmitter {
+  opened: Array<{ deviceId: string; path: string; config: SerialPortConfig }> = [];
+  written: string[] = [];
+  closed: string[] = [];
+  onWrite: (data: string) => void = () => undefined;
+
+  async open(deviceId: string, path: string, config: SerialPortConfig) {
+    this.opened.push({ deviceId, path, config });
+  }
+
+  async close(deviceId: string) {
+    this.closed.push(deviceId);
+    return true;
+  }
+
+  async write(_deviceId: string, data: Buffer) {
+    this.written.push(data.toString('latin1'));
+    this.onWrite(data.toString('latin1'));
+    return data.length;
+  }
+
+  frame(deviceId: string, text: string) {
+    this.emit('device-frame', deviceId, Buffer.from(text, 'latin1'));
+  }
+}
+
+describe('readScaleSettings', () => {
+  it('should start from the protocol\'s line settings and framing', () => {
+    const { driver, config } = readScaleSettings('toledo', { baudRate: 4800, framing: { mode: 'raw' } });
+
+    expect(driver.protocol).toBe('toledo');
+    expect(config).toMatchObject({ baudRate: 4800, dataBits: 7, parity: 'Even', framing: { mode: 'stx-etx', end: 0x0d } });
+  });
+});
+
+describe('ScaleService', () => {
+  let ports: FakeSerialPorts;
+  let service: ScaleService;
+  let published: ScaleReading[];
+
+  beforeEach(() => {
+    ports = new FakeSerialPorts();
+    service = new ScaleService(ports as unknown as SerialPortManager);
+    published = [];
+    service.on('scale-reading', (reading: ScaleReading) => published.push(reading));
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should ask a request-response scale and wait for it to settle', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('toledo'));
+    const replies = ['?\x21', '02.500'];
+    ports.onWrite = () => setTimeout(() => ports.frame('scale_1', replies.shift() ?? ''), 5);
+
+    const reading = await service.read('scale_1', { stable: true });
+
+    expect(ports.written).toEqual(['W', 'W']);
+    expect(reading).toMatchObject({ deviceId: 'scale_1', weight: 2.5, unit: 'lb', stable: true });
+  });
+
+  it('should take the next reading of a continuous scale', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+
+    const pending = service.read('scale_1');
+    ports.frame('scale_1', 'ST,GS,+0001.23kg');
+
+    expect(await pending).toMatchObject({ weight: 1.23, unit: 'kg', stable: true });
+    expect(ports.written).toEqual([]);
+  });
+
+  it('should give up when no reading arrives', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+
+    await expect(service.read('scale_1', { timeout: 20 })).rejects.toThrow('Scale scale_1 sent no reading within 20 ms');
+  });
+
+  it('should publish readings only when they change', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+
+    ['US,GS,+0001.20kg', 'ST,GS,+0001.23kg', 'ST,GS,+0001.23kg', 'bad line', 'ST,GS,+0001.24kg']
+      .forEach(line => ports.frame('scale_1', line));
+
+    expect(published.map(r => `${r.weight}:${r.stable}`)).toEqual(['1.2:false', '1.23:true', '1.24:true']);
+  });
+
+  it('should send tare and zero commands', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+
+    await service.tare('scale_1');
+    await service.zero('scale_1');
+
+    expect(ports.written).toEqual(['T\r\n', 'Z\r\n']);
+  });
+
+  it('should poll a watched request-response scale', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('toledo'));
+
+    service.watch('scale_1', 10);
+    await new Promise(resolve => setTimeout(resolve, 55));
+    service.unwatch('scale_1');
+    const polls = ports.written.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(polls).toBeGreaterThanOrEqual(3);
+    expect(ports.written.length).toBe(polls);
+  });
+
+  it('should forget a scale whose port goes away', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+    const pending = service.read('scale_1');
+
+    ports.emit('device-event', { eventType: 'disconnected', deviceId: 'scale_1', deviceType: 'serial', timestamp: new Date() });
+
+    await expect(pending).rejects.toThrow('Scale scale_1 was disconnected');
+    await expect(service.tare('scale_1')).rejects.toThrow('Scale scale_1 is not open');
+  });
+
+  it('should close a scale\'s port and fail its pending reads', async () => {
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('generic'));
+    const pending = service.read('scale_1');
+
+    await service.close('scale_1');
+
+    await expect(pending).rejects.toThrow('Scale scale_1 was closed');
+    expect(ports.closed).toEqual(['scale_1']);
+    expect(service.protocolOf('scale_1')).toBeUndefined();
+  });
+
+  it('should fail a read whose port goes away while the weigh command is written', async () => {
+    const unhandled: unknown[] = [];
+    const track = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', track);
+    await service.open('scale_1', '/dev/ttyS0', readScaleSettings('toledo'));
+    ports.onWrite = () => {
+      ports.emit('device-event', { eventType: 'disconnected', deviceId: 'scale_1', deviceType: 'serial', timestamp: new Date() });
+      throw new Error('Port scale_1 is closed');
+    };
+
+    try {
+      await expect(service.read('scale_1')).rejects.toThrow('Port scale_1 is closed');
+      await new Promise(resolve => setImmediate(resolve));
+    } finally {
+      process.off('unhandledRejection', track);
+    }
+
+    expect(unhandled).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { ChildProcessWithoutNullStreams, spawn, spawnSync, execFileSync } from 'child_process';
+import { SerialPortManager, readSerialConfig, buildSttyArguments } from '../serial-port-manager.js';
+import { DeviceEvent } from '../types.js';
+
+/**
+ * Stands in for the device: opens a pseudo-terminal pair, prints the slave's
+ * path, then writes hex lines from stdin to the master and reports what the
+ * master reads as hex lines on stdout.
+ */
+const PTY_DEVICE = `
+import os, sys, select
+master, slave = os.openpty()
+print(os.ttyname(slave), flush=True)
+while True:
+    ready, _, _ = select.select([sys.stdin, master], [], [])
+    if sys.stdin in ready:
+        line = sys.stdin.readline()
+        if not line:
+            break
+        os.write(master, bytes.fromhex(line.strip()))
+    if master in ready:
+        print(os.read(master, 4096).hex(), flush=True)
+`;
+
+const hasPty = process.platform === 'linux' && spawnSync('python3', ['--version']).status === 0;
+
+describe('readSerialConfig', () => {
+  it('should default to 9600 8N1 without flow control', () => {
+    expect(readSerialConfig({})).toEqual({
+      baudRate: 9600, parity: 'None', dataBits: 8, stopBits: '1', flowControl: 'None', framing: { mode: 'raw' },
+    });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => readSerialConfig({ baudRate: -1 })).toThrow('baudRate must be a positive integer');
+    expect(() => readSerialConfig({ parity: 'Sometimes' })).toThrow('parity must be one of None, Odd, Even, Mark, Space');
+    expect(() => readSerialConfig({ dataBits: 6 })).toThrow('dataBits must be 7 or 8');
+    expect(() => readSerialConfig({ flowControl: 'DTR' })).toThrow('flowControl must be one of');
+    expect(() => readSerialConfig({ framing: { mode: 'packets' } })).toThrow('Unknown framing mode packets');
+  });
+});
+
+describe('buildSttyArguments', () => {
+  it('should map 7E2 with hardware flow control', () => {
+    expect(buildSttyArguments({ baudRate: 19200, parity: 'Even', dataBits: 7, stopBits: '2', flowControl: 'RequestToSend' })).toEqual([
+      '19200', 'raw', '-echo', 'clocal', 'cs7', 'parenb', '-parodd', '-cmspar', 'cstopb', 'crtscts', '-ixon', '-ixoff',
+    ]);
+  });
+
+  it('should map mark parity and software flow control', () => {
+    const args = buildSttyArguments({ baudRate: 9600, parity: 'Mark', dataBits: 8, stopBits: '1', flowControl: 'XOnXOff' });
+
+    expect(args).toEqual(expect.arrayContaining(['parenb', 'parodd', 'cmspar', '-crtscts', 'ixon', 'ixoff']));
+  });
+
+  it('should reject 1.5 stop bits', () => {
+    expect(() => buildSttyArguments({ ...readSerialConfig({}), stopBits: '1.5' })).toThrow('1.5 stop bits are not supported');
+  });
+});
+
+(hasPty ? describe : describe.skip)('SerialPortManager', () => {
+  let device: ChildProcessWithoutNullStreams;
+  let devicePath: string;
+  let fromPort: string;
+  let manager: SerialPortManager;
+  let events: DeviceEvent[];
+
+  // Pseudo-terminals are always 8 bits without parity, so the tests stick to 8N1
+  const config = (overrides: Record<string, unknown> = {}) => readSerialConfig({ baudRate: 115200, ...overrides });
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    fromPort = '';
+    device = spawn('python3', ['-u', '-c', PTY_DEVICE]);
+    devicePath = await new Promise<string>((resolve) => {
+      let output = '';
+      const onData = (chunk: Buffer) => {
+        output += chunk.toString();
+        if (output.includes('\n')) {
+          device.stdout.off('data', onData);
+          resolve(output.split('\n')[0]);
+        }
+      };
+      device.stdout.on('data', onData);
+    });
+    device.stdout.on('data', (chunk: Buffer) => {
+      fromPort += chunk.toString().split('\n').map(line => Buffer.from(line, 'hex').toString('latin1')).join('');
+    });
+    manager = new SerialPortManager();
+    events = [];
+    manager.on('device-event', (event: DeviceEvent) => events.push(event));
+  });
+
+  afterEach(async () => {
+    await manager.closeAll();
+    device.kill();
+  });
+
+  it('should apply the line settings when opening', async () => {
+    const status = await manager.open('serial_pty', devicePath, config({ flowControl: 'RequestToSend' }));
+
+    const settings = execFileSync('stty', ['-F', devicePath, '-a']).toString();
+    expect(settings).toContain('speed 115200 baud');
+    expect(settings).toMatch(/(^|\s)-icanon(\s|$)/);
+    expect(settings).toMatch(/(^|\s)-echo(\s|$)/);
+    expect(settings).toMatch(/(^|\s)crtscts(\s|$)/);
+    expect(status).toMatchObject({ portName: devicePath, baudRate: 115200, isOpen: true, bytesToRead: 0 });
+    expect(events.map(e => e.eventType)).toEqual(['connected']);
+  });
+
+  it('should write to the device', async () => {
+    await manager.open('serial_pty', devicePath, config());
+
+    expect(await manager.write('serial_pty', Buffer.from('W\r\n'))).toBe(3);
+    await waitFor(() => fromPort.length >= 3);
+
+    expect(fromPort).toBe('W\r\n');
+    expect(manager.getStatus('serial_pty')?.bytesWritten).toBe(3);
+  });
+
+  it('should buffer what the device sends until it is read', async () => {
+    await manager.open('serial_pty', devicePath, config());
+
+    device.stdin.write(`${Buffer.from('ST,GS,  1.250kg\r\n').toString('hex')}\n`);
+    await waitFor(() => (manager.getStatus('serial_pty')?.bytesToRead ?? 0) >= 17);
+
+    expect((await manager.read('serial_pty', 3, 0)).toString()).toBe('ST,');
+    expect((await manager.read('serial_pty', 1024, 0)).toString()).toBe('GS,  1.250kg\r\n');
+    expect(manager.getStatus('serial_pty')).toMatchObject({ bytesToRead: 0, bytesRead: 17 });
+  });
+
+  it('should emit framed messages as lines arrive', async () => {
+    await manager.open('serial_pty', devicePath, config({ framing: { mode: 'line' } }));
+    const frames: string[] = [];
+    manager.on('device-frame', (deviceId: string, frame: Buffer) => frames.push(`${deviceId}:${frame}`));
+
+    device.stdin.write(`${Buffer.from('ST,GS,  1.250kg\r\nUS,GS,  0.0').toString('hex')}\n`);
+    await waitFor(() => frames.length >= 1);
+
+    expect(frames).toEqual(['serial_pty:ST,GS,  1.250kg']);
+    expect(manager.getStatus('serial_pty')?.framing).toEqual({ mode: 'line', delimiter: '\r\n', maxLength: 4096 });
+  });
+
+  it('should read one message at a time when framed', async () => {
+    await manager.open('serial_pty', devicePath, config({ framing: { mode: 'stx-etx' } }));
+
+    device.stdin.write('024130310302413032030241\n');
+    await waitFor(() => (manager.getStatus('serial_pty')?.bytesToRead ?? 0) >= 6);
+
+    expect((await manager.read('serial_pty', 1, 0)).toString()).toBe('A01');
+    expect((await manager.read('serial_pty', 1024, 0)).toString()).toBe('A02');
+    expect((await manager.read('serial_pty', 1024, 50)).length).toBe(0);
+  });
+
+  it('should wait for data and give up after the timeout', async () => {
+    await manager.open('serial_pty', devicePath, config());
+
+    const pending = manager.read('serial_pty', 1024, 2000);
+    device.stdin.write('06\n');
+
+    expect(await pending).toEqual(Buffer.from([0x06]));
+    expect((await manager.read('serial_pty', 1024, 50)).length).toBe(0);
+  });
+
+  it('should report a closed port', async () => {
+    await manager.open('serial_pty', devicePath, config());
+
+    expect(await manager.close('serial_pty')).toBe(true);
+    expect(await manager.close('serial_pty')).toBe(false);
+    expect(manager.isOpen('serial_pty')).toBe(false);
+    await expect(manager.write('serial_pty', Buffer.from('x'))).rejects.toThrow('Serial port serial_pty is not open');
+    expect(events.map(e => e.eventType)).toEqual(['connected', 'disconnected']);
+  });
+
+  it('should drop a port whose device goes away', async () => {
+    await manager.open('serial_pty', devicePath, config());
+
+    device.kill();
+    await waitFor(() => events.length === 2);
+
+    expect(events[1]).toMatchObject({ eventType: 'disconnected', deviceId: 'serial_pty', data: { reason: 'hangup' } });
+    expect(manager.isOpen('serial_pty')).toBe(false);
+  });
+
+  it('should refuse paths that are not serial ports', async () => {
+    await expect(manager.open('serial_null', '/dev/null', config())).rejects.toThrow('/dev/null is not a serial port');
+    await expect(manager.open('serial_none', '/dev/ttyDOESNOTEXIST', config())).rejects.toThrow('Could not open /dev/ttyDOESNOTEXIST');
+  });
+});
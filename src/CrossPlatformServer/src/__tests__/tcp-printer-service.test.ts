@@ -0,0 +1,263 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TcpPrinterService } from '../tcp-printer-service.js';
+import { NetworkDeviceManager } from '../network-device-manager.js';
+
+const RECEIPT = Buffer.concat([Buffer.from('\x1b@one'), Buffer.from([0x1d, 0x56, 65, 3]), Buffer.from('two'), Buffer.from([0x1d, 0x56, 65, 3])]);
+
+describe('TcpPrinterService copies', () => {
+  let printer: net.Server;
+  let port: number;
+  let received: Buffer;
+  let networkManager: NetworkDeviceManager;
+  let service: TcpPrinterService;
+
+  const waitForBytes = async (length: number) => {
+    for (let i = 0; i < 100 && received.length < length; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    received = Buffer.alloc(0);
+    printer = net.createServer((socket) => {
+      socket.on('data', (chunk) => { received = Buffer.concat([received, chunk]); });
+    });
+    await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+    port = (printer.address() as AddressInfo).port;
+    networkManager = new NetworkDeviceManager();
+    service = new TcpPrinterService(networkManager);
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await networkManager.disconnect('receipt').catch(() => undefined);
+    await new Promise(resolve => printer.close(resolve));
+  });
+
+  describe('raw socket', () => {
+    it('should repeat the whole job for collated copies', async () => {
+      const result = await service.printRaw('label', '127.0.0.1', port, '^XA^FD1^FS^XZ^XA^FD2^FS^XZ', { format: 'zpl', copies: 2 });
+
+      expect(result).toMatchObject({ success: true, bytesPrinted: 52 });
+      expect(received.toString()).toBe('^XA^FD1^FS^XZ^XA^FD2^FS^XZ^XA^FD1^FS^XZ^XA^FD2^FS^XZ');
+    });
+
+    it('should stream many copies of a large job', async () => {
+      const job = Buffer.alloc(100 * 1024, 0x41);
+
+      const result = await service.printRaw('label', '127.0.0.1', port, job, { copies: 20 });
+      await waitForBytes(job.length * 20);
+
+      expect(result).toMatchObject({ success: true, bytesPrinted: job.length * 20 });
+      expect(received.length).toBe(job.length * 20);
+    });
+
+    it('should repeat each page for uncollated copies', async () => {
+      await service.printRaw('label', '127.0.0.1', port, 'N\nA1\nP1\nN\nA2\nP1\n', { format: 'epl', copies: 2, collate: false });
+
+      expect(received.toString()).toBe('N\nA1\nP1\nN\nA1\nP1\nN\nA2\nP1\nN\nA2\nP1\n');
+    });
+  });
+
+  describe('connected socket', () => {
+    it('should send copies over the open connection', async () => {
+      await networkManager.connect('receipt', { host: '127.0.0.1', port, protocol: 'tcp' });
+
+      const result = await service.printRaw('receipt', '127.0.0.1', port, RECEIPT, { format: 'escpos', copies: 2, collate: false });
+      await waitForBytes(RECEIPT.length * 2);
+
+      const first = RECEIPT.subarray(0, 9);
+      const second = RECEIPT.subarray(9);
+      expect(result.success).toBe(true);
+      expect(received.equals(Buffer.concat([first, first, second, second]))).toBe(true);
+    });
+  });
+});
+
+describe('TcpPrinterService streaming', () => {
+  const JOB = Buffer.alloc(4 * 1024 * 1024, 0x41);
+  let printer: net.Server;
+  let port: number;
+  let received: number;
+  let service: TcpPrinterService;
+
+  beforeEach(async () => {
+    received = 0;
+    // A slow printer: it reads nothing for a while, so the socket buffers fill up
+    printer = net.createServer((socket) => {
+      socket.pause();
+      socket.on('data', (chunk) => { received += chunk.length; });
+      setTimeout(() => socket.resume(), 300);
+    });
+    await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+    port = (printer.address() as AddressInfo).port;
+    service = new TcpPrinterService(new NetworkDeviceManager());
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await new Promise(resolve => printer.close(resolve));
+  });
+
+  it('should write large jobs in chunks and report progress', async () => {
+    const progress: number[] = [];
+
+    const result = await service.printRaw('laser', '127.0.0.1', port, JOB, {
+      onProgress: job => progress.push(job.bytesSent),
+    });
+
+    expect(result).toMatchObject({ success: true, bytesPrinted: JOB.length });
+    expect(received).toBe(JOB.length);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[0]).toBeLessThan(JOB.length);
+    expect(progress[progress.length - 1]).toBe(JOB.length);
+    expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+    expect(service.getJobStatus(result.jobId as string)).toMatchObject({ status: 'sent', bytesSent: JOB.length });
+  });
+
+  it('should fail when the printer drops the connection mid-job', async () => {
+    await new Promise(resolve => printer.close(resolve));
+    printer = net.createServer((socket) => {
+      socket.once('data', () => socket.destroy());
+    });
+    await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+    port = (printer.address() as AddressInfo).port;
+
+    const result = await service.printRaw('laser', '127.0.0.1', port, JOB);
+
+    expect(result.success).toBe(false);
+    expect(service.getJobStatus(result.jobId as string)?.status).toBe('error');
+  });
+});
+
+describe('TcpPrinterService cancellation', () => {
+  const JOB = Buffer.alloc(4 * 1024 * 1024, 0x41);
+  let printer: net.Server;
+  let port: number;
+  let connections: Buffer[];
+  let sockets: net.Socket[];
+  let service: TcpPrinterService;
+
+  beforeEach(async () => {
+    connections = [];
+    sockets = [];
+    // Never reads the job, so it stays mid-transfer until cancelled; later connections are read
+    printer = net.createServer((socket) => {
+      const index = connections.push(Buffer.alloc(0)) - 1;
+      sockets.push(socket);
+      if (index === 0) {
+        socket.pause();
+        return;
+      }
+      socket.on('data', (chunk) => { connections[index] = Buffer.concat([connections[index], chunk]); });
+    });
+    await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+    port = (printer.address() as AddressInfo).port;
+    service = new TcpPrinterService(new NetworkDeviceManager());
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => printer.close(resolve));
+  });
+
+  /** Start printing JOB and cancel it once the first bytes are out. */
+  const printAndCancel = async (options: Record<string, any>) => {
+    let cancelled = false;
+    return service.printRaw('label', '127.0.0.1', port, JOB, {
+      ...options,
+      onProgress: (job) => {
+        if (!cancelled) cancelled = service.cancelJob(job.jobId);
+      },
+    });
+  };
+
+  it('should stop sending and destroy the socket', async () => {
+    const result = await printAndCancel({ format: 'raw' });
+
+    expect(result).toMatchObject({ success: false, error: 'Cancelled' });
+    const job = service.getJobStatus(result.jobId as string);
+    expect(job).toMatchObject({ status: 'error', error: 'Cancelled' });
+    expect(job?.bytesSent).toBeLessThan(JOB.length);
+    expect(connections).toHaveLength(1);
+  });
+
+  it('should send the format reset after cancelling when asked to', async () => {
+    await printAndCancel({ format: 'zpl', resetOnCancel: true });
+
+    expect(connections[1]?.toString()).toBe('~JA');
+  });
+
+  it('should cancel when the caller aborts its signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await service.printRaw('label', '127.0.0.1', port, JOB, { signal: controller.signal });
+
+    expect(result.error).toBe('Cancelled');
+    expect(service.getJobStatus(result.jobId as string)?.status).toBe('error');
+  });
+});
+
+describe('TcpPrinterService CUPS jobs', () => {
+  let binDir: string;
+  let service: TcpPrinterService;
+
+  beforeAll(() => {
+    // Stand-ins for lp: one records its arguments and standard input, one fails
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-lp-'));
+    fs.writeFileSync(path.join(binDir, 'lp'), [
+      '#!/bin/sh',
+      'printf \'%s\\n\' "$@" > "$(dirname "$0")/args"',
+      'cat > "$(dirname "$0")/stdin"',
+      'echo "request id is Office-42 (1 file(s))"',
+    ].join('\n'), { mode: 0o755 });
+    fs.writeFileSync(path.join(binDir, 'lp-missing'), [
+      '#!/bin/sh',
+      'echo "lp: The printer or class does not exist." >&2',
+      'exit 1',
+    ].join('\n'), { mode: 0o755 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    service = new TcpPrinterService(new NetworkDeviceManager(), { lpCommand: path.join(binDir, 'lp') });
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should pass copies, collation, job name and options to lp', async () => {
+    const result = await service.printCups('office', 'Office', 'report', {
+      copies: 3,
+      collate: false,
+      jobName: 'Monthly report',
+      cupsOptions: { media: 'A4', 'fit-to-page': true },
+    });
+
+    expect(result).toMatchObject({ success: true, jobId: 'Office-42', bytesPrinted: 6 });
+    expect(service.getJobStatus('Office-42')?.status).toBe('sent');
+    expect(fs.readFileSync(path.join(binDir, 'args'), 'utf8').trim().split('\n')).toEqual([
+      '-d', 'Office', '-n', '3', '-o', 'collate=false', '-t', 'Monthly report', '-o', 'media=A4', '-o', 'fit-to-page', '-',
+    ]);
+    expect(fs.readFileSync(path.join(binDir, 'stdin'), 'utf8')).toBe('report');
+  });
+
+  it('should report lp failures', async () => {
+    service = new TcpPrinterService(new NetworkDeviceManager(), { lpCommand: path.join(binDir, 'lp-missing') });
+
+    const result = await service.printCups('office', 'Missing', 'report');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('CUPS print failed');
+  });
+});
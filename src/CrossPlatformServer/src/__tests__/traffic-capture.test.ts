@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TrafficCapture, formatHexDump } from '../traffic-capture.js';
+
+describe('formatHexDump', () => {
+  it('should show offsets, hex and printable ASCII 16 bytes per line', () => {
+    const data = Buffer.concat([Buffer.from('Hello, scale!\r\n'), Buffer.from([0x02, 0x30, 0x03])]);
+
+    expect(formatHexDump(data).split('\n')).toEqual([
+      '00000000  48 65 6c 6c 6f 2c 20 73  63 61 6c 65 21 0d 0a 02  |Hello, scale!...|',
+      '00000010  30 03' + ' '.repeat(43) + '  |0.|',
+    ]);
+  });
+
+  it('should be empty for no data', () => {
+    expect(formatHexDump(Buffer.alloc(0))).toBe('');
+  });
+});
+
+describe('TrafficCapture', () => {
+  let capture: TrafficCapture;
+
+  beforeEach(() => {
+    capture = new TrafficCapture();
+  });
+
+  afterEach(async () => {
+    await capture.stopAll();
+  });
+
+  it('should only record devices being captured', async () => {
+    capture.record('scale', 'rx', Buffer.from('ignored'));
+    await capture.start('scale');
+    capture.record('scale', 'tx', Buffer.from('W'));
+    capture.record('printer', 'tx', Buffer.from('ignored'));
+
+    expect(capture.get('printer')).toBeUndefined();
+    expect(capture.get('scale')).toMatchObject({
+      deviceId: 'scale',
+      capturing: true,
+      bytesSent: 1,
+      bytesReceived: 0,
+      entries: [{ direction: 'tx', length: 1, hex: '57' }],
+    });
+  });
+
+  it('should drop the oldest entries beyond maxBytes', async () => {
+    await capture.start('scale', { maxBytes: 8 });
+    ['aaaa', 'bbbb', 'cccc'].forEach(data => capture.record('scale', 'rx', Buffer.from(data)));
+
+    const result = capture.get('scale');
+
+    expect(result?.entries.map(entry => entry.hex)).toEqual(['62626262', '63636363']);
+    expect(result?.droppedEntries).toBe(1);
+    expect(result?.bytesReceived).toBe(12);
+  });
+
+  it('should return the latest entries and clear them on request', async () => {
+    await capture.start('scale');
+    ['1', '2', '3'].forEach(data => capture.record('scale', 'rx', Buffer.from(data)));
+
+    expect(capture.get('scale', { limit: 2, clear: true })?.entries.map(entry => entry.hex)).toEqual(['32', '33']);
+    capture.record('scale', 'rx', Buffer.from('4'));
+    expect(capture.get('scale')?.entries.map(entry => entry.hex)).toEqual(['34']);
+  });
+
+  it('should keep entries after stopping', async () => {
+    await capture.start('scale');
+    capture.record('scale', 'rx', Buffer.from('1'));
+
+    expect(await capture.stop('scale')).toBe(true);
+    expect(await capture.stop('scale')).toBe(false);
+    capture.record('scale', 'rx', Buffer.from('2'));
+
+    expect(capture.isCapturing('scale')).toBe(false);
+    expect(capture.get('scale')?.entries).toHaveLength(1);
+  });
+
+  it('should reject a non-positive maxBytes', async () => {
+    await expect(capture.start('scale', { maxBytes: 0 })).rejects.toThrow('maxBytes must be a positive integer');
+  });
+
+  it('should append hex dumps to the capture file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-'));
+    const file = path.join(dir, 'scale.log');
+    try {
+      await capture.start('scale', { file });
+      capture.record('scale', 'tx', Buffer.from('W'));
+      capture.record('scale', 'rx', Buffer.from([0x02, 0x31, 0x0d]));
+      await capture.stop('scale');
+
+      const log = fs.readFileSync(file, 'utf8');
+      expect(log).toMatch(/^\S+Z TX 1 bytes\n00000000  57 +\|W\|\n\n\S+Z RX 3 bytes\n00000000  02 31 0d +\|\.1\.\|\n\n$/);
+      expect(capture.get('scale')?.file).toBe(file);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,17 @@
 import { CrossPlatformWebSocketServer } from '../websocket-server.js';
-import { ServerConfig } from '../types.js';
+import { DatabaseManager } from '../database-manager.js';
+import { QueueService } from '../queue-service.js';
+import { ServerConfig, DeviceEvent } from '../types.js';
 import WebSocket from 'ws';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 describe('CrossPlatformWebSocketServer', () => {
   const testPort = 19876; // Use a different port to avoid conflicts
@@ -24,6 +35,25 @@ describe('CrossPlatformWebSocketServer', () => {
     await server.stop();
   });
 
+  /** Send one JSON-RPC request on a fresh connection and return the response. */
+  const call = async (method: string, params?: any) => {
+    const client = new WebSocket(`ws://localhost:${testPort}`);
+    await new Promise<void>((resolve) => {
+      client.once('message', () => resolve()); // Wait for welcome
+    });
+    const response = new Promise<any>((resolve) => {
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.id === 1) resolve(message);
+      });
+    });
+    client.send(JSON.stringify({ jsonrpc: '2.0', method, params, id: 1 }));
+    const message = await response;
+    client.close();
+    return message;
+  };
+
+
   describe('constructor', () => {
     it('should create server with config', () => {
       expect(server).toBeInstanceOf(CrossPlatformWebSocketServer);
@@ -391,4 +421,619 @@ describe('CrossPlatformWebSocketServer', () => {
       expect(messages[1].length).toBeGreaterThan(0);
     });
   });
+
+  describe('job subscriptions', () => {
+    const connect = async () => {
+      const client = new WebSocket(`ws://localhost:${testPort}`);
+      const welcome = await new Promise<any>((resolve) => {
+        client.once('message', (data) => resolve(JSON.parse(data.toString())));
+      });
+      const messages: any[] = [];
+      client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      return { client, connectionId: welcome.params.connectionId as string, messages };
+    };
+
+    const update = (status: any) => ({
+      jobId: 'job_1',
+      deviceId: 'printer_1',
+      operation: 'print',
+      status,
+      retryCount: 0,
+      timestamp: new Date(),
+    });
+
+    it('should push job updates to subscribed connections only', async () => {
+      await server.start();
+      const subscriber = await connect();
+      const bystander = await connect();
+
+      server.subscribeToJob(subscriber.connectionId, 'job_1');
+      server.publishJobUpdate(update('processing'));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      subscriber.client.close();
+      bystander.client.close();
+
+      expect(subscriber.messages).toHaveLength(1);
+      expect(subscriber.messages[0].method).toBe('queue.jobUpdated');
+      expect(subscriber.messages[0].params.status).toBe('processing');
+      expect(bystander.messages).toHaveLength(0);
+    });
+
+    it('should end the subscription once the job is finished', async () => {
+      await server.start();
+      const subscriber = await connect();
+
+      server.subscribeToJob(subscriber.connectionId, 'job_1');
+      server.publishJobUpdate(update('completed'));
+      server.publishJobUpdate(update('pending'));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      subscriber.client.close();
+
+      expect(subscriber.messages.map(m => m.params.status)).toEqual(['completed']);
+    });
+
+    it('should stop pushing after unsubscribe', async () => {
+      await server.start();
+      const subscriber = await connect();
+
+      server.subscribeToJob(subscriber.connectionId, 'job_1');
+      server.unsubscribeFromJob(subscriber.connectionId, 'job_1');
+      server.publishJobUpdate(update('processing'));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      subscriber.client.close();
+
+      expect(subscriber.messages).toHaveLength(0);
+    });
+  });
+
+  describe('emitDeviceEvent', () => {
+    it('should send device.event notifications and notify local listeners', async () => {
+      await server.start();
+
+      const client = new WebSocket(`ws://localhost:${testPort}`);
+      await new Promise<void>((resolve) => {
+        client.on('message', () => resolve()); // Wait for welcome
+      });
+      const notification = new Promise<any>((resolve) => {
+        client.on('message', (data) => resolve(JSON.parse(data.toString())));
+      });
+
+      const received: string[] = [];
+      server.onDeviceEvent((event) => received.push(event.deviceId));
+
+      server.emitDeviceEvent({
+        eventType: 'status_changed',
+        deviceId: 'printer_1',
+        deviceType: 'printer',
+        timestamp: new Date(),
+        data: { queueState: 'paused' },
+      });
+
+      const message = await notification;
+      client.close();
+
+      expect(message.method).toBe('device.event');
+      expect(message.params.data).toEqual({ queueState: 'paused' });
+      expect(received).toEqual(['printer_1']);
+    });
+  });
+
+  describe('job queue', () => {
+    const testDbPath = path.join(__dirname, 'test-websocket-queue.db');
+    let dbManager: DatabaseManager;
+    let queue: QueueService;
+
+    beforeEach(async () => {
+      if (fs.existsSync(testDbPath)) {
+        fs.unlinkSync(testDbPath);
+      }
+      dbManager = new DatabaseManager(testDbPath);
+      await dbManager.initialize();
+      // The queue is not started, so queued jobs stay pending.
+      queue = new QueueService(dbManager);
+      server = new CrossPlatformWebSocketServer(config, queue);
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      dbManager.close();
+      if (fs.existsSync(testDbPath)) {
+        fs.unlinkSync(testDbPath);
+      }
+    });
+
+    it('should queue print requests', async () => {
+      const response = await call('printer.print', { deviceId: 'printer_1', data: '^XA^XZ', format: 'zpl', priority: 5 });
+
+      expect(response.result.success).toBe(true);
+      expect(response.result.status).toBe('pending');
+      const job = await dbManager.getJob(response.result.jobId);
+      expect(job?.operation).toBe('print');
+      expect(job?.priority).toBe(5);
+    });
+
+    it('should queue documents and reject invalid ones before queueing', async () => {
+      const document = { elements: [{ type: 'text', text: 'Total 9.99' }, { type: 'cut' }] };
+
+      const response = await call('printer.printDocument', { deviceId: 'printer_1', document });
+      const invalid = await call('printer.printDocument', { deviceId: 'printer_1', document: { elements: [{ type: 'feed', lines: -1 }] } });
+
+      const job = await dbManager.getJob(response.result.jobId);
+      expect(job?.parameters).toMatchObject({ document, format: 'escpos' });
+      expect(invalid.error.data).toContain('Element 0 (feed)');
+      expect((await call('queue.getStatus')).result.totalJobs).toBe(1);
+    });
+
+    it('should queue images and reject unreadable ones before queueing', async () => {
+      const image = fs.readFileSync(path.join(__dirname, 'fixtures', 'images', 'logo.png')).toString('base64');
+
+      const response = await call('printer.printImage', { deviceId: 'printer_1', image, format: 'epl', maxPrintWidth: 8 });
+      const invalid = await call('printer.printImage', { deviceId: 'printer_1', image: Buffer.from('not an image').toString('base64') });
+
+      const job = await dbManager.getJob(response.result.jobId);
+      expect(job?.parameters).toMatchObject({ image, format: 'epl', imageOptions: { maxPrintWidth: 8 } });
+      expect(invalid.error.data).toContain('Unsupported image format');
+      expect((await call('queue.getStatus')).result.totalJobs).toBe(1);
+    });
+
+    it('should keep output options with queued jobs and reject invalid ones', async () => {
+      const response = await call('printer.print', {
+        deviceId: 'printer_1', data: 'report', copies: 2, collate: false, jobName: 'Report', cupsOptions: { media: 'A4' },
+      });
+      const invalid = await call('printer.print', { deviceId: 'printer_1', data: 'report', copies: 0 });
+
+      const job = await dbManager.getJob(response.result.jobId);
+      expect(job?.parameters).toMatchObject({ copies: 2, collate: false, jobName: 'Report', cupsOptions: { media: 'A4' } });
+      expect(invalid.error.data).toContain('copies must be an integer from 1 to 10000');
+      expect((await call('queue.getStatus')).result.totalJobs).toBe(1);
+    });
+
+    it('should report stored queue counts', async () => {
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'a' });
+      await dbManager.addJob('printer_1', 'printer', 'print', { data: 'b' });
+
+      const response = await call('queue.getStatus');
+
+      expect(response.result.totalJobs).toBe(2);
+      expect(response.result.pendingJobs).toBe(2);
+    });
+
+    it('should cancel queued jobs and reject unknown ones', async () => {
+      const jobId = await dbManager.addJob('printer_1', 'printer', 'print', { data: 'a' });
+
+      expect((await call('queue.cancelJob', { jobId })).result).toEqual({ success: true });
+      expect((await dbManager.getJob(jobId))?.status).toBe('cancelled');
+
+      const missing = await call('queue.cancelJob', { jobId: 'job_missing' });
+      expect(missing.error.data).toContain('not found or already finished');
+    });
+
+    it('should report that no queue is configured without one', async () => {
+      await server.stop();
+      server = new CrossPlatformWebSocketServer(config);
+      await server.start();
+
+      const response = await call('queue.getStatus');
+      expect(response.error.data).toBe('Job queue is not configured');
+    });
+  });
+
+  describe('label templates', () => {
+    const testDbPath = path.join(__dirname, 'test-websocket-templates.db');
+    let dbManager: DatabaseManager;
+
+    const shipping = {
+      name: 'shipping',
+      language: 'zpl',
+      body: '^XA^FD{{recipient}}^FS^XZ',
+      variables: [{ name: 'recipient', type: 'string' }],
+    };
+
+    beforeEach(async () => {
+      if (fs.existsSync(testDbPath)) {
+        fs.unlinkSync(testDbPath);
+      }
+      dbManager = new DatabaseManager(testDbPath);
+      await dbManager.initialize();
+      server = new CrossPlatformWebSocketServer(config, new QueueService(dbManager), dbManager);
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      dbManager.close();
+      if (fs.existsSync(testDbPath)) {
+        fs.unlinkSync(testDbPath);
+      }
+    });
+
+    it('should save, list and delete templates', async () => {
+      const saved = await call('templates.save', shipping);
+
+      expect(saved.result).toMatchObject(shipping);
+      expect((await call('templates.list')).result.map((t: any) => t.name)).toEqual(['shipping']);
+      expect((await call('templates.get', { name: 'shipping' })).result.body).toBe(shipping.body);
+      expect((await call('templates.delete', { name: 'shipping' })).result).toEqual({ success: true });
+      expect((await call('templates.get', { name: 'shipping' })).error.data).toContain('Template shipping not found');
+    });
+
+    it('should reject inconsistent templates', async () => {
+      const response = await call('templates.save', { ...shipping, variables: [] });
+
+      expect(response.error.data).toContain('Template uses undeclared variables: recipient');
+      expect(await dbManager.listTemplates()).toEqual([]);
+    });
+
+    it('should queue the rendered label', async () => {
+      await call('templates.save', shipping);
+
+      const response = await call('printer.printTemplate', {
+        deviceId: 'zebra_1',
+        template: 'shipping',
+        variables: { recipient: 'Ada' },
+        copies: 2,
+      });
+
+      const job = await dbManager.getJob(response.result.jobId);
+      expect(job?.parameters).toMatchObject({ data: '^XA^FDAda^FS^XZ^XA^FDAda^FS^XZ', format: 'zpl', jobName: 'shipping' });
+    });
+
+    it('should reject bad variables before queueing', async () => {
+      await call('templates.save', shipping);
+
+      const unknown = await call('printer.printTemplate', { deviceId: 'zebra_1', template: 'shipping', variables: { recipient: 'Ada', note: 'x' } });
+      const missing = await call('printer.printTemplate', { deviceId: 'zebra_1', template: 'shipping', variables: {} });
+
+      expect(unknown.error.data).toContain('Unknown template variables: note');
+      expect(missing.error.data).toContain('Missing template variables: recipient');
+      expect((await call('queue.getStatus')).result.totalJobs).toBe(0);
+    });
+
+    it('should report that no template store is configured without one', async () => {
+      await server.stop();
+      server = new CrossPlatformWebSocketServer(config);
+      await server.start();
+
+      const response = await call('templates.list');
+      expect(response.error.data).toBe('Template store is not configured');
+    });
+  });
+
+  describe('printer status', () => {
+    let printer: net.Server;
+    let printerPort: number;
+    let reply: Buffer;
+
+    beforeEach(async () => {
+      reply = Buffer.from([0x12, 0x12 | 0x20, 0x12, 0x12 | 0x60]); // stopped by paper end
+      printer = net.createServer((socket) => {
+        socket.on('data', () => socket.write(reply));
+      });
+      await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+      printerPort = (printer.address() as AddressInfo).port;
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      await new Promise(resolve => printer.close(resolve));
+    });
+
+    const connect = (commandLanguage?: string) => call('network.connect', {
+      deviceId: 'printer_net',
+      config: { host: '127.0.0.1', port: printerPort, protocol: 'tcp', commandLanguage },
+    });
+
+    it('should query connected ESC/POS printers with DLE EOT', async () => {
+      await connect('escpos');
+
+      const response = await call('printer.getStatus', { deviceId: 'printer_net' });
+
+      expect(response.result.status).toBe('paper_out');
+      expect(response.result.isReady).toBe(false);
+      expect(response.result.flags).toMatchObject({ commandLanguage: 'escpos', paperOut: true, coverOpen: false });
+    });
+
+    it('should let the request name the command language', async () => {
+      reply = Buffer.from('\x02030,0,1,1245,000,0,0,0,000,0,0,0\x03\r\n\x02001,0,0,0,1,2,4,0,00000000,1,000\x03\r\n', 'ascii');
+      await connect();
+
+      const response = await call('printer.getStatus', { deviceId: 'printer_net', commandLanguage: 'zpl' });
+
+      expect(response.result.status).toBe('paused');
+      expect(response.result.isPaused).toBe(true);
+    });
+
+    it('should fail when the command language is unknown', async () => {
+      await connect();
+
+      const response = await call('printer.getStatus', { deviceId: 'printer_net' });
+
+      expect(response.error.data).toContain('Command language of printer_net is unknown');
+    });
+  });
+
+  describe('serial ports', () => {
+    beforeEach(async () => {
+      await server.start();
+    });
+
+    it('should only open enumerated ports', async () => {
+      const response = await call('serial.open', { deviceId: 'serial_ttyusb99', baudRate: 9600 });
+
+      expect(response.error.data).toContain('Serial port serial_ttyusb99 not found');
+    });
+
+    it('should reject invalid line settings before opening', async () => {
+      const response = await call('serial.open', { deviceId: 'serial_ttyusb0', dataBits: 5 });
+
+      expect(response.error.data).toContain('dataBits must be 7 or 8');
+    });
+
+    it('should reject unknown framing and encodings before opening', async () => {
+      const framing = await call('serial.open', { deviceId: 'serial_ttyusb0', framing: { mode: 'line', delimiter: '' } });
+      const encoding = await call('serial.open', { deviceId: 'serial_ttyusb0', encoding: 'ebcdic' });
+
+      expect(framing.error.data).toContain('framing.delimiter must be a non-empty string');
+      expect(encoding.error.data).toContain('Unknown encoding ebcdic');
+    });
+
+    it('should report ports that are not open', async () => {
+      const send = await call('serial.send', { deviceId: 'serial_ttyusb0', data: 'W\r\n' });
+      const status = await call('serial.getStatus', { deviceId: 'serial_ttyusb0' });
+
+      expect(send.error.data).toContain('Serial port serial_ttyusb0 is not open');
+      expect(status.result).toEqual({ isConnected: false, status: 'closed', isOpen: false });
+    });
+  });
+
+  describe('scales', () => {
+    beforeEach(async () => {
+      await server.start();
+    });
+
+    it('should check the protocol before looking for the port', async () => {
+      const response = await call('scale.read', { deviceId: 'serial_ttyusb99', protocol: 'dibal' });
+
+      expect(response.error.data).toContain('Unknown scale protocol dibal');
+    });
+
+    it('should need a protocol for a scale that is not open', async () => {
+      const read = await call('scale.read', { deviceId: 'serial_ttyusb0' });
+      const subscribe = await call('scale.subscribe', { deviceId: 'serial_ttyusb0' });
+
+      expect(read.error.data).toContain('Scale serial_ttyusb0 is not open');
+      expect(subscribe.error.data).toContain('Scale serial_ttyusb0 is not open');
+    });
+
+    it('should only open enumerated ports', async () => {
+      const response = await call('scale.tare', { deviceId: 'serial_ttyusb99', protocol: 'generic' });
+
+      expect(response.error.data).toContain('Serial port serial_ttyusb99 not found');
+    });
+  });
+
+  describe('traffic capture', () => {
+    let device: net.Server;
+    let devicePort: number;
+    let captureDir: string;
+
+    beforeEach(async () => {
+      device = net.createServer((socket) => {
+        socket.on('data', () => socket.write('OK\r\n'));
+      });
+      await new Promise<void>(resolve => device.listen(0, '127.0.0.1', resolve));
+      devicePort = (device.address() as AddressInfo).port;
+      captureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-'));
+      config.captureDirectory = captureDir;
+      await server.start();
+      await call('network.connect', {
+        deviceId: 'net_device',
+        config: { host: '127.0.0.1', port: devicePort, protocol: 'tcp' },
+      });
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      await new Promise(resolve => device.close(resolve));
+      fs.rmSync(captureDir, { recursive: true, force: true });
+    });
+
+    /** Poll the capture until it holds `count` entries. */
+    const captured = async (count: number) => {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const response = await call('diagnostics.getCapture', { deviceId: 'net_device' });
+        if (response.result.entries.length >= count) return response.result;
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      throw new Error(`Capture did not reach ${count} entries`);
+    };
+
+    it('should record what is sent and received as hex dumps', async () => {
+      await call('diagnostics.startCapture', { deviceId: 'net_device' });
+      await call('network.send', { deviceId: 'net_device', data: 'PING' });
+
+      const capture = await captured(2);
+
+      expect(capture.capturing).toBe(true);
+      expect(capture.bytesSent).toBe(4);
+      expect(capture.bytesReceived).toBe(4);
+      expect(capture.entries.map((entry: any) => [entry.direction, entry.hex])).toEqual([
+        ['tx', '50494e47'],
+        ['rx', '4f4b0d0a'],
+      ]);
+      expect(capture.entries[1].dump).toBe('00000000  4f 4b 0d 0a' + ' '.repeat(37) + '  |OK..|');
+      expect(capture.totals).toEqual({ bytesRead: 4, bytesWritten: 4 });
+    });
+
+    it('should write hex dumps to the capture directory', async () => {
+      const started = await call('diagnostics.startCapture', { deviceId: 'net_device', toDisk: true });
+      await call('network.send', { deviceId: 'net_device', data: 'PING' });
+      await captured(2);
+      const stopped = await call('diagnostics.stopCapture', { deviceId: 'net_device' });
+
+      expect(stopped.result.stopped).toBe(true);
+      expect(path.dirname(started.result.file)).toBe(captureDir);
+      const log = fs.readFileSync(started.result.file, 'utf8');
+      expect(log).toMatch(/ TX 4 bytes\n00000000  50 49 4e 47 .*\|PING\|/);
+      expect(log).toMatch(/ RX 4 bytes\n00000000  4f 4b 0d 0a .*\|OK\.\.\|/);
+    });
+
+    it('should only capture open devices', async () => {
+      const start = await call('diagnostics.startCapture', { deviceId: 'serial_ttyusb0' });
+      const get = await call('diagnostics.getCapture', { deviceId: 'serial_ttyusb0' });
+
+      expect(start.error.data).toContain('Device serial_ttyusb0 is not open');
+      expect(get.error.data).toContain('No capture for device serial_ttyusb0');
+    });
+
+    it('should need a capture directory to capture to disk', async () => {
+      delete config.captureDirectory;
+
+      const response = await call('diagnostics.startCapture', { deviceId: 'net_device', toDisk: true });
+
+      expect(response.error.data).toContain('Capturing to disk is not configured');
+    });
+  });
+
+  describe('document printing', () => {
+    let printer: net.Server;
+    let printerPort: number;
+    let received: Buffer;
+
+    beforeEach(async () => {
+      received = Buffer.alloc(0);
+      printer = net.createServer((socket) => {
+        socket.on('data', (chunk) => { received = Buffer.concat([received, chunk]); });
+      });
+      await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+      printerPort = (printer.address() as AddressInfo).port;
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      await new Promise(resolve => printer.close(resolve));
+    });
+
+    it('should compile documents to ESC/POS and print them', async () => {
+      const response = await call('printer.printDocument', {
+        deviceId: 'receipt_1',
+        host: '127.0.0.1',
+        port: printerPort,
+        document: { codepage: 'cp858', elements: [{ type: 'text', text: '€5' }, { type: 'drawer' }] },
+      });
+
+      expect(response.result.success).toBe(true);
+      expect(received.subarray(0, 5)).toEqual(Buffer.from([0x1b, 0x40, 0x1b, 0x74, 19]));
+      expect(received.includes(Buffer.from([0xd5, 0x35, 0x0a]))).toBe(true);
+      expect(received.subarray(-5)).toEqual(Buffer.from([0x1b, 0x70, 0, 25, 250]));
+    });
+
+    it('should require a document', async () => {
+      const response = await call('printer.printDocument', { deviceId: 'receipt_1' });
+
+      expect(response.error.data).toContain('Device ID and document are required');
+    });
+
+    it('should send copies to raw printers', async () => {
+      const response = await call('printer.print', {
+        deviceId: 'label_1', host: '127.0.0.1', port: printerPort, data: '^XA^FDA^FS^XZ', format: 'zpl', copies: 3,
+      });
+
+      expect(response.result.bytesPrinted).toBe(39);
+      expect(received.toString()).toBe('^XA^FDA^FS^XZ'.repeat(3));
+    });
+
+    it('should send print.progress to the requesting connection', async () => {
+      const data = ' '.repeat(512 * 1024);
+      const client = new WebSocket(`ws://localhost:${testPort}`);
+      const messages: any[] = [];
+      await new Promise<void>(resolve => client.once('message', () => resolve()));
+      const response = new Promise<any>((resolve) => {
+        client.on('message', (raw) => {
+          const message = JSON.parse(raw.toString());
+          messages.push(message);
+          if (message.id === 1) resolve(message);
+        });
+      });
+
+      client.send(JSON.stringify({
+        jsonrpc: '2.0', method: 'printer.print', id: 1,
+        params: { deviceId: 'laser_1', host: '127.0.0.1', port: printerPort, data },
+      }));
+      const result = (await response).result;
+      client.close();
+
+      const progress = messages.filter(m => m.method === 'print.progress').map(m => m.params);
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress[progress.length - 1]).toEqual({
+        jobId: result.jobId, deviceId: 'laser_1', bytesSent: 512 * 1024, totalBytes: 512 * 1024,
+      });
+    });
+
+    it('should print images as raster graphics', async () => {
+      const image = fs.readFileSync(path.join(__dirname, 'fixtures', 'images', 'logo.png')).toString('base64');
+
+      const response = await call('printer.printImage', { deviceId: 'label_1', host: '127.0.0.1', port: printerPort, image, format: 'zpl' });
+
+      expect(response.result.success).toBe(true);
+      expect(received.toString('ascii')).toMatch(/^\^XA\^FO0,0\^GFA,30,30,3,FFC000.*\^FS\^XZ$/);
+    });
+  });
+
+  describe('PJL printers', () => {
+    let printer: net.Server;
+    let printerSocket: net.Socket;
+    let printerPort: number;
+
+    beforeEach(async () => {
+      printer = net.createServer((socket) => {
+        printerSocket = socket;
+        socket.on('data', (chunk) => {
+          if (chunk.toString('latin1').includes('@PJL INFO STATUS')) {
+            socket.write('@PJL INFO STATUS\r\nCODE=41102\r\nDISPLAY="LOAD TRAY 2"\r\nONLINE=TRUE\r\n\f' +
+              '@PJL INFO PAGECOUNT\r\n1200\r\n\f');
+          }
+        });
+      });
+      await new Promise<void>(resolve => printer.listen(0, '127.0.0.1', resolve));
+      printerPort = (printer.address() as AddressInfo).port;
+      await server.start();
+      await call('network.connect', {
+        deviceId: 'laser',
+        config: { host: '127.0.0.1', port: printerPort, protocol: 'tcp', commandLanguage: 'pjl' },
+      });
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      await new Promise(resolve => printer.close(resolve));
+    });
+
+    it('should query status with INFO STATUS', async () => {
+      const response = await call('printer.getStatus', { deviceId: 'laser' });
+
+      expect(response.result.status).toBe('paper_out');
+      expect(response.result.pageCount).toBe(1200);
+      expect(response.result.flags).toMatchObject({ commandLanguage: 'pjl', statusCode: 41102, displayMessage: 'LOAD TRAY 2' });
+    });
+
+    it('should forward unsolicited status of watched printers', async () => {
+      const events: DeviceEvent[] = [];
+      server.onDeviceEvent(event => events.push(event));
+
+      const response = await call('printer.watchStatus', { deviceId: 'laser' });
+      expect(response.result.success).toBe(true);
+
+      printerSocket.write('@PJL USTATUS DEVICE\r\nCODE=40021\r\nDISPLAY="CLOSE DOOR"\r\nONLINE=FALSE\r\n\f');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const changed = events.filter(event => event.eventType === 'status_changed');
+      expect(changed).toHaveLength(1);
+      expect(changed[0]).toMatchObject({ deviceId: 'laser', deviceType: 'printer', data: { status: 'cover_open' } });
+    });
+  });
 });
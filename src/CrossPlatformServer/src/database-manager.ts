@@ -1,104 +1,218 @@
 import Database from 'better-sqlite3';
-import { QueueJob, QueueStatus } from './types.js';
+import { QueueJob, QueueStatus, FinishedJobStatus, DeviceQueueState, DeviceQueueInfo, LabelTemplate, LabelTemplateDefinition } from './types.js';
+import { runMigrations } from './migrations.js';
+import { TemplateStore } from './label-templates.js';
 
-export class DatabaseManager {
+const JOB_COLUMNS = 'id, device_id, device_type, operation, parameters, status, created_at, started_at, completed_at, error, retry_count, next_attempt_at, priority, not_before, lease_expires_at, idempotency_key';
+
+/** Pending jobs that are neither scheduled for later nor waiting for a retry backoff. Binds `now` twice. */
+const DUE_PENDING_CONDITION = `status = 'pending'
+        AND (not_before IS NULL OR not_before <= ?)
+        AND (next_attempt_at IS NULL OR next_attempt_at <= ?)`;
+
+const PAUSED_DEVICES = `SELECT device_id FROM device_queue_state WHERE state = 'paused'`;
+
+const DISPATCH_ORDER = 'priority DESC, created_at ASC';
+
+const REQUEUE_ASSIGNMENTS = `status = 'pending', retry_count = 0, error = NULL, next_attempt_at = NULL, started_at = NULL, completed_at = NULL, lease_expires_at = NULL`;
+
+const DEFAULT_LEASE_DURATION = 30000;
+
+export const FINISHED_JOB_STATUSES: FinishedJobStatus[] = ['completed', 'failed', 'cancelled', 'dead_letter'];
+
+/** Cancelled jobs have no completed_at, so fall back to when they were queued. */
+const FINISHED_AT = 'COALESCE(completed_at, created_at)';
+
+export interface DatabaseManagerOptions {
+  /** How many times a job interrupted by a crash is requeued before it is failed instead. */
+  maxRecoveryAttempts: number;
+  /** How long (ms) an idempotency key maps to the job it first created. */
+  idempotencyWindow: number;
+}
+
+export interface AddJobOptions {
+  priority?: number;
+  notBefore?: Date;
+  idempotencyKey?: string;
+}
+
+export interface PurgeCriteria {
+  /** Defaults to every finished status; pending and processing jobs are never purged. */
+  statuses?: FinishedJobStatus[];
+  /** Only jobs that finished before this time. */
+  olderThan?: Date;
+  deviceId?: string;
+  /** Spare the most recent matching jobs. */
+  keepLatest?: number;
+}
+
+export interface RecoveryResult {
+  requeued: number;
+  failed: number;
+}
+
+export class DatabaseManager implements TemplateStore {
   private db: Database.Database | null = null;
   private dbPath: string;
+  private options: DatabaseManagerOptions;
 
-  constructor(dbPath: string) {
+  constructor(dbPath: string, options?: Partial<DatabaseManagerOptions>) {
     this.dbPath = dbPath;
+    this.options = {
+      maxRecoveryAttempts: options?.maxRecoveryAttempts ?? 3,
+      idempotencyWindow: options?.idempotencyWindow ?? 24 * 60 * 60 * 1000,
+    };
   }
 
   async initialize(): Promise<void> {
     try {
       this.db = new Database(this.dbPath);
-      this.createTables();
+      runMigrations(this.db);
+      await this.recoverOrphanedJobs();
       console.log('Database initialized successfully');
     } catch (err) {
       throw err;
     }
   }
 
-  private createTables(): void {
+  /**
+   * Insert a pending job and return its id. When `idempotencyKey` was already
+   * used within the idempotency window, nothing is inserted and the id of the
+   * job created by the first submission is returned instead.
+   */
+  async addJob(
+    deviceId: string,
+    deviceType: string,
+    operation: string,
+    parameters: any,
+    options?: AddJobOptions
+  ): Promise<string> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
+    const db = this.db;
+    const paramsJson = JSON.stringify(parameters);
+
     const sql = `
-      CREATE TABLE IF NOT EXISTS queue_jobs (
-        id TEXT PRIMARY KEY,
-        device_id TEXT NOT NULL,
-        device_type TEXT NOT NULL,
-        operation TEXT NOT NULL,
-        parameters TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'pending',
-        created_at DATETIME NOT NULL,
-        started_at DATETIME,
-        completed_at DATETIME,
-        error TEXT,
-        retry_count INTEGER DEFAULT 0
+      INSERT INTO queue_jobs (id, device_id, device_type, operation, parameters, status, created_at, retry_count, priority, not_before, idempotency_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const insert = db.transaction(() => {
+      if (options?.idempotencyKey) {
+        const existing = this.findJobIdByIdempotencyKey(options.idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+
+      const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      db.prepare(sql).run(
+        jobId,
+        deviceId,
+        deviceType,
+        operation,
+        paramsJson,
+        'pending',
+        new Date().toISOString(),
+        0,
+        options?.priority ?? 0,
+        options?.notBefore ? options.notBefore.toISOString() : null,
+        options?.idempotencyKey ?? null
       );
+      return jobId;
+    });
 
-      CREATE INDEX IF NOT EXISTS idx_queue_jobs_device_id ON queue_jobs(device_id);
-      CREATE INDEX IF NOT EXISTS idx_queue_jobs_status ON queue_jobs(status);
-      CREATE INDEX IF NOT EXISTS idx_queue_jobs_created_at ON queue_jobs(created_at);
-    `;
+    return insert();
+  }
 
-    this.db.exec(sql);
+  /**
+   * Look up the job created with `idempotencyKey` within the idempotency window.
+   */
+  async getJobByIdempotencyKey(idempotencyKey: string): Promise<QueueJob | null> {
+    const jobId = this.findJobIdByIdempotencyKey(idempotencyKey);
+    return jobId ? this.getJob(jobId) : null;
   }
 
-  async addJob(deviceId: string, deviceType: string, operation: string, parameters: any): Promise<string> {
+  async getNextPendingJob(): Promise<QueueJob | null> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const paramsJson = JSON.stringify(parameters);
-
     const sql = `
-      INSERT INTO queue_jobs (id, device_id, device_type, operation, parameters, status, created_at, retry_count)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      SELECT ${JOB_COLUMNS}
+      FROM queue_jobs
+      WHERE ${DUE_PENDING_CONDITION}
+        AND device_id NOT IN (${PAUSED_DEVICES})
+      ORDER BY ${DISPATCH_ORDER}
+      LIMIT 1
     `;
 
+    const now = new Date().toISOString();
     const stmt = this.db.prepare(sql);
-    stmt.run(jobId, deviceId, deviceType, operation, paramsJson, 'pending', new Date().toISOString(), 0);
-    
-    return jobId;
+    const row = stmt.get(now, now) as any;
+
+    return row ? this.mapJobRow(row) : null;
   }
 
-  async getNextPendingJob(): Promise<QueueJob | null> {
+  /**
+   * Atomically pick the next due pending job (highest priority first, then
+   * oldest) and move it to `processing`.
+   * Jobs for devices in `excludeDeviceIds` are skipped so that a worker can
+   * keep at most one job in flight per device.
+   *
+   * The claim holds a lease for `leaseDuration` ms; the worker has to keep
+   * renewing it with `renewLeases` or the job is treated as orphaned.
+   */
+  async claimNextPendingJob(
+    excludeDeviceIds: string[] = [],
+    leaseDuration: number = DEFAULT_LEASE_DURATION
+  ): Promise<QueueJob | null> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    const sql = `
-      SELECT id, device_id, device_type, operation, parameters, status, created_at, started_at, completed_at, error, retry_count
+    const db = this.db;
+    let sql = `
+      SELECT ${JOB_COLUMNS}
       FROM queue_jobs
-      WHERE status = 'pending'
-      ORDER BY created_at ASC
-      LIMIT 1
+      WHERE ${DUE_PENDING_CONDITION}
+        AND device_id NOT IN (${PAUSED_DEVICES})
     `;
+    if (excludeDeviceIds.length > 0) {
+      sql += ` AND device_id NOT IN (${excludeDeviceIds.map(() => '?').join(', ')})`;
+    }
+    sql += ` ORDER BY ${DISPATCH_ORDER} LIMIT 1`;
 
-    const stmt = this.db.prepare(sql);
-    const row = stmt.get() as any;
+    const claim = db.transaction(() => {
+      const now = new Date().toISOString();
+      const row = db.prepare(sql).get(now, now, ...excludeDeviceIds) as any;
+      if (!row) {
+        return null;
+      }
 
-    if (row) {
-      return {
-        id: row.id,
-        deviceId: row.device_id,
-        deviceType: row.device_type,
-        operation: row.operation,
-        status: row.status,
-        createdAt: new Date(row.created_at),
-        startedAt: row.started_at ? new Date(row.started_at) : undefined,
-        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-        error: row.error,
-        retryCount: row.retry_count,
-        parameters: JSON.parse(row.parameters)
-      };
-    } else {
-      return null;
+      const startedAt = new Date().toISOString();
+      const leaseExpiresAt = new Date(Date.now() + leaseDuration).toISOString();
+      db.prepare(`UPDATE queue_jobs SET status = 'processing', started_at = ?, lease_expires_at = ? WHERE id = ?`)
+        .run(startedAt, leaseExpiresAt, row.id);
+
+      return { ...row, status: 'processing', started_at: startedAt, lease_expires_at: leaseExpiresAt };
+    });
+
+    const row = claim();
+    return row ? this.mapJobRow(row) : null;
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
     }
+
+    const stmt = this.db.prepare(`SELECT ${JOB_COLUMNS} FROM queue_jobs WHERE id = ?`);
+    const row = stmt.get(jobId) as any;
+
+    return row ? this.mapJobRow(row) : null;
   }
 
   async updateJobStatus(jobId: string, status: string, error?: string): Promise<void> {
@@ -112,9 +226,12 @@ export class DatabaseManager {
     if (status === 'processing') {
       sql += ', started_at = ?';
       params.push(new Date().toISOString());
-    } else if (status === 'completed' || status === 'failed') {
-      sql += ', completed_at = ?';
-      params.push(new Date().toISOString());
+    } else {
+      sql += ', lease_expires_at = NULL';
+      if (status === 'completed' || status === 'failed' || status === 'dead_letter') {
+        sql += ', completed_at = ?';
+        params.push(new Date().toISOString());
+      }
     }
 
     if (error) {
@@ -129,6 +246,328 @@ export class DatabaseManager {
     stmt.run(...params);
   }
 
+  /**
+   * Record the outcome of a job a worker ran. Like `cancelJob`, the status is
+   * checked and changed in one statement: a job that was cancelled or
+   * recovered by another worker meanwhile is left alone, and false returned.
+   */
+  async finishJob(jobId: string, status: 'completed' | 'failed' | 'dead_letter', error?: string): Promise<boolean> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET status = ?, completed_at = ?, lease_expires_at = NULL, error = COALESCE(?, error)
+      WHERE id = ? AND status = 'processing'
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(status, new Date().toISOString(), error ?? null, jobId).changes > 0;
+  }
+
+  /**
+   * Put a failed `processing` job back to `pending` with its retry counter
+   * bumped. The job is not claimed again before `nextAttemptAt`. Returns false
+   * when the job is no longer `processing`, as with `finishJob`.
+   */
+  async scheduleRetry(jobId: string, error: string, nextAttemptAt: Date): Promise<boolean> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET status = 'pending', retry_count = retry_count + 1, error = ?, next_attempt_at = ?, started_at = NULL, lease_expires_at = NULL
+      WHERE id = ? AND status = 'processing'
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(error, nextAttemptAt.toISOString(), jobId).changes > 0;
+  }
+
+  /**
+   * Heartbeat for jobs a worker is still running: push their lease out to
+   * `leaseDuration` ms from now. Jobs that are no longer `processing` (e.g.
+   * cancelled meanwhile) are left alone. Returns the number of leases renewed.
+   */
+  async renewLeases(jobIds: string[], leaseDuration: number = DEFAULT_LEASE_DURATION): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    if (jobIds.length === 0) {
+      return 0;
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET lease_expires_at = ?
+      WHERE status = 'processing' AND id IN (${jobIds.map(() => '?').join(', ')})
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(new Date(Date.now() + leaseDuration).toISOString(), ...jobIds).changes;
+  }
+
+  /**
+   * Find `processing` jobs whose lease has expired, i.e. whose worker died or
+   * stopped sending heartbeats, and put them back to `pending`. Each recovery
+   * counts as an attempt; once `maxRecoveryAttempts` is reached the job is
+   * failed instead, so a job that brings the process down cannot crash-loop it.
+   */
+  async recoverOrphanedJobs(): Promise<RecoveryResult> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const db = this.db;
+    const maxRecoveryAttempts = this.options.maxRecoveryAttempts;
+
+    const recover = db.transaction(() => {
+      const now = new Date().toISOString();
+      const rows = db.prepare(`
+        SELECT id, retry_count, lease_expires_at
+        FROM queue_jobs
+        WHERE status = 'processing' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+      `).all(now) as Array<{ id: string; retry_count: number; lease_expires_at: string | null }>;
+
+      const result: RecoveryResult = { requeued: 0, failed: 0 };
+      for (const row of rows) {
+        const error = row.lease_expires_at
+          ? `Job was interrupted: its lease expired at ${row.lease_expires_at} without a heartbeat from the worker`
+          : 'Job was interrupted: it was left in processing without a lease';
+
+        if (row.retry_count + 1 < maxRecoveryAttempts) {
+          db.prepare(`
+            UPDATE queue_jobs
+            SET status = 'pending', retry_count = retry_count + 1, error = ?, started_at = NULL, lease_expires_at = NULL
+            WHERE id = ?
+          `).run(error, row.id);
+          result.requeued++;
+        } else {
+          db.prepare(`
+            UPDATE queue_jobs
+            SET status = 'failed', error = ?, completed_at = ?, lease_expires_at = NULL
+            WHERE id = ?
+          `).run(`${error} (gave up after ${row.retry_count + 1} attempts)`, now, row.id);
+          result.failed++;
+        }
+      }
+      return result;
+    });
+
+    const result = recover();
+    if (result.requeued > 0 || result.failed > 0) {
+      console.warn(`[DatabaseManager] Recovered orphaned jobs: ${result.requeued} requeued, ${result.failed} failed`);
+    }
+    return result;
+  }
+
+  /**
+   * Cancel a `pending` or `processing` job. The status is checked and changed
+   * in one statement, so a job a worker finished in the meantime keeps its
+   * result. Returns false when the job does not exist or has finished.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET status = 'cancelled', lease_expires_at = NULL
+      WHERE id = ? AND status IN ('pending', 'processing')
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(jobId).changes > 0;
+  }
+
+  /**
+   * Manually requeue a `failed` or `dead_letter` job with a fresh retry budget.
+   * Returns false when the job does not exist or is in any other state.
+   */
+  async retryJob(jobId: string): Promise<boolean> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET ${REQUEUE_ASSIGNMENTS}
+      WHERE id = ? AND status IN ('failed', 'dead_letter')
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(jobId).changes > 0;
+  }
+
+  /**
+   * Requeue every dead-lettered job, optionally only those for one device.
+   * Returns the number of jobs requeued.
+   */
+  async requeueDeadLetters(deviceId?: string): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    let sql = `
+      UPDATE queue_jobs
+      SET ${REQUEUE_ASSIGNMENTS}
+      WHERE status = 'dead_letter'
+    `;
+    const params: any[] = [];
+
+    if (deviceId) {
+      sql += ' AND device_id = ?';
+      params.push(deviceId);
+    }
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(...params).changes;
+  }
+
+  /**
+   * Delete finished jobs matching `criteria`. Returns the number of jobs deleted.
+   */
+  async purgeJobs(criteria: PurgeCriteria = {}): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const statuses = criteria.statuses ?? FINISHED_JOB_STATUSES;
+    const unfinished = statuses.filter(status => !FINISHED_JOB_STATUSES.includes(status));
+    if (statuses.length === 0 || unfinished.length > 0) {
+      throw new Error(`Only finished jobs can be purged, got: ${unfinished.join(', ') || 'no statuses'}`);
+    }
+
+    let where = `status IN (${statuses.map(() => '?').join(', ')})`;
+    const params: any[] = [...statuses];
+
+    if (criteria.olderThan) {
+      where += ` AND ${FINISHED_AT} < ?`;
+      params.push(criteria.olderThan.toISOString());
+    }
+
+    if (criteria.deviceId) {
+      where += ' AND device_id = ?';
+      params.push(criteria.deviceId);
+    }
+
+    let sql: string;
+    if (criteria.keepLatest !== undefined && criteria.keepLatest > 0) {
+      sql = `
+        DELETE FROM queue_jobs
+        WHERE id IN (
+          SELECT id FROM queue_jobs
+          WHERE ${where}
+          ORDER BY ${FINISHED_AT} DESC
+          LIMIT -1 OFFSET ?
+        )
+      `;
+      params.push(criteria.keepLatest);
+    } else {
+      sql = `DELETE FROM queue_jobs WHERE ${where}`;
+    }
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(...params).changes;
+  }
+
+  /**
+   * Remove the `data` payload from the parameters of jobs that completed
+   * before `completedBefore`, keeping the rest for reporting. Failed jobs keep
+   * their payload so they can still be retried. Returns the number of jobs changed.
+   */
+  async stripCompletedPayloads(completedBefore: Date): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const sql = `
+      UPDATE queue_jobs
+      SET parameters = json_remove(parameters, '$.data')
+      WHERE status = 'completed' AND completed_at < ? AND json_type(parameters, '$.data') IS NOT NULL
+    `;
+
+    const stmt = this.db.prepare(sql);
+    return stmt.run(completedBefore.toISOString()).changes;
+  }
+
+  /**
+   * Rebuild the database file so space freed by purges goes back to the disk.
+   */
+  async vacuum(): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.db.exec('VACUUM');
+  }
+
+  /**
+   * Persist the queue state of a device. Returns the state it had before.
+   */
+  async setDeviceQueueState(deviceId: string, state: DeviceQueueState, reason?: string): Promise<DeviceQueueState> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const db = this.db;
+    const update = db.transaction(() => {
+      const previous = db.prepare('SELECT state FROM device_queue_state WHERE device_id = ?').get(deviceId) as { state: DeviceQueueState } | undefined;
+      db.prepare(`
+        INSERT INTO device_queue_state (device_id, state, reason, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(device_id) DO UPDATE SET state = excluded.state, reason = excluded.reason, updated_at = excluded.updated_at
+      `).run(deviceId, state, reason ?? null, new Date().toISOString());
+      return previous?.state ?? 'active';
+    });
+
+    return update();
+  }
+
+  async getDeviceQueueState(deviceId: string): Promise<DeviceQueueState> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const row = this.db.prepare('SELECT state FROM device_queue_state WHERE device_id = ?').get(deviceId) as { state: DeviceQueueState } | undefined;
+    return row?.state ?? 'active';
+  }
+
+  /**
+   * Queue state of a device together with its outstanding jobs. Devices that
+   * were never paused or drained are `active`.
+   */
+  async getDeviceQueue(deviceId: string): Promise<DeviceQueueInfo> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const stateRow = this.db.prepare('SELECT state, reason, updated_at FROM device_queue_state WHERE device_id = ?')
+      .get(deviceId) as { state: DeviceQueueState; reason: string | null; updated_at: string } | undefined;
+
+    const rows = this.db.prepare(`
+      SELECT ${JOB_COLUMNS}
+      FROM queue_jobs
+      WHERE device_id = ? AND status IN ('pending', 'processing')
+      ORDER BY CASE status WHEN 'processing' THEN 0 ELSE 1 END, ${DISPATCH_ORDER}
+    `).all(deviceId) as any[];
+    const jobs = rows.map(row => this.mapJobRow(row));
+
+    return {
+      deviceId,
+      state: stateRow?.state ?? 'active',
+      reason: stateRow?.reason ?? undefined,
+      updatedAt: stateRow ? new Date(stateRow.updated_at) : undefined,
+      pendingJobs: jobs.filter(job => job.status === 'pending').length,
+      processingJobs: jobs.filter(job => job.status === 'processing').length,
+      jobs
+    };
+  }
+
   async getQueueStatus(): Promise<QueueStatus> {
     if (!this.db) {
       throw new Error('Database not initialized');
@@ -141,6 +580,7 @@ export class DatabaseManager {
         SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processingJobs,
         SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completedJobs,
         SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failedJobs,
+        SUM(CASE WHEN status = 'dead_letter' THEN 1 ELSE 0 END) as deadLetterJobs,
         MAX(CASE WHEN status = 'completed' THEN completed_at ELSE NULL END) as lastProcessed
       FROM queue_jobs
     `;
@@ -163,6 +603,7 @@ export class DatabaseManager {
       processingJobs: row.processingJobs,
       completedJobs: row.completedJobs,
       failedJobs: row.failedJobs,
+      deadLetterJobs: row.deadLetterJobs,
       lastProcessed: row.lastProcessed ? new Date(row.lastProcessed) : new Date(0),
       averageProcessingTime: avgRow?.avgTime || 0
     };
@@ -174,7 +615,7 @@ export class DatabaseManager {
     }
 
     let sql = `
-      SELECT id, device_id, device_type, operation, parameters, status, created_at, started_at, completed_at, error, retry_count
+      SELECT ${JOB_COLUMNS}
       FROM queue_jobs
       WHERE 1=1
     `;
@@ -196,7 +637,82 @@ export class DatabaseManager {
     const stmt = this.db.prepare(sql);
     const rows = stmt.all(...params) as any[];
 
-    return rows.map(row => ({
+    return rows.map(row => this.mapJobRow(row));
+  }
+
+  async listTemplates(): Promise<LabelTemplate[]> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const rows = this.db.prepare('SELECT * FROM label_templates ORDER BY name').all() as any[];
+    return rows.map(row => this.mapTemplateRow(row));
+  }
+
+  async getTemplate(name: string): Promise<LabelTemplate | null> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const row = this.db.prepare('SELECT * FROM label_templates WHERE name = ?').get(name);
+    return row ? this.mapTemplateRow(row) : null;
+  }
+
+  /**
+   * Insert the template, or replace the one with the same name while keeping
+   * its creation time.
+   */
+  async saveTemplate(template: LabelTemplateDefinition): Promise<LabelTemplate> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO label_templates (name, language, body, variables, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        language = excluded.language, body = excluded.body, variables = excluded.variables,
+        description = excluded.description, updated_at = excluded.updated_at
+    `).run(
+      template.name,
+      template.language,
+      template.body,
+      JSON.stringify(template.variables),
+      template.description ?? null,
+      now,
+      now
+    );
+
+    return (await this.getTemplate(template.name))!;
+  }
+
+  async deleteTemplate(name: string): Promise<boolean> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return this.db.prepare('DELETE FROM label_templates WHERE name = ?').run(name).changes > 0;
+  }
+
+  private findJobIdByIdempotencyKey(idempotencyKey: string): string | null {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const windowStart = new Date(Date.now() - this.options.idempotencyWindow).toISOString();
+    const row = this.db.prepare(`
+      SELECT id FROM queue_jobs
+      WHERE idempotency_key = ? AND created_at >= ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `).get(idempotencyKey, windowStart) as { id: string } | undefined;
+
+    return row ? row.id : null;
+  }
+
+  private mapJobRow(row: any): QueueJob {
+    return {
       id: row.id,
       deviceId: row.device_id,
       deviceType: row.device_type,
@@ -207,8 +723,25 @@ export class DatabaseManager {
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
       error: row.error,
       retryCount: row.retry_count,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      priority: row.priority,
+      notBefore: row.not_before ? new Date(row.not_before) : undefined,
+      leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : undefined,
+      idempotencyKey: row.idempotency_key ?? undefined,
       parameters: JSON.parse(row.parameters)
-    }));
+    };
+  }
+
+  private mapTemplateRow(row: any): LabelTemplate {
+    return {
+      name: row.name,
+      language: row.language,
+      body: row.body,
+      variables: JSON.parse(row.variables),
+      description: row.description ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
   }
 
   close(): void {
@@ -0,0 +1,312 @@
+import {
+  EscPosDocument,
+  EscPosElement,
+  EscPosCodepage,
+  EscPosAlignment,
+  EscPosBarcodeSymbology,
+  EscPosTextStyle,
+  EscPosColumn,
+} from './types.js';
+import { escPosRaster, rasterizeImage } from './raster-image.js';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const DEFAULT_LINE_WIDTH = 48;
+
+/** `ESC t n` table numbers; the same on Epson and most compatible printers. */
+const CODEPAGE_NUMBERS: Record<EscPosCodepage, number> = {
+  cp437: 0,
+  cp850: 2,
+  cp1252: 16,
+  cp866: 17,
+  cp852: 18,
+  cp858: 19,
+};
+
+/** Characters 0x80-0xFF of each codepage. U+FFFD marks unassigned bytes. */
+const CODEPAGE_HIGH_HALVES: Record<EscPosCodepage, string> = {
+  cp437:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  cp850:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  cp852:
+    'ÇüéâäůćçłëŐőîŹÄĆÉĹĺôöĽľŚśÖÜŤťŁ×čáíóúĄąŽžĘę¬źČş«»░▒▓│┤ÁÂĚŞ╣║╗╝Żż┐' +
+    '└┴┬├─┼Ăă╚╔╩╦╠═╬¤đĐĎËďŇÍÎě┘┌█▄ŢŮ▀ÓßÔŃńňŠšŔÚŕŰýÝţ´\u00AD˝˛ˇ˘§÷¸°¨˙űŘř■\u00A0',
+  cp858:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  cp866:
+    'АБВГДЕЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯабвгдежзийклмноп░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀рстуфхцчшщъыьэюяЁёЄєЇїЎў°∙·√№¤■\u00A0',
+  cp1252:
+    '€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ\u00A0¡¢£¤¥¦§¨©ª«¬\u00AD®¯°±²³´µ¶·¸¹º»¼½¾¿' +
+    'ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞßàáâãäåæçèéêëìíîïðñòóôõö÷øùúûüýþÿ',
+};
+
+/** `GS k m` function B symbology numbers. */
+const BARCODE_SYMBOLOGIES: Record<EscPosBarcodeSymbology, number> = {
+  'UPC-A': 65,
+  'UPC-E': 66,
+  EAN13: 67,
+  EAN8: 68,
+  CODE39: 69,
+  ITF: 70,
+  CODABAR: 71,
+  CODE93: 72,
+  CODE128: 73,
+};
+
+const HRI_POSITIONS = { none: 0, above: 1, below: 2, both: 3 } as const;
+const QR_ERROR_CORRECTION = { L: 48, M: 49, Q: 50, H: 51 } as const;
+const ALIGNMENTS: Record<EscPosAlignment, number> = { left: 0, center: 1, right: 2 };
+
+const encoders = new Map<EscPosCodepage, Map<string, number>>();
+
+/**
+ * Compile a document to ESC/POS. The printer is initialized first, and every
+ * element sets its own alignment and style, so elements never inherit
+ * formatting from the one before.
+ */
+export function compileEscPosDocument(document: EscPosDocument): Buffer {
+  if (!document || !Array.isArray(document.elements)) {
+    throw new Error('Document must have an elements array');
+  }
+
+  const lineWidth = document.lineWidth ?? DEFAULT_LINE_WIDTH;
+  if (!Number.isInteger(lineWidth) || lineWidth < 1) {
+    throw new Error(`Invalid line width ${lineWidth}`);
+  }
+
+  let codepage = document.codepage ?? 'cp437';
+  const parts: Buffer[] = [Buffer.from([ESC, 0x40]), selectCodepage(codepage)];
+
+  document.elements.forEach((element, index) => {
+    try {
+      if (element.type === 'codepage') {
+        codepage = element.codepage;
+        parts.push(selectCodepage(codepage));
+      } else {
+        parts.push(compileElement(element, codepage, lineWidth, document.maxPrintWidth));
+      }
+    } catch (error) {
+      throw new Error(`Element ${index} (${element?.type}): ${(error as Error).message}`);
+    }
+  });
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Encode `text` in an ESC/POS codepage. Characters the codepage lacks are
+ * printed as `?`, and so are control characters other than line feeds, so
+ * text cannot smuggle ESC or GS commands into the document.
+ */
+export function encodeEscPosText(text: string, codepage: EscPosCodepage): Buffer {
+  const encoder = encoderFor(codepage);
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if ((code < 0x20 && code !== LF) || code === 0x7f) {
+      bytes.push(0x3f);
+    } else {
+      bytes.push(code < 0x80 ? code : encoder.get(char) ?? 0x3f);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function compileElement(
+  element: Exclude<EscPosElement, { type: 'codepage' }>,
+  codepage: EscPosCodepage,
+  lineWidth: number,
+  maxPrintWidth?: number
+): Buffer {
+  switch (element.type) {
+    case 'text':
+      return Buffer.concat([
+        align(element.align),
+        textStyle(element.style),
+        encodeEscPosText(element.text ?? '', codepage),
+        Buffer.from([LF]),
+      ]);
+    case 'columns':
+      return Buffer.concat([
+        align('left'),
+        textStyle(element.style),
+        encodeEscPosText(layoutColumns(element.columns, lineWidth), codepage),
+        Buffer.from([LF]),
+      ]);
+    case 'barcode':
+      return barcode(element);
+    case 'qrcode':
+      return qrcode(element);
+    case 'feed':
+      return Buffer.from([ESC, 0x64, inRange(element.lines ?? 1, 0, 255, 'feed lines')]);
+    case 'cut':
+      // GS V 65/66 n feeds n lines first so the cut clears the last printed line
+      return Buffer.from([GS, 0x56, element.partial ? 66 : 65, inRange(element.feedLines ?? 3, 0, 255, 'feed lines')]);
+    case 'drawer':
+      // 50 ms on, 500 ms off
+      return Buffer.from([ESC, 0x70, element.pin === 5 ? 1 : 0, 25, 250]);
+    case 'image':
+      return image(element, maxPrintWidth);
+    default:
+      throw new Error(`Unknown element type "${(element as { type: string }).type}"`);
+  }
+}
+
+function selectCodepage(codepage: EscPosCodepage): Buffer {
+  const number = CODEPAGE_NUMBERS[codepage];
+  if (number === undefined) {
+    throw new Error(`Unsupported codepage "${codepage}"`);
+  }
+  return Buffer.from([ESC, 0x74, number]);
+}
+
+function align(alignment: EscPosAlignment = 'left'): Buffer {
+  const value = ALIGNMENTS[alignment];
+  if (value === undefined) {
+    throw new Error(`Unknown alignment "${alignment}"`);
+  }
+  return Buffer.from([ESC, 0x61, value]);
+}
+
+function textStyle(style: EscPosTextStyle = {}): Buffer {
+  const width = inRange(style.width ?? 1, 1, 8, 'character width');
+  const height = inRange(style.height ?? 1, 1, 8, 'character height');
+  const underline = style.underline === 'double' ? 2 : style.underline ? 1 : 0;
+  return Buffer.from([
+    ESC, 0x45, style.bold ? 1 : 0,
+    ESC, 0x2d, underline,
+    GS, 0x42, style.invert ? 1 : 0,
+    ESC, 0x4d, style.font === 'B' ? 1 : 0,
+    GS, 0x21, ((width - 1) << 4) | (height - 1),
+  ]);
+}
+
+/**
+ * One line of fixed-width columns. Columns without a width split the space
+ * left over; text longer than its column is cut off.
+ */
+function layoutColumns(columns: EscPosColumn[], lineWidth: number): string {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error('columns must be a non-empty array');
+  }
+
+  const fixed = columns.reduce((sum, column) => sum + (column.width ?? 0), 0);
+  const flexible = columns.filter(column => column.width === undefined).length;
+  if (fixed > lineWidth) {
+    throw new Error(`Column widths add up to ${fixed}, more than the line width of ${lineWidth}`);
+  }
+  const share = flexible > 0 ? Math.floor((lineWidth - fixed) / flexible) : 0;
+
+  return columns.map(column => {
+    const width = column.width ?? share;
+    const text = Array.from(column.text ?? '').slice(0, width).join('');
+    const padding = width - Array.from(text).length;
+    switch (column.align ?? 'left') {
+      case 'right':
+        return ' '.repeat(padding) + text;
+      case 'center':
+        return ' '.repeat(Math.floor(padding / 2)) + text + ' '.repeat(Math.ceil(padding / 2));
+      default:
+        return text + ' '.repeat(padding);
+    }
+  }).join('').replace(/ +$/, '');
+}
+
+function barcode(element: Extract<EscPosElement, { type: 'barcode' }>): Buffer {
+  const symbology = BARCODE_SYMBOLOGIES[element.symbology];
+  if (symbology === undefined) {
+    throw new Error(`Unknown barcode symbology "${element.symbology}"`);
+  }
+  const hri = HRI_POSITIONS[element.hri ?? 'below'];
+  if (hri === undefined) {
+    throw new Error(`Unknown HRI position "${element.hri}"`);
+  }
+
+  // CODE128 data starts with a code set; default to B, which covers printable ASCII
+  const content = element.symbology === 'CODE128' && !element.data.startsWith('{')
+    ? `{B${element.data}`
+    : element.data;
+  const data = Buffer.from(content, 'ascii');
+  if (data.length === 0 || data.length > 255) {
+    throw new Error('Barcode data must be 1-255 characters');
+  }
+
+  return Buffer.concat([
+    align(element.align),
+    Buffer.from([
+      GS, 0x68, inRange(element.height ?? 162, 1, 255, 'barcode height'),
+      GS, 0x77, inRange(element.moduleWidth ?? 3, 2, 6, 'module width'),
+      GS, 0x48, hri,
+      GS, 0x6b, symbology, data.length,
+    ]),
+    data,
+    Buffer.from([LF]),
+  ]);
+}
+
+function qrcode(element: Extract<EscPosElement, { type: 'qrcode' }>): Buffer {
+  const errorCorrection = QR_ERROR_CORRECTION[element.errorCorrection ?? 'M'];
+  if (errorCorrection === undefined) {
+    throw new Error(`Unknown error correction level "${element.errorCorrection}"`);
+  }
+  const data = Buffer.from(element.data ?? '', 'utf8');
+  if (data.length === 0 || data.length > 7089) {
+    throw new Error('QR code data must be 1-7089 bytes');
+  }
+  const storeLength = data.length + 3;
+
+  return Buffer.concat([
+    align(element.align),
+    // GS ( k: select model 2, module size, error correction, store, print
+    Buffer.from([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0]),
+    Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, inRange(element.size ?? 6, 1, 16, 'QR code size')]),
+    Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, errorCorrection]),
+    Buffer.from([GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30]),
+    data,
+    Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]),
+    Buffer.from([LF]),
+  ]);
+}
+
+function image(element: Extract<EscPosElement, { type: 'image' }>, maxPrintWidth?: number): Buffer {
+  if (typeof element.image !== 'string' || element.image.length === 0) {
+    throw new Error('image must be a base64 PNG or JPEG');
+  }
+  const bitmap = rasterizeImage(Buffer.from(element.image, 'base64'), {
+    maxPrintWidth,
+    width: element.width,
+    dither: element.dither,
+    threshold: element.threshold,
+  });
+  return Buffer.concat([align(element.align), escPosRaster(bitmap)]);
+}
+
+function inRange(value: number, min: number, max: number, name: string): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer from ${min} to ${max}, got ${value}`);
+  }
+  return value;
+}
+
+function encoderFor(codepage: EscPosCodepage): Map<string, number> {
+  let encoder = encoders.get(codepage);
+  if (!encoder) {
+    const highHalf = CODEPAGE_HIGH_HALVES[codepage];
+    if (highHalf === undefined) {
+      throw new Error(`Unsupported codepage "${codepage}"`);
+    }
+    encoder = new Map();
+    Array.from(highHalf).forEach((char, i) => {
+      if (char !== '\uFFFD') encoder!.set(char, 0x80 + i);
+    });
+    encoders.set(codepage, encoder);
+  }
+  return encoder;
+}
@@ -0,0 +1,226 @@
+import { FramingOptions } from './types.js';
+
+/** Longest message a framer holds before giving up on finding its end. */
+export const DEFAULT_MAX_FRAME_LENGTH = 4096;
+
+const STX = 0x02;
+const ETX = 0x03;
+const FRAMING_MODES: FramingOptions['mode'][] = ['raw', 'line', 'stx-etx', 'fixed', 'length-prefixed'];
+
+/** Cuts a device's byte stream into messages; one instance per stream. */
+export interface Framer {
+  /** Add received bytes and return the messages they complete. */
+  push(chunk: Buffer): Buffer[];
+  /** Drop a partly received message, e.g. after the device was reset. */
+  reset(): void;
+}
+
+/** Read and check `framing` from request params; raw when absent. */
+export function readFramingOptions(value: any): FramingOptions {
+  if (value === undefined || value === null) {
+    return { mode: 'raw' };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('framing must be an object');
+  }
+
+  switch (value.mode) {
+    case 'raw':
+      return { mode: 'raw' };
+    case 'line': {
+      const { delimiter = '\r\n' } = value;
+      if (typeof delimiter !== 'string' || delimiter.length === 0) {
+        throw new Error('framing.delimiter must be a non-empty string');
+      }
+      return { mode: 'line', delimiter, maxLength: readMaxLength(value) };
+    }
+    case 'stx-etx': {
+      const { start = STX, end = ETX } = value;
+      for (const [name, byte] of [['start', start], ['end', end]]) {
+        if (!Number.isInteger(byte) || byte < 0 || byte > 0xff) {
+          throw new Error(`framing.${name} must be a byte value`);
+        }
+      }
+      if (start === end) {
+        throw new Error('framing.start and framing.end must differ');
+      }
+      return { mode: 'stx-etx', start, end, maxLength: readMaxLength(value) };
+    }
+    case 'fixed': {
+      if (!Number.isInteger(value.length) || value.length < 1) {
+        throw new Error('framing.length must be a positive integer');
+      }
+      return { mode: 'fixed', length: value.length };
+    }
+    case 'length-prefixed': {
+      const { prefixBytes = 2, byteOrder = 'big' } = value;
+      if (![1, 2, 4].includes(prefixBytes)) {
+        throw new Error('framing.prefixBytes must be 1, 2 or 4');
+      }
+      if (byteOrder !== 'big' && byteOrder !== 'little') {
+        throw new Error('framing.byteOrder must be big or little');
+      }
+      return { mode: 'length-prefixed', prefixBytes, byteOrder, maxLength: readMaxLength(value) };
+    }
+    default:
+      throw new Error(`Unknown framing mode ${value.mode}; expected one of ${FRAMING_MODES.join(', ')}`);
+  }
+}
+
+export function createFramer(options: FramingOptions = { mode: 'raw' }): Framer {
+  switch (options.mode) {
+    case 'line':
+      return new LineFramer(
+        Buffer.from(options.delimiter ?? '\r\n', 'latin1'),
+        options.maxLength ?? DEFAULT_MAX_FRAME_LENGTH
+      );
+    case 'stx-etx':
+      return new StxEtxFramer(options.start ?? STX, options.end ?? ETX, options.maxLength ?? DEFAULT_MAX_FRAME_LENGTH);
+    case 'fixed':
+      return new FixedLengthFramer(options.length);
+    case 'length-prefixed':
+      return new LengthPrefixedFramer(
+        options.prefixBytes ?? 2,
+        options.byteOrder ?? 'big',
+        options.maxLength ?? DEFAULT_MAX_FRAME_LENGTH
+      );
+    default:
+      return new RawFramer();
+  }
+}
+
+function readMaxLength(value: any): number {
+  const { maxLength = DEFAULT_MAX_FRAME_LENGTH } = value;
+  if (!Number.isInteger(maxLength) || maxLength < 1) {
+    throw new Error('framing.maxLength must be a positive integer');
+  }
+  return maxLength;
+}
+
+class RawFramer implements Framer {
+  push(chunk: Buffer): Buffer[] {
+    return chunk.length > 0 ? [chunk] : [];
+  }
+
+  reset(): void {
+    // Nothing is held back
+  }
+}
+
+/** Holds the bytes of a message that has not been completed yet. */
+abstract class BufferingFramer implements Framer {
+  protected pending = Buffer.alloc(0);
+
+  push(chunk: Buffer): Buffer[] {
+    this.pending = Buffer.concat([this.pending, chunk]);
+    const frames: Buffer[] = [];
+    let frame: Buffer | undefined;
+    while ((frame = this.next()) !== undefined) {
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.pending = Buffer.alloc(0);
+  }
+
+  /** Take the next complete message off `pending`, if there is one. */
+  protected abstract next(): Buffer | undefined;
+
+  protected take(length: number, skip = 0): Buffer {
+    const frame = this.pending.subarray(0, length);
+    this.pending = this.pending.subarray(length + skip);
+    return frame;
+  }
+}
+
+class LineFramer extends BufferingFramer {
+  constructor(private delimiter: Buffer, private maxLength: number) {
+    super();
+  }
+
+  protected next(): Buffer | undefined {
+    const end = this.pending.indexOf(this.delimiter);
+    if (end !== -1) {
+      return this.take(end, this.delimiter.length);
+    }
+    // A device that never sends the delimiter must not grow the buffer forever
+    if (this.pending.length > this.maxLength) {
+      return this.take(this.maxLength);
+    }
+    return undefined;
+  }
+}
+
+class StxEtxFramer extends BufferingFramer {
+  constructor(private start: number, private end: number, private maxLength: number) {
+    super();
+  }
+
+  protected next(): Buffer | undefined {
+    for (;;) {
+      // Anything before the start byte is line noise or the tail of a lost frame
+      const start = this.pending.indexOf(this.start);
+      if (start === -1) {
+        this.reset();
+        return undefined;
+      }
+      this.pending = this.pending.subarray(start);
+
+      const end = this.pending.indexOf(this.end, 1);
+      const restart = this.pending.indexOf(this.start, 1);
+      if (restart !== -1 && (end === -1 || restart < end)) {
+        // This frame lost its end byte; start over at the next one
+        this.pending = this.pending.subarray(restart);
+        continue;
+      }
+      if (end === -1) {
+        if (this.pending.length > this.maxLength + 1) {
+          this.reset();
+        }
+        return undefined;
+      }
+      if (end - 1 > this.maxLength) {
+        this.pending = this.pending.subarray(end + 1);
+        continue;
+      }
+      return this.take(end, 1).subarray(1);
+    }
+  }
+}
+
+class FixedLengthFramer extends BufferingFramer {
+  constructor(private length: number) {
+    super();
+  }
+
+  protected next(): Buffer | undefined {
+    return this.pending.length >= this.length ? this.take(this.length) : undefined;
+  }
+}
+
+class LengthPrefixedFramer extends BufferingFramer {
+  constructor(private prefixBytes: number, private byteOrder: 'big' | 'little', private maxLength: number) {
+    super();
+  }
+
+  protected next(): Buffer | undefined {
+    if (this.pending.length < this.prefixBytes) {
+      return undefined;
+    }
+    const length = this.byteOrder === 'big'
+      ? this.pending.readUIntBE(0, this.prefixBytes)
+      : this.pending.readUIntLE(0, this.prefixBytes);
+    if (length > this.maxLength) {
+      // There is no telling where the next message starts, so drop what we have
+      this.reset();
+      return undefined;
+    }
+    if (this.pending.length < this.prefixBytes + length) {
+      return undefined;
+    }
+    this.pending = this.pending.subarray(this.prefixBytes);
+    return this.take(length);
+  }
+}
@@ -0,0 +1,534 @@
+import { inflateSync } from 'zlib';
+
+/** An 8-bit grayscale image, row-major, 0 = black, 255 = white. */
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Largest image accepted, in pixels, so a crafted header can't exhaust memory. */
+const MAX_PIXELS = 40_000_000;
+
+/**
+ * Decode a PNG or baseline JPEG to grayscale. Transparent pixels are blended
+ * onto white, which is what the paper is.
+ */
+export function decodeImage(data: Buffer): GrayImage {
+  if (data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return decodePng(data);
+  }
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0xd8) {
+    return decodeJpeg(data);
+  }
+  throw new Error('Unsupported image format; expected PNG or JPEG');
+}
+
+function checkDimensions(width: number, height: number): void {
+  if (width === 0 || height === 0 || width * height > MAX_PIXELS) {
+    throw new Error(`Unsupported image size ${width}x${height}`);
+  }
+}
+
+function luminance(r: number, g: number, b: number): number {
+  return (r * 299 + g * 587 + b * 114) / 1000;
+}
+
+// --- PNG ---
+
+/** Adam7 passes: x and y offset, x and y step. */
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function decodePng(data: Buffer): GrayImage {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length < length) {
+      throw new Error(`Truncated PNG ${type} chunk`);
+    }
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG color type ${colorType} with bit depth ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('PNG palette image without a PLTE chunk');
+  }
+  checkDimensions(width, height);
+
+  const colors = palette ?? Buffer.alloc(0);
+  const bitsPerPixel = channels * bitDepth;
+  const passes = (interlaced ? ADAM7 : [[0, 0, 1, 1]])
+    .map(([x0, y0, dx, dy]) => ({
+      x0, y0, dx, dy,
+      width: Math.ceil((width - x0) / dx),
+      height: Math.ceil((height - y0) / dy),
+    }))
+    .filter(pass => pass.width > 0 && pass.height > 0);
+  // Each row is a filter byte and its pixels; inflating no further keeps a zlib bomb from filling memory
+  const rawLength = passes.reduce((total, pass) => total + pass.height * (1 + Math.ceil((pass.width * bitsPerPixel) / 8)), 0);
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat), { maxOutputLength: rawLength });
+  } catch (error) {
+    throw new Error(`Invalid PNG image data: ${(error as Error).message}`);
+  }
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const pixels = new Uint8Array(width * height);
+
+  // Raw sample c of pixel x in an unfiltered row; 16-bit samples keep their high byte
+  const sample = (row: Buffer, x: number, c: number): number => {
+    if (bitDepth === 8) return row[x * channels + c];
+    if (bitDepth === 16) return row[(x * channels + c) * 2];
+    const bit = (x * channels + c) * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Full 16-bit value, for comparing against tRNS
+  const fullSample = (row: Buffer, x: number, c: number): number =>
+    bitDepth === 16 ? row.readUInt16BE((x * channels + c) * 2) : sample(row, x, c);
+  const scale = (value: number) => (bitDepth < 8 ? (value * 255) / maxSample : value);
+
+  const gray = (row: Buffer, x: number): number => {
+    let value: number;
+    let alpha = 255;
+    switch (colorType) {
+      case 0:
+        value = scale(sample(row, x, 0));
+        if (transparency && transparency.length >= 2 && fullSample(row, x, 0) === transparency.readUInt16BE(0)) alpha = 0;
+        break;
+      case 2:
+        value = luminance(sample(row, x, 0), sample(row, x, 1), sample(row, x, 2));
+        if (transparency && transparency.length >= 6
+          && fullSample(row, x, 0) === transparency.readUInt16BE(0)
+          && fullSample(row, x, 1) === transparency.readUInt16BE(2)
+          && fullSample(row, x, 2) === transparency.readUInt16BE(4)) alpha = 0;
+        break;
+      case 3: {
+        const index = sample(row, x, 0);
+        value = luminance(colors[index * 3] ?? 0, colors[index * 3 + 1] ?? 0, colors[index * 3 + 2] ?? 0);
+        alpha = transparency?.[index] ?? 255;
+        break;
+      }
+      case 4:
+        value = sample(row, x, 0);
+        alpha = sample(row, x, 1);
+        break;
+      default:
+        value = luminance(sample(row, x, 0), sample(row, x, 1), sample(row, x, 2));
+        alpha = sample(row, x, 3);
+    }
+    return Math.round((value * alpha + 255 * (255 - alpha)) / 255);
+  };
+
+  let position = 0;
+  for (const { x0, y0, dx, dy, width: passWidth, height: passHeight } of passes) {
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let previous = Buffer.alloc(rowBytes);
+    for (let y = 0; y < passHeight; y++) {
+      if (position + 1 + rowBytes > raw.length) {
+        throw new Error('Truncated PNG image data');
+      }
+      const filter = raw[position];
+      const row = Buffer.from(raw.subarray(position + 1, position + 1 + rowBytes));
+      position += 1 + rowBytes;
+      unfilterPngRow(row, previous, filter, bytesPerPixel);
+
+      const outputRow = (y0 + y * dy) * width;
+      for (let x = 0; x < passWidth; x++) {
+        pixels[outputRow + x0 + x * dx] = gray(row, x);
+      }
+      previous = row;
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+function unfilterPngRow(row: Buffer, previous: Buffer, filter: number, bytesPerPixel: number): void {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        row[i] = (row[i] + left) & 0xff;
+        break;
+      case 2:
+        row[i] = (row[i] + up) & 0xff;
+        break;
+      case 3:
+        row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+        break;
+      case 4: {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        row[i] = (row[i] + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft)) & 0xff;
+        break;
+      }
+      default:
+        throw new Error(`Invalid PNG filter type ${filter}`);
+    }
+  }
+}
+
+// --- JPEG ---
+
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** cos((2x + 1) u pi / 16) scaled by C(u), indexed [x * 8 + u]. */
+const IDCT_TABLE = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      table[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  minCode: Int32Array;
+  valuePointer: Int32Array;
+  symbols: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Decoded samples, only kept for the luminance component. */
+  plane: Uint8Array | null;
+  planeWidth: number;
+  prediction: number;
+}
+
+/**
+ * Baseline (sequential Huffman) JPEG. Only the luminance plane is
+ * reconstructed; chroma is entropy-decoded to stay in step and then dropped.
+ */
+function decodeJpeg(data: Buffer): GrayImage {
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+
+  let offset = 2;
+  for (;;) {
+    while (offset < data.length && data[offset] !== 0xff) offset++;
+    while (offset < data.length && data[offset] === 0xff) offset++;
+    if (offset >= data.length) {
+      throw new Error('JPEG ended before the end of image marker');
+    }
+    const marker = data[offset++];
+    if (marker === 0xd9) break;
+    if (marker >= 0xd0 && marker <= 0xd7) continue;
+
+    const length = data.readUInt16BE(offset);
+    const segment = data.subarray(offset + 2, offset + length);
+    offset += length;
+
+    if (marker === 0xdb) {
+      for (let i = 0; i < segment.length;) {
+        const precision = segment[i] >> 4;
+        const table = new Int32Array(64);
+        for (let k = 0; k < 64; k++) {
+          table[k] = precision ? segment.readUInt16BE(i + 1 + k * 2) : segment[i + 1 + k];
+        }
+        quantTables[segment[i] & 15] = table;
+        i += 1 + 64 * (precision ? 2 : 1);
+      }
+    } else if (marker === 0xc4) {
+      for (let i = 0; i < segment.length;) {
+        const counts = segment.subarray(i + 1, i + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+        (segment[i] >> 4 ? acTables : dcTables)[segment[i] & 15] = table;
+        i += 17 + total;
+      }
+    } else if (marker === 0xc0 || marker === 0xc1) {
+      height = segment.readUInt16BE(1);
+      width = segment.readUInt16BE(3);
+      checkDimensions(width, height);
+      components = [];
+      for (let i = 0; i < segment[5]; i++) {
+        const base = 6 + i * 3;
+        components.push({
+          id: segment[base],
+          h: segment[base + 1] >> 4,
+          v: segment[base + 1] & 15,
+          quantTable: segment[base + 2],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          plane: null,
+          planeWidth: 0,
+          prediction: 0,
+        });
+      }
+      if (components.length === 4 || (components.length === 3 && adobeTransform === 0)) {
+        throw new Error('CMYK and RGB JPEGs are not supported');
+      }
+      maxH = Math.max(...components.map(c => c.h));
+      maxV = Math.max(...components.map(c => c.v));
+      const mcusPerLine = Math.ceil(width / (8 * maxH));
+      const mcusPerColumn = Math.ceil(height / (8 * maxV));
+      for (const component of components) {
+        component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+        component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+        component.planeWidth = mcusPerLine * component.h * 8;
+      }
+      // The first component is Y in YCbCr and the only one in grayscale files
+      components[0].plane = new Uint8Array(components[0].planeWidth * mcusPerColumn * components[0].v * 8);
+    } else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      throw new Error(marker === 0xc2 ? 'Progressive JPEGs are not supported' : 'Only baseline JPEGs are supported');
+    } else if (marker === 0xdd) {
+      restartInterval = segment.readUInt16BE(0);
+    } else if (marker === 0xee && segment.toString('ascii', 0, 5) === 'Adobe') {
+      adobeTransform = segment[11];
+    } else if (marker === 0xda) {
+      if (components.length === 0) {
+        throw new Error('JPEG scan before frame header');
+      }
+      const scanComponents = [];
+      for (let i = 0; i < segment[0]; i++) {
+        const component = components.find(c => c.id === segment[1 + i * 2]);
+        if (!component) {
+          throw new Error('JPEG scan references an unknown component');
+        }
+        const tables = segment[2 + i * 2];
+        scanComponents.push({ component, dc: dcTables[tables >> 4], ac: acTables[tables & 15] });
+      }
+      offset = decodeJpegScan(data, offset, scanComponents, quantTables, width, height, maxH, maxV, restartInterval);
+    }
+  }
+
+  const luma = components[0];
+  if (!luma?.plane) {
+    throw new Error('JPEG has no image data');
+  }
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.floor((y * luma.v) / maxV) * luma.planeWidth;
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = luma.plane[sourceRow + Math.floor((x * luma.h) / maxH)];
+    }
+  }
+  return { width, height, pixels };
+}
+
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const minCode = new Int32Array(17);
+  const valuePointer = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valuePointer[length] = k;
+    minCode[length] = code;
+    code += counts[length - 1];
+    k += counts[length - 1];
+    if (counts[length - 1] > 0) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  return { maxCode, minCode, valuePointer, symbols };
+}
+
+/** Decode one scan starting at `start`; returns the offset just past its entropy-coded data. */
+function decodeJpegScan(
+  data: Buffer,
+  start: number,
+  scanComponents: Array<{ component: JpegComponent; dc?: HuffmanTable; ac?: HuffmanTable }>,
+  quantTables: Int32Array[],
+  width: number,
+  height: number,
+  maxH: number,
+  maxV: number,
+  restartInterval: number
+): number {
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const readBit = (): number => {
+    if (bitCount === 0) {
+      let byte = 0;
+      if (position < data.length) {
+        byte = data[position];
+        if (byte === 0xff) {
+          const next = data[position + 1];
+          if (next === 0x00) {
+            position += 2;
+          } else {
+            // A marker: feed zeros rather than consuming it
+            byte = 0;
+          }
+        } else {
+          position++;
+        }
+      }
+      bitBuffer = byte;
+      bitCount = 8;
+    }
+    bitCount--;
+    return (bitBuffer >> bitCount) & 1;
+  };
+  const receive = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+    return value;
+  };
+  const extend = (value: number, length: number): number =>
+    length === 0 ? 0 : value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  const decodeHuffman = (table: HuffmanTable): number => {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | readBit();
+      if (code <= table.maxCode[length]) {
+        return table.symbols[table.valuePointer[length] + code - table.minCode[length]];
+      }
+    }
+    throw new Error('Invalid JPEG Huffman code');
+  };
+
+  const coefficients = new Float64Array(64);
+  const rowPass = new Float64Array(64);
+
+  const decodeBlock = (entry: typeof scanComponents[number], blockRow: number, blockColumn: number): void => {
+    const { component, dc, ac } = entry;
+    const quant = quantTables[component.quantTable];
+    if (!dc || !ac || !quant) {
+      throw new Error('JPEG scan uses a missing Huffman or quantization table');
+    }
+
+    coefficients.fill(0);
+    const size = decodeHuffman(dc);
+    component.prediction += extend(receive(size), size);
+    coefficients[0] = component.prediction * quant[0];
+    for (let k = 1; k < 64;) {
+      const rs = decodeHuffman(ac);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r !== 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefficients[ZIGZAG[k]] = extend(receive(s), s) * quant[k];
+      k++;
+    }
+
+    const plane = component.plane;
+    if (!plane) return;
+
+    // Separable inverse DCT: rows, then columns
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) sum += IDCT_TABLE[x * 8 + u] * coefficients[y * 8 + u];
+        rowPass[y * 8 + x] = sum / 2;
+      }
+    }
+    const originY = blockRow * 8;
+    const originX = blockColumn * 8;
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) sum += IDCT_TABLE[y * 8 + v] * rowPass[v * 8 + x];
+        const value = Math.round(sum / 2 + 128);
+        plane[(originY + y) * component.planeWidth + originX + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+      }
+    }
+  };
+
+  const single = scanComponents.length === 1;
+  const first = scanComponents[0].component;
+  const mcusPerLine = single ? first.blocksPerLine : Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = single ? first.blocksPerColumn : Math.ceil(height / (8 * maxV));
+  const totalMcus = mcusPerLine * mcusPerColumn;
+
+  for (const { component } of scanComponents) component.prediction = 0;
+
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      // Skip to the RSTn marker and start over from byte alignment
+      bitCount = 0;
+      while (position < data.length && !(data[position] === 0xff && data[position + 1] >= 0xd0 && data[position + 1] <= 0xd7)) {
+        position++;
+      }
+      position += 2;
+      for (const { component } of scanComponents) component.prediction = 0;
+    }
+
+    const mcuRow = Math.floor(mcu / mcusPerLine);
+    const mcuColumn = mcu % mcusPerLine;
+    if (single) {
+      decodeBlock(scanComponents[0], mcuRow, mcuColumn);
+      continue;
+    }
+    for (const entry of scanComponents) {
+      for (let v = 0; v < entry.component.v; v++) {
+        for (let h = 0; h < entry.component.h; h++) {
+          decodeBlock(entry, mcuRow * entry.component.v + v, mcuColumn * entry.component.h + h);
+        }
+      }
+    }
+  }
+
+  return position;
+}
@@ -6,6 +6,7 @@ export { DatabaseManager } from './database-manager.js';
 export { NetworkDeviceManager } from './network-device-manager.js';
 export { DeviceEnumerator } from './device-enumerator.js';
 export { TcpPrinterService } from './tcp-printer-service.js';
+export { IppClient } from './ipp-client.js';
 export * from './types.js';
 export * from './network-types.js';
 
@@ -0,0 +1,303 @@
+import * as http from 'http';
+import * as https from 'https';
+import {
+  IPP_OPERATIONS,
+  IPP_GROUP_TAGS,
+  IPP_VALUE_TAGS,
+  IPP_JOB_STATES,
+  IPP_PRINTER_STATES,
+  IppAttribute,
+  IppAttributeGroup,
+  IppJobState,
+  IppMessage,
+  IppPrinterState,
+  encodeIppMessage,
+  decodeIppMessage,
+  findAttribute,
+  findAttributeValue,
+  ippAttribute,
+  ippStatusName,
+  isSuccessStatus,
+} from './ipp-protocol.js';
+
+export interface IppClientOptions {
+  /** Per-request timeout in ms. */
+  timeout?: number;
+  requestingUserName?: string;
+  /**
+   * Verify the printer's certificate for `ipps://` URIs. Off by default as
+   * printers usually present self-signed certificates.
+   */
+  rejectUnauthorized?: boolean;
+}
+
+export interface IppPrintJobOptions {
+  jobName?: string;
+  /** MIME type of the document; defaults to `application/octet-stream` (printer-native data). */
+  documentFormat?: string;
+  copies?: number;
+  /** Print copies as whole sets; defaults to the printer's own setting. */
+  collate?: boolean;
+}
+
+export interface IppJobStatus {
+  jobId: number;
+  jobUri?: string;
+  state: IppJobState;
+  stateReasons: string[];
+  stateMessage?: string;
+  impressionsCompleted?: number;
+}
+
+export interface IppPrinterStatus {
+  state: IppPrinterState;
+  stateReasons: string[];
+  stateMessage?: string;
+  isAcceptingJobs: boolean;
+  makeAndModel?: string;
+  documentFormats: string[];
+  queuedJobCount?: number;
+  /** Every printer attribute the printer returned, undecoded. */
+  attributes: Record<string, IppAttribute>;
+}
+
+const DEFAULT_PRINTER_ATTRIBUTES = [
+  'printer-state',
+  'printer-state-reasons',
+  'printer-state-message',
+  'printer-is-accepting-jobs',
+  'printer-make-and-model',
+  'document-format-supported',
+  'queued-job-count',
+];
+
+const JOB_STATUS_ATTRIBUTES = [
+  'job-id',
+  'job-uri',
+  'job-state',
+  'job-state-reasons',
+  'job-state-message',
+  'job-impressions-completed',
+];
+
+/** Job states after which the printer will not touch the job again. */
+export const IPP_FINAL_JOB_STATES: IppJobState[] = ['canceled', 'aborted', 'completed'];
+
+/**
+ * IPP/1.1 client for a single printer, over HTTP (`ipp://`) or HTTPS
+ * (`ipps://`). Operations throw when the printer cannot be reached or
+ * answers with an error status.
+ */
+export class IppClient {
+  private printerUri: string;
+  private endpoint: URL;
+  private options: Required<IppClientOptions>;
+  private nextRequestId = 1;
+
+  constructor(printerUri: string, options?: IppClientOptions) {
+    this.printerUri = printerUri;
+    this.endpoint = IppClient.toHttpUrl(printerUri);
+    this.options = {
+      timeout: options?.timeout ?? 10000,
+      requestingUserName: options?.requestingUserName ?? 'hardware-bridge',
+      rejectUnauthorized: options?.rejectUnauthorized ?? false,
+    };
+  }
+
+  /** `ipp://host:631/ipp/print` style URI for a printer known by host and port. */
+  static printerUriFor(host: string, port: number = 631, path: string = '/ipp/print'): string {
+    return `ipp://${host}:${port}${path}`;
+  }
+
+  getPrinterUri(): string {
+    return this.printerUri;
+  }
+
+  async printJob(data: string | Buffer, options?: IppPrintJobOptions): Promise<IppJobStatus> {
+    const operation = this.operationAttributes();
+    operation['job-name'] = ippAttribute(IPP_VALUE_TAGS.NAME, options?.jobName ?? 'Hardware Bridge job');
+    operation['document-format'] = ippAttribute(
+      IPP_VALUE_TAGS.MIME_MEDIA_TYPE,
+      options?.documentFormat ?? 'application/octet-stream'
+    );
+
+    const groups: IppAttributeGroup[] = [{ tag: IPP_GROUP_TAGS.OPERATION, attributes: operation }];
+    const job: IppAttributeGroup['attributes'] = {};
+    if (options?.copies !== undefined && options.copies !== 1) {
+      job.copies = ippAttribute(IPP_VALUE_TAGS.INTEGER, options.copies);
+    }
+    if (options?.collate !== undefined) {
+      job['multiple-document-handling'] = ippAttribute(
+        IPP_VALUE_TAGS.KEYWORD,
+        options.collate ? 'separate-documents-collated-copies' : 'separate-documents-uncollated-copies'
+      );
+    }
+    if (Object.keys(job).length > 0) {
+      groups.push({ tag: IPP_GROUP_TAGS.JOB, attributes: job });
+    }
+
+    const response = await this.send(
+      'Print-Job',
+      IPP_OPERATIONS.PRINT_JOB,
+      groups,
+      Buffer.isBuffer(data) ? data : Buffer.from(data)
+    );
+    return this.parseJobStatus(response);
+  }
+
+  async getJobAttributes(jobId: number): Promise<IppJobStatus> {
+    const operation = this.operationAttributes();
+    operation['job-id'] = ippAttribute(IPP_VALUE_TAGS.INTEGER, jobId);
+    operation['requested-attributes'] = ippAttribute(IPP_VALUE_TAGS.KEYWORD, ...JOB_STATUS_ATTRIBUTES);
+
+    const response = await this.send('Get-Job-Attributes', IPP_OPERATIONS.GET_JOB_ATTRIBUTES, [
+      { tag: IPP_GROUP_TAGS.OPERATION, attributes: operation },
+    ]);
+    return this.parseJobStatus(response, jobId);
+  }
+
+  async getPrinterAttributes(requestedAttributes: string[] = DEFAULT_PRINTER_ATTRIBUTES): Promise<IppPrinterStatus> {
+    const operation = this.operationAttributes();
+    operation['requested-attributes'] = ippAttribute(IPP_VALUE_TAGS.KEYWORD, ...requestedAttributes);
+
+    const response = await this.send('Get-Printer-Attributes', IPP_OPERATIONS.GET_PRINTER_ATTRIBUTES, [
+      { tag: IPP_GROUP_TAGS.OPERATION, attributes: operation },
+    ]);
+
+    const attributes: Record<string, IppAttribute> = {};
+    for (const group of response.groups) {
+      if (group.tag === IPP_GROUP_TAGS.PRINTER) {
+        Object.assign(attributes, group.attributes);
+      }
+    }
+
+    const stateValue = attributes['printer-state']?.values[0];
+    return {
+      state: IPP_PRINTER_STATES[stateValue as number] ?? 'stopped',
+      stateReasons: (attributes['printer-state-reasons']?.values ?? []).map(String),
+      stateMessage: attributes['printer-state-message']?.values[0] as string | undefined,
+      isAcceptingJobs: attributes['printer-is-accepting-jobs']?.values[0] !== false,
+      makeAndModel: attributes['printer-make-and-model']?.values[0] as string | undefined,
+      documentFormats: (attributes['document-format-supported']?.values ?? []).map(String),
+      queuedJobCount: attributes['queued-job-count']?.values[0] as number | undefined,
+      attributes,
+    };
+  }
+
+  async cancelJob(jobId: number): Promise<void> {
+    const operation = this.operationAttributes();
+    operation['job-id'] = ippAttribute(IPP_VALUE_TAGS.INTEGER, jobId);
+
+    await this.send('Cancel-Job', IPP_OPERATIONS.CANCEL_JOB, [
+      { tag: IPP_GROUP_TAGS.OPERATION, attributes: operation },
+    ]);
+  }
+
+  // --- Private ---
+
+  private static toHttpUrl(printerUri: string): URL {
+    const url = new URL(printerUri);
+    const schemes: Record<string, string> = { 'ipp:': 'http', 'ipps:': 'https', 'http:': 'http', 'https:': 'https' };
+    const scheme = schemes[url.protocol];
+    if (!scheme) {
+      throw new Error(`Unsupported printer URI scheme: ${url.protocol}`);
+    }
+
+    // ipp:// and ipps:// default to port 631 rather than 80/443
+    const port = url.port || (url.protocol.startsWith('ipp') ? '631' : '');
+    return new URL(`${scheme}://${url.hostname}${port ? `:${port}` : ''}${url.pathname}${url.search}`);
+  }
+
+  /** The attributes every request starts with, in the order RFC 8011 requires. */
+  private operationAttributes(): Record<string, IppAttribute> {
+    return {
+      'attributes-charset': ippAttribute(IPP_VALUE_TAGS.CHARSET, 'utf-8'),
+      'attributes-natural-language': ippAttribute(IPP_VALUE_TAGS.NATURAL_LANGUAGE, 'en'),
+      'printer-uri': ippAttribute(IPP_VALUE_TAGS.URI, this.printerUri),
+      'requesting-user-name': ippAttribute(IPP_VALUE_TAGS.NAME, this.options.requestingUserName),
+    };
+  }
+
+  private parseJobStatus(response: IppMessage, fallbackJobId?: number): IppJobStatus {
+    const jobId = findAttributeValue(response, IPP_GROUP_TAGS.JOB, 'job-id') ?? fallbackJobId;
+    if (typeof jobId !== 'number') {
+      throw new Error('IPP response did not include a job-id');
+    }
+
+    const stateValue = findAttributeValue(response, IPP_GROUP_TAGS.JOB, 'job-state');
+    return {
+      jobId,
+      jobUri: findAttributeValue(response, IPP_GROUP_TAGS.JOB, 'job-uri') as string | undefined,
+      state: IPP_JOB_STATES[stateValue as number] ?? 'pending',
+      stateReasons: (findAttribute(response, IPP_GROUP_TAGS.JOB, 'job-state-reasons')?.values ?? []).map(String),
+      stateMessage: findAttributeValue(response, IPP_GROUP_TAGS.JOB, 'job-state-message') as string | undefined,
+      impressionsCompleted: findAttributeValue(response, IPP_GROUP_TAGS.JOB, 'job-impressions-completed') as
+        | number
+        | undefined,
+    };
+  }
+
+  private async send(
+    operationName: string,
+    operationId: number,
+    groups: IppAttributeGroup[],
+    data?: Buffer
+  ): Promise<IppMessage> {
+    const requestId = this.nextRequestId++;
+    const body = encodeIppMessage({ code: operationId, requestId, groups, data });
+    const responseBody = await this.post(body);
+
+    let response: IppMessage;
+    try {
+      response = decodeIppMessage(responseBody);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`IPP ${operationName} returned an invalid response: ${message}`);
+    }
+
+    if (!isSuccessStatus(response.code)) {
+      const detail = findAttributeValue(response, IPP_GROUP_TAGS.OPERATION, 'status-message');
+      throw new Error(
+        `IPP ${operationName} failed: ${ippStatusName(response.code)}` + (detail ? ` (${String(detail)})` : '')
+      );
+    }
+    return response;
+  }
+
+  private post(body: Buffer): Promise<Buffer> {
+    const transport = this.endpoint.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = transport.request(
+        this.endpoint,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/ipp',
+            'Content-Length': body.length,
+          },
+          timeout: this.options.timeout,
+          rejectUnauthorized: this.options.rejectUnauthorized,
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('end', () => {
+            if (response.statusCode !== 200) {
+              reject(new Error(`IPP request to ${this.printerUri} failed with HTTP ${response.statusCode}`));
+              return;
+            }
+            resolve(Buffer.concat(chunks));
+          });
+          response.on('error', reject);
+        }
+      );
+
+      request.on('timeout', () => {
+        request.destroy(new Error(`IPP request to ${this.printerUri} timed out`));
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}
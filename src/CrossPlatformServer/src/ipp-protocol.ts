@@ -0,0 +1,444 @@
+/**
+ * IPP/1.1 message encoding (RFC 8010) and the subset of RFC 8011 constants
+ * the client needs.
+ */
+
+export const IPP_OPERATIONS = {
+  PRINT_JOB: 0x0002,
+  CANCEL_JOB: 0x0008,
+  GET_JOB_ATTRIBUTES: 0x0009,
+  GET_PRINTER_ATTRIBUTES: 0x000b,
+} as const;
+
+/** Delimiter tags that start an attribute group or end the attribute section. */
+export const IPP_GROUP_TAGS = {
+  OPERATION: 0x01,
+  JOB: 0x02,
+  END: 0x03,
+  PRINTER: 0x04,
+  UNSUPPORTED: 0x05,
+} as const;
+
+export const IPP_VALUE_TAGS = {
+  UNSUPPORTED: 0x10,
+  UNKNOWN: 0x12,
+  NO_VALUE: 0x13,
+  INTEGER: 0x21,
+  BOOLEAN: 0x22,
+  ENUM: 0x23,
+  OCTET_STRING: 0x30,
+  DATE_TIME: 0x31,
+  RESOLUTION: 0x32,
+  RANGE_OF_INTEGER: 0x33,
+  BEGIN_COLLECTION: 0x34,
+  TEXT_WITH_LANGUAGE: 0x35,
+  NAME_WITH_LANGUAGE: 0x36,
+  END_COLLECTION: 0x37,
+  TEXT: 0x41,
+  NAME: 0x42,
+  KEYWORD: 0x44,
+  URI: 0x45,
+  URI_SCHEME: 0x46,
+  CHARSET: 0x47,
+  NATURAL_LANGUAGE: 0x48,
+  MIME_MEDIA_TYPE: 0x49,
+  MEMBER_ATTR_NAME: 0x4a,
+} as const;
+
+const STATUS_NAMES: Record<number, string> = {
+  0x0000: 'successful-ok',
+  0x0001: 'successful-ok-ignored-or-substituted-attributes',
+  0x0002: 'successful-ok-conflicting-attributes',
+  0x0400: 'client-error-bad-request',
+  0x0401: 'client-error-forbidden',
+  0x0402: 'client-error-not-authenticated',
+  0x0403: 'client-error-not-authorized',
+  0x0404: 'client-error-not-possible',
+  0x0405: 'client-error-timeout',
+  0x0406: 'client-error-not-found',
+  0x0407: 'client-error-gone',
+  0x0408: 'client-error-request-entity-too-large',
+  0x040a: 'client-error-document-format-not-supported',
+  0x040b: 'client-error-attributes-or-values-not-supported',
+  0x0500: 'server-error-internal-error',
+  0x0501: 'server-error-operation-not-supported',
+  0x0502: 'server-error-service-unavailable',
+  0x0503: 'server-error-version-not-supported',
+  0x0504: 'server-error-device-error',
+  0x0506: 'server-error-not-accepting-jobs',
+  0x0507: 'server-error-busy',
+};
+
+export type IppJobState =
+  | 'pending'
+  | 'pending-held'
+  | 'processing'
+  | 'processing-stopped'
+  | 'canceled'
+  | 'aborted'
+  | 'completed';
+
+export const IPP_JOB_STATES: Record<number, IppJobState> = {
+  3: 'pending',
+  4: 'pending-held',
+  5: 'processing',
+  6: 'processing-stopped',
+  7: 'canceled',
+  8: 'aborted',
+  9: 'completed',
+};
+
+export type IppPrinterState = 'idle' | 'processing' | 'stopped';
+
+export const IPP_PRINTER_STATES: Record<number, IppPrinterState> = {
+  3: 'idle',
+  4: 'processing',
+  5: 'stopped',
+};
+
+export type IppValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | Buffer
+  | { lower: number; upper: number }
+  | { crossFeed: number; feed: number; units: number }
+  | IppCollection;
+
+export interface IppCollection {
+  [member: string]: IppAttribute;
+}
+
+export interface IppAttribute {
+  tag: number;
+  values: IppValue[];
+}
+
+export interface IppAttributeGroup {
+  tag: number;
+  attributes: Record<string, IppAttribute>;
+}
+
+export interface IppMessage {
+  version?: { major: number; minor: number };
+  /** Operation id in requests, status code in responses. */
+  code: number;
+  requestId: number;
+  groups: IppAttributeGroup[];
+  data?: Buffer;
+}
+
+export function ippStatusName(status: number): string {
+  return STATUS_NAMES[status] ?? `0x${status.toString(16).padStart(4, '0')}`;
+}
+
+export function isSuccessStatus(status: number): boolean {
+  return status < 0x0100;
+}
+
+export function ippAttribute(tag: number, ...values: IppValue[]): IppAttribute {
+  return { tag, values };
+}
+
+/** First value of `name` across the groups with `groupTag`, if any. */
+export function findAttributeValue(message: IppMessage, groupTag: number, name: string): IppValue | undefined {
+  return findAttribute(message, groupTag, name)?.values[0];
+}
+
+export function findAttribute(message: IppMessage, groupTag: number, name: string): IppAttribute | undefined {
+  for (const group of message.groups) {
+    if (group.tag === groupTag && group.attributes[name]) {
+      return group.attributes[name];
+    }
+  }
+  return undefined;
+}
+
+export function encodeIppMessage(message: IppMessage): Buffer {
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(8);
+  header.writeInt8(message.version?.major ?? 1, 0);
+  header.writeInt8(message.version?.minor ?? 1, 1);
+  header.writeUInt16BE(message.code, 2);
+  header.writeUInt32BE(message.requestId, 4);
+  parts.push(header);
+
+  for (const group of message.groups) {
+    parts.push(Buffer.from([group.tag]));
+    for (const [name, attribute] of Object.entries(group.attributes)) {
+      if (attribute.values.length === 0) {
+        throw new Error(`IPP attribute ${name} has no values`);
+      }
+      attribute.values.forEach((value, index) => {
+        parts.push(encodeAttributeValue(attribute.tag, index === 0 ? name : '', value));
+      });
+    }
+  }
+
+  parts.push(Buffer.from([IPP_GROUP_TAGS.END]));
+  if (message.data) {
+    parts.push(message.data);
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodeIppMessage(buffer: Buffer): IppMessage {
+  if (buffer.length < 9) {
+    throw new Error(`IPP message too short (${buffer.length} bytes)`);
+  }
+
+  const reader = new Reader(buffer);
+  const major = reader.int8();
+  const minor = reader.int8();
+  const code = reader.uint16();
+  const requestId = reader.uint32();
+  const groups: IppAttributeGroup[] = [];
+
+  let group: IppAttributeGroup | null = null;
+  let lastAttribute: IppAttribute | null = null;
+
+  for (;;) {
+    const tag = reader.uint8();
+    if (tag === IPP_GROUP_TAGS.END) {
+      break;
+    }
+    if (tag < 0x10) {
+      group = { tag, attributes: {} };
+      groups.push(group);
+      lastAttribute = null;
+      continue;
+    }
+    if (!group) {
+      throw new Error('IPP attribute found outside of an attribute group');
+    }
+
+    const name = reader.string(reader.uint16());
+    const value = readValue(reader, tag);
+
+    if (name) {
+      lastAttribute = { tag, values: [value] };
+      group.attributes[name] = lastAttribute;
+    } else if (lastAttribute) {
+      lastAttribute.values.push(value);
+    } else {
+      throw new Error('IPP additional value without a preceding attribute');
+    }
+  }
+
+  return {
+    version: { major, minor },
+    code,
+    requestId,
+    groups,
+    data: reader.remaining(),
+  };
+}
+
+function encodeAttributeValue(tag: number, name: string, value: IppValue): Buffer {
+  const nameBytes = Buffer.from(name, 'utf8');
+  const valueBytes = encodeValue(tag, value);
+  const buffer = Buffer.alloc(1 + 2 + nameBytes.length + 2 + valueBytes.length);
+  let offset = buffer.writeUInt8(tag, 0);
+  offset = buffer.writeUInt16BE(nameBytes.length, offset);
+  offset += nameBytes.copy(buffer, offset);
+  offset = buffer.writeUInt16BE(valueBytes.length, offset);
+  valueBytes.copy(buffer, offset);
+  return buffer;
+}
+
+function encodeValue(tag: number, value: IppValue): Buffer {
+  if (tag >= IPP_VALUE_TAGS.UNSUPPORTED && tag <= 0x1f) {
+    return Buffer.alloc(0);
+  }
+
+  switch (tag) {
+    case IPP_VALUE_TAGS.INTEGER:
+    case IPP_VALUE_TAGS.ENUM: {
+      const buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(value as number);
+      return buffer;
+    }
+    case IPP_VALUE_TAGS.BOOLEAN:
+      return Buffer.from([value ? 1 : 0]);
+    case IPP_VALUE_TAGS.RANGE_OF_INTEGER: {
+      const range = value as { lower: number; upper: number };
+      const buffer = Buffer.alloc(8);
+      buffer.writeInt32BE(range.lower, 0);
+      buffer.writeInt32BE(range.upper, 4);
+      return buffer;
+    }
+    case IPP_VALUE_TAGS.RESOLUTION: {
+      const resolution = value as { crossFeed: number; feed: number; units: number };
+      const buffer = Buffer.alloc(9);
+      buffer.writeInt32BE(resolution.crossFeed, 0);
+      buffer.writeInt32BE(resolution.feed, 4);
+      buffer.writeInt8(resolution.units, 8);
+      return buffer;
+    }
+    case IPP_VALUE_TAGS.DATE_TIME:
+      return encodeDateTime(value as Date);
+    case IPP_VALUE_TAGS.OCTET_STRING:
+      return Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'utf8');
+    case IPP_VALUE_TAGS.BEGIN_COLLECTION:
+      throw new Error('Encoding IPP collections is not supported');
+    default:
+      return Buffer.from(String(value), 'utf8');
+  }
+}
+
+function readValue(reader: Reader, tag: number): IppValue {
+  const length = reader.uint16();
+
+  if (tag === IPP_VALUE_TAGS.BEGIN_COLLECTION) {
+    reader.skip(length);
+    return readCollection(reader);
+  }
+  if (tag >= IPP_VALUE_TAGS.UNSUPPORTED && tag <= 0x1f) {
+    reader.skip(length);
+    return null;
+  }
+
+  switch (tag) {
+    case IPP_VALUE_TAGS.INTEGER:
+    case IPP_VALUE_TAGS.ENUM:
+      return reader.bytes(length).readInt32BE(0);
+    case IPP_VALUE_TAGS.BOOLEAN:
+      return reader.bytes(length)[0] !== 0;
+    case IPP_VALUE_TAGS.RANGE_OF_INTEGER: {
+      const bytes = reader.bytes(length);
+      return { lower: bytes.readInt32BE(0), upper: bytes.readInt32BE(4) };
+    }
+    case IPP_VALUE_TAGS.RESOLUTION: {
+      const bytes = reader.bytes(length);
+      return { crossFeed: bytes.readInt32BE(0), feed: bytes.readInt32BE(4), units: bytes.readInt8(8) };
+    }
+    case IPP_VALUE_TAGS.DATE_TIME:
+      return decodeDateTime(reader.bytes(length));
+    case IPP_VALUE_TAGS.OCTET_STRING:
+      return Buffer.from(reader.bytes(length));
+    case IPP_VALUE_TAGS.TEXT_WITH_LANGUAGE:
+    case IPP_VALUE_TAGS.NAME_WITH_LANGUAGE: {
+      // language length + language, then text length + text; keep the text
+      const bytes = reader.bytes(length);
+      const languageLength = bytes.readUInt16BE(0);
+      const textLength = bytes.readUInt16BE(2 + languageLength);
+      return bytes.toString('utf8', 4 + languageLength, 4 + languageLength + textLength);
+    }
+    default:
+      return reader.string(length);
+  }
+}
+
+function readCollection(reader: Reader): IppCollection {
+  const collection: IppCollection = {};
+  let member: IppAttribute | null = null;
+
+  for (;;) {
+    const tag = reader.uint8();
+    const nameLength = reader.uint16();
+    reader.skip(nameLength);
+
+    if (tag === IPP_VALUE_TAGS.END_COLLECTION) {
+      reader.skip(reader.uint16());
+      return collection;
+    }
+    if (tag === IPP_VALUE_TAGS.MEMBER_ATTR_NAME) {
+      const memberName = reader.string(reader.uint16());
+      member = { tag: 0, values: [] };
+      collection[memberName] = member;
+      continue;
+    }
+    if (!member) {
+      throw new Error('IPP collection value without a member name');
+    }
+    member.tag = tag;
+    member.values.push(readValue(reader, tag));
+  }
+}
+
+function encodeDateTime(date: Date): Buffer {
+  const buffer = Buffer.alloc(11);
+  buffer.writeUInt16BE(date.getUTCFullYear(), 0);
+  buffer.writeUInt8(date.getUTCMonth() + 1, 2);
+  buffer.writeUInt8(date.getUTCDate(), 3);
+  buffer.writeUInt8(date.getUTCHours(), 4);
+  buffer.writeUInt8(date.getUTCMinutes(), 5);
+  buffer.writeUInt8(date.getUTCSeconds(), 6);
+  buffer.writeUInt8(Math.floor(date.getUTCMilliseconds() / 100), 7);
+  buffer.write('+', 8, 'ascii');
+  return buffer;
+}
+
+function decodeDateTime(bytes: Buffer): Date {
+  const utc = Date.UTC(
+    bytes.readUInt16BE(0),
+    bytes[2] - 1,
+    bytes[3],
+    bytes[4],
+    bytes[5],
+    bytes[6],
+    bytes[7] * 100
+  );
+  const offsetMinutes = (bytes[9] * 60 + bytes[10]) * (String.fromCharCode(bytes[8]) === '-' ? -1 : 1);
+  return new Date(utc - offsetMinutes * 60 * 1000);
+}
+
+class Reader {
+  private buffer: Buffer;
+  private offset = 0;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  int8(): number {
+    this.ensure(1);
+    return this.buffer.readInt8(this.offset++);
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  string(length: number): string {
+    return this.bytes(length).toString('utf8');
+  }
+
+  skip(length: number): void {
+    this.bytes(length);
+  }
+
+  remaining(): Buffer {
+    return this.buffer.subarray(this.offset);
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('IPP message truncated');
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { QueueJob, QueueStatus, JobUpdate, PurgeResult, DeviceQueueState, DeviceQueueInfo } from './types.js';
+import { PurgeCriteria } from './database-manager.js';
+import { JobExecutor } from './queue-worker.js';
+
+export interface EnqueueRequest {
+  deviceId: string;
+  deviceType: string;
+  operation: string;
+  parameters: Record<string, any>;
+  priority?: number;
+  notBefore?: Date;
+  idempotencyKey?: string;
+}
+
+export interface EnqueueResult {
+  job: QueueJob;
+  /** The idempotency key matched an earlier submission; `job` is that submission. */
+  duplicate: boolean;
+}
+
+export interface JobFilter {
+  deviceId?: string;
+  status?: string;
+  limit?: number;
+}
+
+/**
+ * Storage and scheduling backend for device jobs. `CrossPlatformWebSocketServer`
+ * serves the `queue.*` RPC methods from it and, when one is given, queues
+ * `printer.print` and `network.send` instead of running them inline.
+ */
+export interface JobQueue {
+  /** Run jobs of `operation` with `executor` when they are dequeued. */
+  registerExecutor(operation: string, executor: JobExecutor): void;
+  onJobUpdate(listener: (update: JobUpdate) => void): void;
+
+  enqueue(request: EnqueueRequest): Promise<EnqueueResult>;
+  getJob(jobId: string): Promise<QueueJob | null>;
+  getJobs(filter?: JobFilter): Promise<QueueJob[]>;
+  getStatus(): Promise<QueueStatus>;
+
+  /** Aborts the job if it is running. Returns false when it does not exist or has already finished. */
+  cancelJob(jobId: string): Promise<boolean>;
+  /** Returns false when the job does not exist or is not failed or dead-lettered. */
+  retryJob(jobId: string): Promise<boolean>;
+  requeueDeadLetters(deviceId?: string): Promise<number>;
+  /** Without criteria the configured retention policy is applied. */
+  purge(criteria?: PurgeCriteria, vacuum?: boolean): Promise<PurgeResult>;
+
+  /** Returns the state the device had before. */
+  setDeviceState(deviceId: string, state: DeviceQueueState, reason?: string): Promise<DeviceQueueState>;
+  getDeviceQueue(deviceId: string): Promise<DeviceQueueInfo>;
+}
@@ -0,0 +1,150 @@
+import { LabelTemplate, LabelTemplateDefinition, TemplateVariable, TemplateVariableType } from './types.js';
+import { MAX_COPIES } from './print-options.js';
+
+/**
+ * Persistence for label templates. `CrossPlatformWebSocketServer` serves the
+ * `templates.*` RPC methods and `printer.printTemplate` from it.
+ */
+export interface TemplateStore {
+  listTemplates(): Promise<LabelTemplate[]>;
+  getTemplate(name: string): Promise<LabelTemplate | null>;
+  /** Creates the template or replaces the one with the same name. */
+  saveTemplate(template: LabelTemplateDefinition): Promise<LabelTemplate>;
+  /** Returns false when there was no template with that name. */
+  deleteTemplate(name: string): Promise<boolean>;
+}
+
+export type TemplateValues = Record<string, string | number | boolean>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'integer', 'boolean'];
+
+/** Names of the `{{name}}` placeholders in `body`, in order of first use. */
+export function findPlaceholders(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Check a template before it is stored: every placeholder must be declared,
+ * every declared variable used, and defaults must match their type.
+ */
+export function validateLabelTemplate(template: LabelTemplateDefinition): void {
+  if (!template || typeof template.name !== 'string' || template.name.trim().length === 0) {
+    throw new Error('Template name is required');
+  }
+  if (template.language !== 'zpl' && template.language !== 'epl') {
+    throw new Error(`Template language must be zpl or epl, got ${template.language}`);
+  }
+  if (typeof template.body !== 'string' || template.body.length === 0) {
+    throw new Error('Template body is required');
+  }
+  if (!Array.isArray(template.variables)) {
+    throw new Error('Template variables must be an array');
+  }
+
+  const declared = new Set<string>();
+  for (const variable of template.variables) {
+    if (!VARIABLE_NAME.test(variable?.name ?? '')) {
+      throw new Error(`Invalid variable name "${variable?.name}"`);
+    }
+    if (declared.has(variable.name)) {
+      throw new Error(`Variable ${variable.name} is declared twice`);
+    }
+    if (!VARIABLE_TYPES.includes(variable.type)) {
+      throw new Error(`Variable ${variable.name} has unknown type "${variable.type}"`);
+    }
+    if (variable.default !== undefined) {
+      checkValue(variable, variable.default, template.language);
+    }
+    declared.add(variable.name);
+  }
+
+  const used = findPlaceholders(template.body);
+  const undeclared = used.filter(name => !declared.has(name));
+  if (undeclared.length > 0) {
+    throw new Error(`Template uses undeclared variables: ${undeclared.join(', ')}`);
+  }
+  const unused = [...declared].filter(name => !used.includes(name));
+  if (unused.length > 0) {
+    throw new Error(`Template declares unused variables: ${unused.join(', ')}`);
+  }
+}
+
+/**
+ * Fill in a template. Unknown variables, missing required ones and values of
+ * the wrong type are rejected. `copies` repeats the whole label, which works
+ * the same for ZPL and EPL.
+ */
+export function renderLabelTemplate(template: LabelTemplateDefinition, values: TemplateValues = {}, copies: number = 1): string {
+  if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+    throw new Error(`copies must be an integer from 1 to ${MAX_COPIES}`);
+  }
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error('Template variables must be an object');
+  }
+
+  const variables = new Map(template.variables.map(variable => [variable.name, variable]));
+  const unknown = Object.keys(values).filter(name => !variables.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown template variables: ${unknown.join(', ')}`);
+  }
+
+  const resolved = new Map<string, string>();
+  const missing: string[] = [];
+  for (const variable of template.variables) {
+    const value = values[variable.name] ?? variable.default;
+    if (value === undefined) {
+      if (variable.required !== false) {
+        missing.push(variable.name);
+      }
+      resolved.set(variable.name, '');
+      continue;
+    }
+    resolved.set(variable.name, checkValue(variable, value, template.language));
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing template variables: ${missing.join(', ')}`);
+  }
+
+  const label = template.body.replace(PLACEHOLDER, (_, name: string) => resolved.get(name) ?? '');
+  return label.repeat(copies);
+}
+
+/** Type-check a value and return the text that replaces its placeholder. */
+function checkValue(variable: TemplateVariable, value: unknown, language: 'zpl' | 'epl'): string {
+  const fail = (reason: string) => new Error(`Variable ${variable.name} ${reason}`);
+
+  switch (variable.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw fail('must be a number');
+      return String(value);
+    case 'integer':
+      if (!Number.isInteger(value)) throw fail('must be an integer');
+      return String(value);
+    case 'boolean':
+      if (typeof value !== 'boolean') throw fail('must be a boolean');
+      return value ? 'Y' : 'N';
+    case 'string':
+      break;
+  }
+
+  if (typeof value !== 'string') throw fail('must be a string');
+  if (variable.maxLength !== undefined && value.length > variable.maxLength) {
+    throw fail(`is longer than ${variable.maxLength} characters`);
+  }
+  if ([...value].some(char => char < ' ' || char === '\x7f')) {
+    throw fail('contains control characters');
+  }
+  if (language === 'zpl') {
+    // Field data can't contain the command prefixes without ending the field
+    if (/[\^~]/.test(value)) throw fail('contains ^ or ~, which ZPL reads as commands');
+    return value;
+  }
+  // EPL text and barcode data sit inside double quotes
+  return value.replace(/[\\"]/g, '\\$&');
+}
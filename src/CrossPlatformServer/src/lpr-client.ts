@@ -0,0 +1,174 @@
+import * as net from 'net';
+import * as os from 'os';
+import { PrintData } from './print-options.js';
+import { writeChunked } from './socket-writer.js';
+
+export interface LprClientOptions {
+  /** Timeout in ms for connecting and for each acknowledgement. */
+  timeout?: number;
+  /** Host name reported in the control file; at most 31 characters are sent. */
+  hostname?: string;
+  user?: string;
+}
+
+export interface LprJobOptions {
+  /** Shown in the printer's queue and on the banner page. */
+  jobName?: string;
+  copies?: number;
+}
+
+export interface LprJobResult {
+  /** Three-digit job number used in the control and data file names. */
+  jobNumber: number;
+  bytesSent: number;
+}
+
+const LPD_COMMANDS = {
+  RECEIVE_JOB: 0x02,
+  RECEIVE_CONTROL_FILE: 0x02,
+  RECEIVE_DATA_FILE: 0x03,
+} as const;
+
+/**
+ * LPR sender (RFC 1179) for printers that only speak LPD. Each job is sent
+ * on its own connection as a control file followed by a single data file,
+ * printed as-is (`l` type), so raw ESC/POS, ZPL or EPL pass through unchanged.
+ */
+export class LprClient {
+  private host: string;
+  private port: number;
+  private options: Required<LprClientOptions>;
+  private static nextJobNumber = Math.floor(Math.random() * 1000);
+
+  constructor(host: string, port: number = 515, options?: LprClientOptions) {
+    this.host = host;
+    this.port = port;
+    this.options = {
+      timeout: options?.timeout ?? 10000,
+      hostname: (options?.hostname ?? os.hostname()).substring(0, 31),
+      user: (options?.user ?? 'bridge').substring(0, 31),
+    };
+  }
+
+  /** `data` may be a run of buffers, e.g. uncollated copies, which is streamed as one data file. */
+  async printJob(queue: string, data: string | Buffer | PrintData, options?: LprJobOptions): Promise<LprJobResult> {
+    if (!queue || /[\s/]/.test(queue)) {
+      throw new Error(`Invalid LPD queue name: "${queue}"`);
+    }
+
+    const content = typeof data === 'string' ? wholeData(Buffer.from(data)) : Buffer.isBuffer(data) ? wholeData(data) : data;
+    const jobNumber = LprClient.nextJobNumber;
+    LprClient.nextJobNumber = (LprClient.nextJobNumber + 1) % 1000;
+
+    const fileSuffix = `A${String(jobNumber).padStart(3, '0')}${this.options.hostname}`;
+    const controlFile = Buffer.from(this.buildControlFile(`df${fileSuffix}`, options), 'ascii');
+
+    const connection = await this.connect();
+    try {
+      await connection.command(Buffer.from(`${String.fromCharCode(LPD_COMMANDS.RECEIVE_JOB)}${queue}\n`), 'receive job');
+
+      await connection.command(
+        Buffer.from(`${String.fromCharCode(LPD_COMMANDS.RECEIVE_CONTROL_FILE)}${controlFile.length} cf${fileSuffix}\n`),
+        'control file header'
+      );
+      await connection.command(Buffer.concat([controlFile, Buffer.from([0])]), 'control file');
+
+      await connection.command(
+        Buffer.from(`${String.fromCharCode(LPD_COMMANDS.RECEIVE_DATA_FILE)}${content.length} df${fileSuffix}\n`),
+        'data file header'
+      );
+      await connection.command(terminated(content), 'data file');
+    } finally {
+      connection.close();
+    }
+
+    return { jobNumber, bytesSent: content.length };
+  }
+
+  // --- Private ---
+
+  private buildControlFile(dataFileName: string, options?: LprJobOptions): string {
+    const jobName = (options?.jobName ?? 'Hardware Bridge job').replace(/[\r\n]/g, ' ').substring(0, 99);
+    const copies = Math.max(1, options?.copies ?? 1);
+
+    const lines = [
+      `H${this.options.hostname}`,
+      `P${this.options.user}`,
+      `J${jobName}`,
+      `N${jobName}`,
+    ];
+    for (let i = 0; i < copies; i++) {
+      lines.push(`l${dataFileName}`);
+    }
+    lines.push(`U${dataFileName}`);
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Open a connection whose `command` writes a chunk and waits for the
+   * printer's one-byte acknowledgement (zero means accepted).
+   */
+  private connect(): Promise<{ command: (chunk: Buffer | Iterable<Buffer>, step: string) => Promise<void>; close: () => void }> {
+    const { timeout } = this.options;
+    const target = `${this.host}:${this.port}`;
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(timeout);
+
+      let pending: { resolve: () => void; reject: (error: Error) => void; step: string } | null = null;
+      let failure: Error | null = null;
+
+      const fail = (error: Error) => {
+        failure = failure ?? error;
+        if (pending) {
+          pending.reject(failure);
+          pending = null;
+        }
+        socket.destroy();
+      };
+
+      socket.on('data', (chunk: Buffer) => {
+        if (!pending) return;
+        const current = pending;
+        pending = null;
+        if (chunk[0] === 0) {
+          current.resolve();
+        } else {
+          current.reject(new Error(`LPD printer ${target} rejected the ${current.step} (code ${chunk[0]})`));
+          socket.destroy();
+        }
+      });
+      socket.on('timeout', () => fail(new Error(`LPD printer ${target} timed out`)));
+      socket.on('error', (error) => {
+        fail(error);
+        reject(error);
+      });
+      socket.on('close', () => fail(new Error(`LPD printer ${target} closed the connection`)));
+
+      socket.on('connect', () => {
+        resolve({
+          command: (chunk, step) => new Promise<void>((resolveCommand, rejectCommand) => {
+            if (failure) {
+              rejectCommand(failure);
+              return;
+            }
+            pending = { resolve: resolveCommand, reject: rejectCommand, step };
+            writeChunked(socket, chunk).catch(fail);
+          }),
+          close: () => socket.end(),
+        });
+      });
+    });
+  }
+}
+
+function wholeData(buffer: Buffer): PrintData {
+  return { length: buffer.length, parts: () => [buffer] };
+}
+
+/** The data file's bytes followed by the zero byte that ends it. */
+function* terminated(content: PrintData): Generator<Buffer> {
+  yield* content.parts();
+  yield Buffer.from([0]);
+}
@@ -0,0 +1,168 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Schema history, oldest first. Steps are forward-only: once a version has
+ * shipped its step must not change; add a new step instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create queue_jobs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS queue_jobs (
+          id TEXT PRIMARY KEY,
+          device_id TEXT NOT NULL,
+          device_type TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          parameters TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at DATETIME NOT NULL,
+          started_at DATETIME,
+          completed_at DATETIME,
+          error TEXT,
+          retry_count INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_queue_jobs_device_id ON queue_jobs(device_id);
+        CREATE INDEX IF NOT EXISTS idx_queue_jobs_status ON queue_jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_queue_jobs_created_at ON queue_jobs(created_at);
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Add retry backoff to queue_jobs',
+    up: (db) => {
+      addColumn(db, 'queue_jobs', 'next_attempt_at', 'DATETIME');
+    }
+  },
+  {
+    version: 3,
+    description: 'Add job priority and scheduled start',
+    up: (db) => {
+      addColumn(db, 'queue_jobs', 'priority', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'queue_jobs', 'not_before', 'DATETIME');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_queue_jobs_dispatch ON queue_jobs(status, priority DESC, created_at)');
+    }
+  },
+  {
+    version: 4,
+    description: 'Add processing leases',
+    up: (db) => {
+      addColumn(db, 'queue_jobs', 'lease_expires_at', 'DATETIME');
+    }
+  },
+  {
+    version: 5,
+    description: 'Add idempotency keys',
+    up: (db) => {
+      addColumn(db, 'queue_jobs', 'idempotency_key', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_queue_jobs_idempotency_key ON queue_jobs(idempotency_key, created_at)');
+    }
+  },
+  {
+    version: 6,
+    description: 'Add per-device queue state',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE device_queue_state (
+          device_id TEXT PRIMARY KEY,
+          state TEXT NOT NULL DEFAULT 'active',
+          reason TEXT,
+          updated_at DATETIME NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Add label templates',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE label_templates (
+          name TEXT PRIMARY KEY,
+          language TEXT NOT NULL,
+          body TEXT NOT NULL,
+          variables TEXT NOT NULL,
+          description TEXT,
+          created_at DATETIME NOT NULL,
+          updated_at DATETIME NOT NULL
+        );
+      `);
+    }
+  },
+];
+
+export function getSchemaVersion(db: Database.Database): number {
+  const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`).get();
+  if (!table) {
+    return 0;
+  }
+
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Bring the database up to the latest schema version. Each pending step runs
+ * in its own transaction together with its `schema_version` row, so a failing
+ * step leaves the database at the last version that applied cleanly.
+ * Returns the versions that were applied.
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at DATETIME NOT NULL
+    );
+  `);
+
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (currentVersion > latestVersion) {
+    throw new Error(`Database schema version ${currentVersion} is newer than the latest supported version ${latestVersion}`);
+  }
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    const apply = db.transaction(() => {
+      migration.up(db);
+      db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.description, new Date().toISOString());
+    });
+
+    try {
+      apply();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${message}`);
+    }
+    applied.push(migration.version);
+  }
+
+  if (applied.length > 0) {
+    console.log(`[Migrations] Database schema upgraded from version ${currentVersion} to ${latestVersion}`);
+  }
+  return applied;
+}
+
+// Databases created before schema_version existed were upgraded by probing
+// for columns, so they may already have some of the later ones.
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
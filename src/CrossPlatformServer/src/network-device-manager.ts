@@ -10,6 +10,8 @@ import {
   PingResult,
   WELL_KNOWN_PORTS
 } from './network-types.js';
+import { writeChunked } from './socket-writer.js';
+import { createFramer, readFramingOptions } from './framing.js';
 
 interface NetworkManagerConfig {
   defaultTimeout: number;
@@ -59,6 +61,7 @@ export class NetworkDeviceManager extends EventEmitter {
     const timeout = config.timeout ?? this.config.defaultTimeout;
 
     try {
+      const framing = readFramingOptions(config.framing);
       const socket = await this.createSocket(config.host, config.port, timeout);
       const connectionId = uuidv4();
 
@@ -74,12 +77,20 @@ export class NetworkDeviceManager extends EventEmitter {
         bytesWritten: 0,
         bytesRead: 0,
         isAlive: true,
+        commandLanguage: config.commandLanguage,
+        framing,
+        framer: createFramer(framing),
       };
 
       // Handle socket events
       socket.on('data', (data) => {
         connection.bytesRead += data.length;
         connection.lastActivity = new Date();
+        // Everything the device sends, including replies read by sendAndReceive
+        this.emit('device-data', deviceId, data);
+        for (const frame of connection.framer.push(data)) {
+          this.emit('device-frame', deviceId, frame);
+        }
       });
 
       socket.on('error', (error) => {
@@ -188,7 +199,18 @@ export class NetworkDeviceManager extends EventEmitter {
     this.connections.clear();
   }
 
-  async sendData(deviceId: string, data: Buffer | string): Promise<{
+  /**
+   * Write data to a connected device in chunks that respect the socket's
+   * backpressure; `onProgress` gets the bytes written so far. Aborting
+   * `signal` stops the write but leaves the connection open. `data` may be a
+   * run of buffers, e.g. the copies of a print job.
+   */
+  async sendData(
+    deviceId: string,
+    data: Buffer | string | Iterable<Buffer>,
+    onProgress?: (bytesWritten: number) => void,
+    signal?: AbortSignal
+  ): Promise<{
     success: boolean; bytesWritten: number; timestamp: Date; error?: string;
   }> {
     const connection = this.connections.get(deviceId);
@@ -201,30 +223,39 @@ export class NetworkDeviceManager extends EventEmitter {
       };
     }
 
-    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const buffer = typeof data === 'string' ? Buffer.from(data) : data;
+    // A run of buffers can only be read once, so its parts are reported as they are taken
+    const outgoing = Buffer.isBuffer(buffer) ? buffer : this.reportSentParts(deviceId, buffer);
 
-    return new Promise((resolve) => {
-      connection.socket.write(buffer, (error) => {
-        if (error) {
-          resolve({
-            success: false,
-            bytesWritten: 0,
-            timestamp: new Date(),
-            error: error.message,
-          });
-        } else {
-          connection.bytesWritten += buffer.length;
-          connection.lastActivity = new Date();
-          resolve({
-            success: true,
-            bytesWritten: buffer.length,
-            timestamp: new Date(),
-          });
-        }
-      });
-    });
+    try {
+      const bytesWritten = await writeChunked(connection.socket, outgoing, (bytesWritten) => {
+        connection.lastActivity = new Date();
+        onProgress?.(bytesWritten);
+      }, signal);
+      connection.bytesWritten += bytesWritten;
+      if (Buffer.isBuffer(buffer)) {
+        this.emit('device-sent', deviceId, buffer);
+      }
+      return {
+        success: true,
+        bytesWritten,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        bytesWritten: 0,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Send failed',
+      };
+    }
   }
 
+  /**
+   * Send `data` and resolve with the device's reply: the next message if the
+   * connection has framing, otherwise whatever arrives until the device has
+   * been quiet for 500 ms.
+   */
   async sendAndReceive(deviceId: string, data: Buffer | string, timeout?: number): Promise<{
     success: boolean; bytesWritten: number; response: Buffer; timestamp: Date; error?: string;
   }> {
@@ -241,6 +272,9 @@ export class NetworkDeviceManager extends EventEmitter {
 
     const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
     const responseTimeout = timeout ?? this.config.defaultTimeout;
+    if (connection.framing.mode !== 'raw') {
+      return this.receiveFrame(connection, buffer, responseTimeout);
+    }
 
     return new Promise((resolve) => {
       const chunks: Buffer[] = [];
@@ -311,6 +345,7 @@ export class NetworkDeviceManager extends EventEmitter {
         } else {
           connection.bytesWritten += buffer.length;
           connection.lastActivity = new Date();
+          this.emit('device-sent', connection.deviceId, buffer);
         }
       });
     });
@@ -390,7 +425,7 @@ export class NetworkDeviceManager extends EventEmitter {
     };
   }
 
-  getConnectionStatus(deviceId: string): Omit<ActiveConnection, 'socket'> | undefined {
+  getConnectionStatus(deviceId: string): Omit<ActiveConnection, 'socket' | 'framer'> | undefined {
     const conn = this.connections.get(deviceId);
     if (!conn) return undefined;
     return {
@@ -404,6 +439,7 @@ export class NetworkDeviceManager extends EventEmitter {
       bytesWritten: conn.bytesWritten,
       bytesRead: conn.bytesRead,
       isAlive: conn.isAlive,
+      framing: conn.framing,
     };
   }
 
@@ -423,6 +459,13 @@ export class NetworkDeviceManager extends EventEmitter {
 
   // --- Private helpers ---
 
+  private *reportSentParts(deviceId: string, parts: Iterable<Buffer>): Generator<Buffer> {
+    for (const part of parts) {
+      yield part;
+      this.emit('device-sent', deviceId, part);
+    }
+  }
+
   private createSocket(host: string, port: number, timeout: number): Promise<net.Socket> {
     return new Promise((resolve, reject) => {
       const socket = new net.Socket();
@@ -449,6 +492,45 @@ export class NetworkDeviceManager extends EventEmitter {
     });
   }
 
+  private receiveFrame(connection: ActiveConnection, buffer: Buffer, timeout: number): Promise<{
+    success: boolean; bytesWritten: number; response: Buffer; timestamp: Date; error?: string;
+  }> {
+    return new Promise((resolve) => {
+      const finish = (result: { success: boolean; bytesWritten: number; response?: Buffer; error?: string }) => {
+        clearTimeout(timer);
+        this.removeListener('device-frame', onFrame);
+        connection.socket.removeListener('error', onError);
+        resolve({ response: Buffer.alloc(0), ...result, timestamp: new Date() });
+      };
+
+      const onFrame = (deviceId: string, frame: Buffer) => {
+        if (deviceId === connection.deviceId) {
+          finish({ success: true, bytesWritten: buffer.length, response: frame });
+        }
+      };
+
+      const onError = (error: Error) => {
+        finish({ success: false, bytesWritten: 0, error: error.message });
+      };
+
+      const timer = setTimeout(() => {
+        finish({ success: false, bytesWritten: buffer.length, error: 'Response timeout' });
+      }, timeout);
+
+      this.on('device-frame', onFrame);
+      connection.socket.once('error', onError);
+      connection.socket.write(buffer, (error) => {
+        if (error) {
+          finish({ success: false, bytesWritten: 0, error: error.message });
+        } else {
+          connection.bytesWritten += buffer.length;
+          connection.lastActivity = new Date();
+          this.emit('device-sent', connection.deviceId, buffer);
+        }
+      });
+    });
+  }
+
   private getLocalSubnet(): string | null {
     const interfaces = os.networkInterfaces();
     for (const name of Object.keys(interfaces)) {
@@ -1,4 +1,6 @@
-import { PrinterDevice, SerialPortDevice } from './types.js';
+import { PrinterDevice, SerialPortDevice, PrinterCommandLanguage, FramingOptions } from './types.js';
+import { Framer } from './framing.js';
+import { IppJobState } from './ipp-protocol.js';
 
 export interface ActiveConnection {
   id: string;
@@ -12,6 +14,9 @@ export interface ActiveConnection {
   bytesWritten: number;
   bytesRead: number;
   isAlive: boolean;
+  commandLanguage?: PrinterCommandLanguage;
+  framing: FramingOptions;
+  framer: Framer;
 }
 
 export interface DiscoveryOptions {
@@ -47,6 +52,14 @@ export interface PrintJobState {
   startedAt: Date;
   completedAt?: Date;
   error?: string;
+  /** Set for jobs submitted over IPP; refreshed from the printer on request. */
+  ipp?: {
+    printerUri: string;
+    jobId: number;
+    jobUri?: string;
+    state: IppJobState;
+    stateReasons: string[];
+  };
 }
 
 export interface EnumerationResult {
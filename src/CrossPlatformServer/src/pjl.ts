@@ -0,0 +1,240 @@
+import { NetworkDeviceManager } from './network-device-manager.js';
+import { PrinterStatusFlags } from './types.js';
+
+/** Universal Exit Language: returns the printer to PJL from any PDL. */
+export const UEL = '\x1b%-12345X';
+
+export interface PjlStatus {
+  /** PJL status code, e.g. 10001 (ready), 40021 (door open), 41xyy (load paper). */
+  code: number;
+  display?: string;
+  online: boolean;
+}
+
+export interface PjlConfig {
+  duplex: boolean;
+  /** Page description languages, e.g. PCL and POSTSCRIPT. */
+  languages: string[];
+  trays: string[];
+  memory?: number;
+  /** From `INQUIRE RESOLUTION`; not every printer answers it. */
+  resolution?: number;
+  /** Every INFO CONFIG entry: flags as true, `KEY=VALUE` as a string, enumerations as lists. */
+  entries: Record<string, string | string[] | boolean>;
+}
+
+export type PjlUnsolicitedStatus =
+  | { type: 'device'; status: PjlStatus }
+  | { type: 'job'; event: 'start' | 'end'; name?: string; pages?: number }
+  | { type: 'page'; page: number };
+
+interface PjlBlock {
+  /** The echoed command without its `@PJL ` prefix, e.g. `INFO STATUS`. */
+  command: string;
+  lines: string[];
+}
+
+/** Wrap PJL commands in UEL so the printer interprets them whatever it was doing. */
+export function buildPjlRequest(commands: string[]): Buffer {
+  const body = commands.map(command => `@PJL ${command}\r\n`).join('');
+  return Buffer.from(`${UEL}@PJL\r\n${body}${UEL}`, 'ascii');
+}
+
+/**
+ * Split a printer reply into its answers. Each answer starts with the
+ * echoed `@PJL` command and ends with a form feed.
+ */
+export function parsePjlResponse(response: Buffer | string): PjlBlock[] {
+  const text = (Buffer.isBuffer(response) ? response.toString('latin1') : response).split(UEL).join('');
+  const blocks: PjlBlock[] = [];
+
+  for (const chunk of text.split('\f')) {
+    const lines = chunk.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const start = lines.findIndex(line => line.startsWith('@PJL '));
+    if (start < 0) continue;
+    blocks.push({
+      command: lines[start].substring(5).trim().toUpperCase(),
+      lines: lines.slice(start + 1),
+    });
+  }
+  return blocks;
+}
+
+export function parsePjlStatus(lines: string[]): PjlStatus {
+  const values = parseAssignments(lines);
+  const code = parseInt(values.CODE ?? '', 10);
+  if (isNaN(code)) {
+    throw new Error('PJL status did not include a CODE');
+  }
+  return {
+    code,
+    display: values.DISPLAY,
+    online: (values.ONLINE ?? 'TRUE').toUpperCase() === 'TRUE',
+  };
+}
+
+export function parsePjlConfig(lines: string[]): Omit<PjlConfig, 'resolution'> {
+  const entries: Record<string, string | string[] | boolean> = {};
+  let list: string[] | null = null;
+
+  for (const line of lines) {
+    if (/^\s/.test(line) && list) {
+      list.push(line.trim());
+      continue;
+    }
+    list = null;
+
+    const enumerated = line.match(/^(.+?)\s*\[\s*\d+\s+[A-Z ]+\]\s*$/i);
+    if (enumerated) {
+      list = [];
+      entries[enumerated[1].trim().toUpperCase()] = list;
+      continue;
+    }
+
+    const equals = line.indexOf('=');
+    if (equals > 0) {
+      entries[line.substring(0, equals).trim().toUpperCase()] = unquote(line.substring(equals + 1).trim());
+    } else {
+      entries[line.trim().toUpperCase()] = true;
+    }
+  }
+
+  const listOf = (key: string) => (Array.isArray(entries[key]) ? entries[key] as string[] : []);
+  const memory = typeof entries.MEMORY === 'string' ? parseInt(entries.MEMORY, 10) : NaN;
+
+  return {
+    duplex: entries.DUPLEX === true || listOf('DUPLEX').length > 0,
+    languages: listOf('LANGUAGES').map(language => language.split(/\s+/)[0]),
+    trays: listOf('IN TRAYS').map(tray => tray.split(/\s+/)[0]),
+    memory: isNaN(memory) ? undefined : memory,
+    entries,
+  };
+}
+
+/** USTATUS messages in data the printer sent on its own. Other content is ignored. */
+export function parsePjlUnsolicited(response: Buffer | string): PjlUnsolicitedStatus[] {
+  const statuses: PjlUnsolicitedStatus[] = [];
+
+  for (const block of parsePjlResponse(response)) {
+    switch (block.command) {
+      case 'USTATUS DEVICE':
+        statuses.push({ type: 'device', status: parsePjlStatus(block.lines) });
+        break;
+      case 'USTATUS JOB': {
+        const event = block.lines[0]?.trim().toUpperCase() === 'START' ? 'start' : 'end';
+        const values = parseAssignments(block.lines.slice(1));
+        const pages = parseInt(values.PAGES ?? '', 10);
+        statuses.push({ type: 'job', event, name: values.NAME, pages: isNaN(pages) ? undefined : pages });
+        break;
+      }
+      case 'USTATUS PAGE': {
+        const page = parseInt(block.lines[0] ?? '', 10);
+        if (!isNaN(page)) {
+          statuses.push({ type: 'page', page });
+        }
+        break;
+      }
+    }
+  }
+  return statuses;
+}
+
+/** Map a PJL status code onto the common printer status flags. */
+export function pjlStatusToFlags(status: PjlStatus, raw: Buffer): PrinterStatusFlags {
+  const group = Math.floor(status.code / 1000);
+  return {
+    commandLanguage: 'pjl',
+    online: status.online,
+    paperOut: group === 41,
+    coverOpen: status.code === 40021,
+    paperJam: status.code === 40022 || group === 42 || group === 44,
+    unrecoverableError: group === 50,
+    autoRecoverableError: group === 30,
+    statusCode: status.code,
+    displayMessage: status.display,
+    raw: raw.toString('hex'),
+  };
+}
+
+/**
+ * PJL queries for a printer connected through `NetworkDeviceManager`,
+ * typically a laser printer on JetDirect port 9100.
+ */
+export class PjlClient {
+  private networkManager: NetworkDeviceManager;
+  private deviceId: string;
+  private timeout?: number;
+
+  constructor(networkManager: NetworkDeviceManager, deviceId: string, timeout?: number) {
+    this.networkManager = networkManager;
+    this.deviceId = deviceId;
+    this.timeout = timeout;
+  }
+
+  /** INFO STATUS, with the page counter from INFO PAGECOUNT when the printer reports one. */
+  async getStatus(): Promise<{ status: PjlStatus; pageCount?: number; raw: Buffer }> {
+    const { blocks, raw } = await this.query(['INFO STATUS', 'INFO PAGECOUNT']);
+    const pageLine = blocks.find(b => b.command === 'INFO PAGECOUNT')?.lines[0];
+    const pageCount = parseInt(pageLine?.replace(/^PAGECOUNT\s*=\s*/i, '') ?? '', 10);
+    return {
+      status: parsePjlStatus(this.answer(blocks, 'INFO STATUS')),
+      pageCount: isNaN(pageCount) ? undefined : pageCount,
+      raw,
+    };
+  }
+
+  async getConfig(): Promise<PjlConfig> {
+    const { blocks } = await this.query(['INFO CONFIG', 'INQUIRE RESOLUTION']);
+    const config = parsePjlConfig(this.answer(blocks, 'INFO CONFIG'));
+    const resolution = parseInt(blocks.find(b => b.command === 'INQUIRE RESOLUTION')?.lines[0] ?? '', 10);
+    return { ...config, resolution: isNaN(resolution) ? undefined : resolution };
+  }
+
+  /**
+   * Turn unsolicited device, job and page status on or off. The printer then
+   * sends USTATUS messages on the connection by itself.
+   */
+  async setUnsolicitedStatus(enabled: boolean): Promise<void> {
+    const value = enabled ? 'ON' : 'OFF';
+    const result = await this.networkManager.sendData(
+      this.deviceId,
+      buildPjlRequest([`USTATUS DEVICE = ${value}`, `USTATUS JOB = ${value}`, `USTATUS PAGE = ${value}`])
+    );
+    if (!result.success) {
+      throw new Error(`PJL USTATUS request to ${this.deviceId} failed: ${result.error}`);
+    }
+  }
+
+  // --- Private ---
+
+  private async query(commands: string[]): Promise<{ blocks: PjlBlock[]; raw: Buffer }> {
+    const result = await this.networkManager.sendAndReceive(this.deviceId, buildPjlRequest(commands), this.timeout);
+    if (!result.success) {
+      throw new Error(`PJL ${commands.join(', ')} request to ${this.deviceId} failed: ${result.error}`);
+    }
+    return { blocks: parsePjlResponse(result.response), raw: result.response };
+  }
+
+  private answer(blocks: PjlBlock[], command: string): string[] {
+    const block = blocks.find(b => b.command === command);
+    if (!block) {
+      throw new Error(`Printer ${this.deviceId} did not answer PJL ${command}`);
+    }
+    return block.lines;
+  }
+}
+
+function parseAssignments(lines: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of lines) {
+    const equals = line.indexOf('=');
+    if (equals > 0) {
+      values[line.substring(0, equals).trim().toUpperCase()] = unquote(line.substring(equals + 1).trim());
+    }
+  }
+  return values;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
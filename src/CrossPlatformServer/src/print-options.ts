@@ -0,0 +1,152 @@
+/** Options that change what comes out of the printer rather than when the job runs. */
+export interface OutputOptions {
+  copies: number;
+  /** Whole sets (1,2,3,1,2,3) when true, each page repeated (1,1,2,2,3,3) when false. */
+  collate: boolean;
+  jobName?: string;
+  /** CUPS only: passed to `lp` as `-o name=value`, or `-o name` for `true`. */
+  cupsOptions?: Record<string, string | number | boolean>;
+}
+
+export const MAX_COPIES = 10000;
+
+/** Print data sent as a run of buffers, one after the other. */
+export interface PrintData {
+  /** Bytes of all parts together */
+  length: number;
+  parts(): Iterable<Buffer>;
+}
+
+const CUPS_OPTION_NAME = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/** Read and check `copies`, `collate`, `jobName` and `cupsOptions` from print request params. */
+export function readOutputOptions(params: any): OutputOptions {
+  const copies = params?.copies ?? 1;
+  if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+    throw new Error(`copies must be an integer from 1 to ${MAX_COPIES}`);
+  }
+  const collate = params?.collate ?? true;
+  if (typeof collate !== 'boolean') {
+    throw new Error('collate must be a boolean');
+  }
+  const jobName = params?.jobName;
+  if (jobName !== undefined && typeof jobName !== 'string') {
+    throw new Error('jobName must be a string');
+  }
+
+  const cupsOptions = params?.cupsOptions;
+  if (cupsOptions !== undefined) {
+    if (typeof cupsOptions !== 'object' || cupsOptions === null || Array.isArray(cupsOptions)) {
+      throw new Error('cupsOptions must be an object');
+    }
+    for (const [name, value] of Object.entries(cupsOptions)) {
+      if (!CUPS_OPTION_NAME.test(name)) {
+        throw new Error(`Invalid CUPS option name "${name}"`);
+      }
+      // lp splits -o values on whitespace, so one value could smuggle in more options
+      if (!['string', 'number', 'boolean'].includes(typeof value) || /\s/.test(String(value))) {
+        throw new Error(`CUPS option ${name} must be a string, number or boolean without spaces`);
+      }
+    }
+  }
+
+  return { copies, collate, jobName, cupsOptions };
+}
+
+/**
+ * Repeat print data for printers that take a plain byte stream and have no
+ * notion of copies. Uncollated copies repeat each page in turn, which needs
+ * the page boundaries of `format`; data without any is a single page. Every
+ * copy yields the same buffers again, so memory does not grow with copies.
+ */
+export function expandCopies(data: Buffer, format: string | undefined, copies: number, collate: boolean): PrintData {
+  const pages = copies > 1 && !collate ? splitPages(data, format) : [data];
+  const sets = collate ? copies : 1;
+  const perPage = collate ? 1 : copies;
+
+  return {
+    length: data.length * copies,
+    *parts() {
+      for (let set = 0; set < sets; set++) {
+        for (const page of pages) {
+          for (let i = 0; i < perPage; i++) yield page;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Split print data after each page: ZPL labels end at `^XZ`, EPL forms at
+ * their `P` print line and ESC/POS receipts at a cut. Bytes after the last
+ * of those (a newline, a drawer kick) stay with it. Plain text pages end at
+ * a form feed, and text after the last one is a page of its own.
+ */
+export function splitPages(data: Buffer, format: string | undefined): Buffer[] {
+  const ends = format === 'escpos' ? escPosCutEnds(data) : textPageEnds(data.toString('latin1'), format);
+
+  const starts = [0];
+  for (const end of ends) {
+    if (end > starts[starts.length - 1] && end < data.length) starts.push(end);
+  }
+  if ((format === 'zpl' || format === 'epl' || format === 'escpos') && starts.length > 1 && ends[ends.length - 1] < data.length) {
+    starts.pop();
+  }
+  return starts.map((start, i) => data.subarray(start, starts[i + 1] ?? data.length));
+}
+
+/** `lp` arguments for printing standard input on `printerName`. */
+export function buildLpArguments(printerName: string, options: Partial<OutputOptions> = {}): string[] {
+  const args = ['-d', printerName];
+  const copies = options.copies ?? 1;
+  if (copies > 1) {
+    args.push('-n', String(copies), '-o', `collate=${options.collate ?? true}`);
+  }
+  if (options.jobName) {
+    args.push('-t', options.jobName);
+  }
+  for (const [name, value] of Object.entries(options.cupsOptions ?? {})) {
+    args.push('-o', value === true ? name : `${name}=${value}`);
+  }
+  args.push('-');
+  return args;
+}
+
+function textPageEnds(text: string, format: string | undefined): number[] {
+  const pattern = format === 'zpl'
+    ? /\^XZ/gi
+    : format === 'epl'
+      ? /^P\d+(?:,\d+)?\r?\n?/gm
+      : /\f/g;
+  return [...text.matchAll(pattern)].map(match => (match.index ?? 0) + match[0].length);
+}
+
+/**
+ * Offsets just past each `GS V` cut. Raster images and 2D code data are
+ * skipped by their length fields so their bytes are never read as commands.
+ */
+function escPosCutEnds(data: Buffer): number[] {
+  const ends: number[] = [];
+  let i = 0;
+  while (i < data.length - 2) {
+    if (data[i] !== 0x1d) {
+      i++;
+      continue;
+    }
+    const command = data[i + 1];
+    if (command === 0x76 && data[i + 2] === 0x30 && i + 8 <= data.length) {
+      // GS v 0 m xL xH yL yH d1...dk
+      i += 8 + data.readUInt16LE(i + 4) * data.readUInt16LE(i + 6);
+    } else if (command === 0x28 && i + 5 <= data.length) {
+      // GS ( fn pL pH d1...dk
+      i += 5 + data.readUInt16LE(i + 3);
+    } else if (command === 0x56) {
+      const mode = data[i + 2];
+      i += mode === 65 || mode === 66 ? 4 : 3;
+      ends.push(Math.min(i, data.length));
+    } else {
+      i += 2;
+    }
+  }
+  return ends;
+}
@@ -0,0 +1,127 @@
+import { PrinterCommandLanguage, PrinterStatusFlags } from './types.js';
+
+const DLE = 0x10;
+const EOT = 0x04;
+const STX = 0x02;
+const ETX = 0x03;
+
+/**
+ * DLE EOT 1-4: printer, offline cause, error cause and paper roll sensor
+ * status. Each query is answered with a single byte.
+ */
+export const ESCPOS_STATUS_QUERY = Buffer.from([
+  DLE, EOT, 1,
+  DLE, EOT, 2,
+  DLE, EOT, 3,
+  DLE, EOT, 4,
+]);
+
+/** ZPL host status return; answered with three STX...ETX framed strings. */
+export const ZPL_STATUS_QUERY = Buffer.from('~HS\r\n', 'ascii');
+
+/** The query for `language`, or undefined when it has no status query. */
+export function statusQueryFor(language: PrinterCommandLanguage): Buffer | undefined {
+  switch (language) {
+    case 'escpos':
+      return ESCPOS_STATUS_QUERY;
+    case 'zpl':
+      return ZPL_STATUS_QUERY;
+    default:
+      return undefined;
+  }
+}
+
+export function parseStatusResponse(language: PrinterCommandLanguage, response: Buffer): PrinterStatusFlags {
+  switch (language) {
+    case 'escpos':
+      return parseEscPosStatus(response);
+    case 'zpl':
+      return parseZplHostStatus(response);
+    default:
+      throw new Error(`Status queries are not supported for ${language}`);
+  }
+}
+
+/**
+ * Parse the four status bytes returned for `ESCPOS_STATUS_QUERY`. Every
+ * DLE EOT reply has bits 1 and 4 set and bits 0 and 7 clear.
+ */
+export function parseEscPosStatus(response: Buffer): PrinterStatusFlags {
+  if (response.length < 4) {
+    throw new Error(`Expected 4 ESC/POS status bytes, got ${response.length}`);
+  }
+
+  const [printer, offline, error, paper] = response.subarray(response.length - 4);
+  for (const byte of [printer, offline, error, paper]) {
+    if ((byte & 0x93) !== 0x12) {
+      throw new Error(`Invalid ESC/POS status byte 0x${byte.toString(16).padStart(2, '0')}`);
+    }
+  }
+
+  const bit = (byte: number, n: number) => (byte & (1 << n)) !== 0;
+
+  return {
+    commandLanguage: 'escpos',
+    online: !bit(printer, 3),
+    drawerOpen: bit(printer, 2),
+    coverOpen: bit(offline, 2),
+    paperOut: bit(offline, 5) || (bit(paper, 5) && bit(paper, 6)),
+    paperNearEnd: bit(paper, 2) && bit(paper, 3),
+    cutterError: bit(error, 2),
+    unrecoverableError: bit(error, 3),
+    autoRecoverableError: bit(error, 5),
+    raw: response.toString('hex'),
+  };
+}
+
+/**
+ * Parse a ZPL `~HS` reply. Of its three strings the first carries the paper
+ * out, pause and buffer flags and the second the head and ribbon flags.
+ */
+export function parseZplHostStatus(response: Buffer): PrinterStatusFlags {
+  const strings: string[][] = [];
+  let start = response.indexOf(STX);
+  while (start >= 0) {
+    const end = response.indexOf(ETX, start + 1);
+    if (end < 0) break;
+    strings.push(response.toString('ascii', start + 1, end).split(','));
+    start = response.indexOf(STX, end + 1);
+  }
+
+  if (strings.length < 2 || strings[0].length < 12 || strings[1].length < 11) {
+    throw new Error('Incomplete ZPL host status response');
+  }
+
+  const [first, second] = strings;
+  const flag = (value: string) => value.trim() === '1';
+
+  const paperOut = flag(first[1]);
+  const paused = flag(first[2]);
+  const headOpen = flag(second[2]);
+  const ribbonOut = flag(second[3]);
+
+  return {
+    commandLanguage: 'zpl',
+    online: !paused && !paperOut && !headOpen && !ribbonOut,
+    paperOut,
+    coverOpen: headOpen,
+    ribbonOut,
+    paused,
+    receiveBufferFull: flag(first[5]),
+    formatsInBuffer: parseInt(first[4], 10),
+    labelsRemaining: parseInt(second[8], 10),
+    raw: response.toString('hex'),
+  };
+}
+
+/** One word for the most pressing condition in `flags`. */
+export function summarizePrinterStatus(flags: PrinterStatusFlags): string {
+  if (flags.unrecoverableError || flags.cutterError) return 'error';
+  if (flags.paperJam) return 'paper_jam';
+  if (flags.paperOut) return 'paper_out';
+  if (flags.coverOpen) return 'cover_open';
+  if (flags.ribbonOut) return 'ribbon_out';
+  if (flags.paused) return 'paused';
+  if (!flags.online) return 'offline';
+  return 'ready';
+}
@@ -0,0 +1,109 @@
+import { DatabaseManager, FINISHED_JOB_STATUSES } from './database-manager.js';
+import { RetentionPolicy, PurgeResult } from './types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeHours: {
+    completed: 7 * 24,
+    cancelled: 7 * 24,
+    failed: 30 * 24,
+    dead_letter: 30 * 24,
+  },
+  maxFinishedJobs: 10000,
+  stripPayloadsAfterHours: 24,
+  purgeIntervalMinutes: 60,
+  vacuumIntervalHours: 24,
+};
+
+/**
+ * Keeps `queue_jobs` from growing without bound: periodically applies the
+ * retention policy and vacuums the database file.
+ */
+export class QueueMaintenance {
+  private dbManager: DatabaseManager;
+  private policy: RetentionPolicy;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private vacuumTimer: NodeJS.Timeout | null = null;
+
+  constructor(dbManager: DatabaseManager, policy?: Partial<RetentionPolicy>) {
+    this.dbManager = dbManager;
+    this.policy = {
+      ...DEFAULT_RETENTION_POLICY,
+      ...policy,
+      maxAgeHours: policy?.maxAgeHours ?? DEFAULT_RETENTION_POLICY.maxAgeHours,
+    };
+  }
+
+  /**
+   * Apply the retention policy now and then on every purge interval; vacuum
+   * on the vacuum interval.
+   */
+  start(): void {
+    if (this.purgeTimer) return;
+
+    this.applyRetention().catch(error => {
+      console.error('[QueueMaintenance] Retention run failed:', error);
+    });
+
+    this.purgeTimer = setInterval(() => {
+      this.applyRetention().catch(error => {
+        console.error('[QueueMaintenance] Retention run failed:', error);
+      });
+    }, this.policy.purgeIntervalMinutes * 60 * 1000);
+
+    this.vacuumTimer = setInterval(() => {
+      this.dbManager.vacuum().catch(error => {
+        console.error('[QueueMaintenance] Vacuum failed:', error);
+      });
+    }, this.policy.vacuumIntervalHours * HOUR);
+  }
+
+  stop(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+    if (this.vacuumTimer) {
+      clearInterval(this.vacuumTimer);
+      this.vacuumTimer = null;
+    }
+  }
+
+  getPolicy(): RetentionPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Purge finished jobs past their age or count limit and strip old payloads.
+   */
+  async applyRetention(now: Date = new Date()): Promise<PurgeResult> {
+    let purged = 0;
+
+    for (const status of FINISHED_JOB_STATUSES) {
+      const maxAgeHours = this.policy.maxAgeHours[status];
+      if (maxAgeHours === undefined) continue;
+      purged += await this.dbManager.purgeJobs({
+        statuses: [status],
+        olderThan: new Date(now.getTime() - maxAgeHours * HOUR),
+      });
+    }
+
+    if (this.policy.maxFinishedJobs !== undefined) {
+      purged += await this.dbManager.purgeJobs({ keepLatest: this.policy.maxFinishedJobs });
+    }
+
+    let stripped = 0;
+    if (this.policy.stripPayloadsAfterHours !== undefined) {
+      stripped = await this.dbManager.stripCompletedPayloads(
+        new Date(now.getTime() - this.policy.stripPayloadsAfterHours * HOUR)
+      );
+    }
+
+    if (purged > 0 || stripped > 0) {
+      console.log(`[QueueMaintenance] Purged ${purged} jobs, stripped payloads from ${stripped}`);
+    }
+
+    return { purged, stripped, vacuumed: false };
+  }
+}
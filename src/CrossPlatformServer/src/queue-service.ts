@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events';
+import { DatabaseManager, PurgeCriteria } from './database-manager.js';
+import { QueueWorker, QueueWorkerConfig, JobExecutor, createJobUpdate } from './queue-worker.js';
+import { QueueMaintenance } from './queue-maintenance.js';
+import { JobQueue, EnqueueRequest, EnqueueResult, JobFilter } from './job-queue.js';
+import {
+  QueueJob,
+  QueueStatus,
+  JobUpdate,
+  PurgeResult,
+  RetentionPolicy,
+  DeviceQueueState,
+  DeviceQueueInfo
+} from './types.js';
+
+export interface QueueServiceConfig {
+  worker?: Partial<QueueWorkerConfig>;
+  retention?: Partial<RetentionPolicy>;
+}
+
+/**
+ * `JobQueue` backed by SQLite: jobs are persisted through `DatabaseManager`,
+ * run by a `QueueWorker` and cleaned up by `QueueMaintenance`.
+ */
+export class QueueService extends EventEmitter implements JobQueue {
+  private dbManager: DatabaseManager;
+  private worker: QueueWorker;
+  private maintenance: QueueMaintenance;
+
+  constructor(dbManager: DatabaseManager, config?: QueueServiceConfig) {
+    super();
+    this.dbManager = dbManager;
+    this.worker = new QueueWorker(dbManager, config?.worker);
+    this.maintenance = new QueueMaintenance(dbManager, config?.retention);
+    this.worker.on('job-updated', (update: JobUpdate) => this.emit('job-updated', update));
+  }
+
+  /**
+   * Start running jobs, including those left over from a previous run, and
+   * the scheduled retention.
+   */
+  start(): void {
+    this.worker.start();
+    this.maintenance.start();
+  }
+
+  async stop(): Promise<void> {
+    this.maintenance.stop();
+    await this.worker.stop();
+  }
+
+  registerExecutor(operation: string, executor: JobExecutor): void {
+    this.worker.registerExecutor(operation, executor);
+  }
+
+  onJobUpdate(listener: (update: JobUpdate) => void): void {
+    this.on('job-updated', listener);
+  }
+
+  async enqueue(request: EnqueueRequest): Promise<EnqueueResult> {
+    if (request.idempotencyKey) {
+      const existing = await this.dbManager.getJobByIdempotencyKey(request.idempotencyKey);
+      if (existing) {
+        return { job: existing, duplicate: true };
+      }
+    }
+
+    if (await this.dbManager.getDeviceQueueState(request.deviceId) === 'draining') {
+      throw new Error(`Device ${request.deviceId} is draining and does not accept new jobs`);
+    }
+
+    const jobId = await this.dbManager.addJob(request.deviceId, request.deviceType, request.operation, request.parameters, {
+      priority: request.priority,
+      notBefore: request.notBefore,
+      idempotencyKey: request.idempotencyKey
+    });
+    this.worker.notify();
+
+    const job = await this.dbManager.getJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} disappeared after it was queued`);
+    }
+    return { job, duplicate: false };
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    return this.dbManager.getJob(jobId);
+  }
+
+  async getJobs(filter: JobFilter = {}): Promise<QueueJob[]> {
+    return this.dbManager.getJobs(filter.deviceId, filter.status, filter.limit ?? 100);
+  }
+
+  async getStatus(): Promise<QueueStatus> {
+    return this.dbManager.getQueueStatus();
+  }
+
+  /**
+   * Cancel a job that has not finished. A pending job is simply never run; a
+   * running one is aborted, and this resolves once its executor has stopped.
+   * Only a job that was still unfinished when marked cancelled is aborted, so
+   * a printer is never reset for a job that already completed.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    if (!await this.dbManager.cancelJob(jobId)) {
+      return false;
+    }
+
+    // The worker reports the update itself once the aborted run has wound down
+    if (!await this.worker.abortJob(jobId)) {
+      await this.emitJobUpdate(jobId);
+    }
+    return true;
+  }
+
+  async retryJob(jobId: string): Promise<boolean> {
+    const requeued = await this.dbManager.retryJob(jobId);
+    if (requeued) {
+      await this.emitJobUpdate(jobId);
+      this.worker.notify();
+    }
+    return requeued;
+  }
+
+  async requeueDeadLetters(deviceId?: string): Promise<number> {
+    const count = await this.dbManager.requeueDeadLetters(deviceId);
+    this.worker.notify();
+    return count;
+  }
+
+  async purge(criteria?: PurgeCriteria, vacuum: boolean = false): Promise<PurgeResult> {
+    let result: PurgeResult;
+    if (criteria) {
+      result = { purged: await this.dbManager.purgeJobs(criteria), stripped: 0, vacuumed: false };
+    } else {
+      result = await this.maintenance.applyRetention();
+    }
+
+    if (vacuum) {
+      await this.dbManager.vacuum();
+      result.vacuumed = true;
+    }
+    return result;
+  }
+
+  async setDeviceState(deviceId: string, state: DeviceQueueState, reason?: string): Promise<DeviceQueueState> {
+    const previousState = await this.dbManager.setDeviceQueueState(deviceId, state, reason);
+    if (state === 'active') {
+      this.worker.notify();
+    }
+    return previousState;
+  }
+
+  async getDeviceQueue(deviceId: string): Promise<DeviceQueueInfo> {
+    return this.dbManager.getDeviceQueue(deviceId);
+  }
+
+  private async emitJobUpdate(jobId: string): Promise<void> {
+    const job = await this.dbManager.getJob(jobId);
+    if (job) {
+      this.emit('job-updated', createJobUpdate(job));
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events';
+import { DatabaseManager } from './database-manager.js';
+import { QueueJob, JobUpdate } from './types.js';
+import { RetryPolicy, resolveRetryPolicy, isRetryableError, getRetryDelay } from './retry-policy.js';
+
+export interface JobExecutionResult {
+  success: boolean;
+  error?: string;
+  bytesSent?: number;
+}
+
+/** Runs one job; `signal` aborts when the job is cancelled while it runs. */
+export type JobExecutor = (job: QueueJob, signal: AbortSignal) => Promise<JobExecutionResult>;
+
+export function createJobUpdate(job: QueueJob, bytesSent?: number): JobUpdate {
+  return {
+    jobId: job.id,
+    deviceId: job.deviceId,
+    operation: job.operation,
+    status: job.status,
+    bytesSent,
+    error: job.error ?? undefined,
+    retryCount: job.retryCount,
+    nextAttemptAt: job.nextAttemptAt,
+    timestamp: new Date(),
+  };
+}
+
+export interface QueueWorkerConfig {
+  pollInterval: number;
+  maxConcurrentJobs: number;
+  /** How long a claimed job stays leased without a heartbeat. */
+  leaseDuration: number;
+  heartbeatInterval: number;
+  retryPolicies: Record<string, Partial<RetryPolicy>>;
+}
+
+/**
+ * Drains pending jobs from the database and runs them through the executor
+ * registered for their operation. Jobs for the same device run one at a time,
+ * in submission order; different devices are processed in parallel.
+ *
+ * Failures with a transient error are retried with exponential backoff
+ * according to the operation's retry policy. Jobs that exhaust their attempts
+ * end up in `dead_letter`; non-retryable errors fail the job right away.
+ *
+ * While jobs run, the worker renews their leases on every heartbeat and sweeps
+ * up jobs whose lease ran out, e.g. because another process died holding them.
+ *
+ * A running job can be cancelled with `abortJob`; its executor is told through
+ * its abort signal, and the job keeps the status it was cancelled with.
+ *
+ * Every status change of a job it runs is emitted as a 'job-updated' event.
+ */
+export class QueueWorker extends EventEmitter {
+  private dbManager: DatabaseManager;
+  private config: QueueWorkerConfig;
+  private executors = new Map<string, JobExecutor>();
+  private activeJobs = new Map<string, Promise<void>>();
+  private abortControllers = new Map<string, AbortController>();
+  private busyDevices = new Set<string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private draining = false;
+  private drainRequested = false;
+
+  constructor(dbManager: DatabaseManager, config?: Partial<QueueWorkerConfig>) {
+    super();
+    this.dbManager = dbManager;
+    this.config = {
+      pollInterval: config?.pollInterval ?? 1000,
+      maxConcurrentJobs: config?.maxConcurrentJobs ?? 4,
+      leaseDuration: config?.leaseDuration ?? 30000,
+      heartbeatInterval: config?.heartbeatInterval ?? 10000,
+      retryPolicies: config?.retryPolicies ?? {},
+    };
+  }
+
+  registerExecutor(operation: string, executor: JobExecutor): void {
+    this.executors.set(operation, executor);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.pollTimer = setInterval(() => this.notify(), this.config.pollInterval);
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(error => {
+        console.error('[QueueWorker] Heartbeat failed:', error);
+      });
+    }, this.config.heartbeatInterval);
+    this.notify();
+  }
+
+  /**
+   * Stop claiming new jobs and wait for the ones already running to finish.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    await Promise.all(this.activeJobs.values());
+  }
+
+  /**
+   * Wake the worker up, e.g. right after a job was enqueued, instead of
+   * waiting for the next poll tick.
+   */
+  notify(): void {
+    if (!this.running) return;
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+    this.drain().catch(error => {
+      console.error('[QueueWorker] Failed to drain queue:', error);
+    });
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getActiveJobCount(): number {
+    return this.activeJobs.size;
+  }
+
+  /**
+   * Abort a running job and wait for its executor to give up. Returns false
+   * when the job is not running here. The caller records the final status.
+   */
+  async abortJob(jobId: string): Promise<boolean> {
+    const run = this.activeJobs.get(jobId);
+    if (!run) return false;
+    this.abortControllers.get(jobId)?.abort();
+    await run;
+    return true;
+  }
+
+  // --- Private ---
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        while (this.running && this.activeJobs.size < this.config.maxConcurrentJobs) {
+          const job = await this.dbManager.claimNextPendingJob(Array.from(this.busyDevices), this.config.leaseDuration);
+          if (!job) break;
+          this.startJob(job);
+        }
+      } while (this.drainRequested && this.running);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    await this.dbManager.renewLeases(Array.from(this.activeJobs.keys()), this.config.leaseDuration);
+    const recovered = await this.dbManager.recoverOrphanedJobs();
+    if (recovered.requeued > 0) {
+      this.notify();
+    }
+  }
+
+  private startJob(job: QueueJob): void {
+    this.busyDevices.add(job.deviceId);
+    const run = this.runJob(job).catch(error => {
+      console.error(`[QueueWorker] Failed to record result of job ${job.id}:`, error);
+    }).finally(() => {
+      this.activeJobs.delete(job.id);
+      this.busyDevices.delete(job.deviceId);
+      this.notify();
+    });
+    this.activeJobs.set(job.id, run);
+  }
+
+  private async runJob(job: QueueJob): Promise<void> {
+    this.emit('job-updated', createJobUpdate(job));
+
+    const executor = this.executors.get(job.operation);
+    if (!executor) {
+      await this.dbManager.finishJob(job.id, 'failed', `No executor registered for operation: ${job.operation}`);
+      await this.emitJobUpdate(job.id);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.abortControllers.set(job.id, controller);
+    let bytesSent: number | undefined;
+    try {
+      const result = await executor(job, controller.signal);
+      bytesSent = result.bytesSent;
+      // A cancelled job is already marked as such; its result must not replace that.
+      // finishJob also skips jobs cancelled or recovered after the executor returned
+      if (result.success && !controller.signal.aborted) {
+        await this.dbManager.finishJob(job.id, 'completed');
+      } else if (!controller.signal.aborted) {
+        await this.handleFailure(job, result.error ?? 'Job failed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Job failed';
+      console.error(`[QueueWorker] Job ${job.id} (${job.operation}) threw:`, message);
+      if (!controller.signal.aborted) {
+        await this.handleFailure(job, message);
+      }
+    } finally {
+      this.abortControllers.delete(job.id);
+    }
+    await this.emitJobUpdate(job.id, bytesSent);
+  }
+
+  private async emitJobUpdate(jobId: string, bytesSent?: number): Promise<void> {
+    const job = await this.dbManager.getJob(jobId);
+    if (job) {
+      this.emit('job-updated', createJobUpdate(job, bytesSent));
+    }
+  }
+
+  private async handleFailure(job: QueueJob, error: string): Promise<void> {
+    const policy = resolveRetryPolicy(job.operation, this.config.retryPolicies);
+
+    if (!isRetryableError(policy, error)) {
+      await this.dbManager.finishJob(job.id, 'failed', error);
+      return;
+    }
+
+    const attempts = job.retryCount + 1;
+    if (attempts >= policy.maxAttempts) {
+      console.warn(`[QueueWorker] Job ${job.id} exhausted ${attempts} attempts, moving to dead letter: ${error}`);
+      await this.dbManager.finishJob(job.id, 'dead_letter', error);
+      return;
+    }
+
+    const delay = getRetryDelay(policy, job.retryCount);
+    await this.dbManager.scheduleRetry(job.id, error, new Date(Date.now() + delay));
+  }
+}
@@ -0,0 +1,152 @@
+import { decodeImage, GrayImage } from './image-decoder.js';
+import { DitherMethod, ImageRasterOptions, RasterFormat } from './types.js';
+
+/** One bit per dot, rows padded to whole bytes, most significant bit first, 1 = black. */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Buffer;
+}
+
+export const DEFAULT_MAX_PRINT_WIDTH = 576;
+
+/**
+ * Rows per `GS v 0` command. The command allows far more, but many printers
+ * only buffer a few hundred rows of raster data at a time.
+ */
+const ESCPOS_BAND_HEIGHT = 256;
+
+const DITHER_METHODS: DitherMethod[] = ['floyd-steinberg', 'threshold'];
+
+/**
+ * Decode a PNG or JPEG, scale it to the print width and reduce it to black
+ * and white dots. Images narrower than `maxPrintWidth` keep their size
+ * unless `width` asks for another.
+ */
+export function rasterizeImage(image: Buffer, options: ImageRasterOptions = {}): MonoBitmap {
+  const maxPrintWidth = options.maxPrintWidth ?? DEFAULT_MAX_PRINT_WIDTH;
+  if (!Number.isInteger(maxPrintWidth) || maxPrintWidth < 1) {
+    throw new Error(`maxPrintWidth must be a positive integer, got ${maxPrintWidth}`);
+  }
+  if (options.width !== undefined && (!Number.isInteger(options.width) || options.width < 1 || options.width > maxPrintWidth)) {
+    throw new Error(`width must be an integer from 1 to ${maxPrintWidth}, got ${options.width}`);
+  }
+  const dither = options.dither ?? 'floyd-steinberg';
+  if (!DITHER_METHODS.includes(dither)) {
+    throw new Error(`Unknown dither method "${dither}"`);
+  }
+  const threshold = options.threshold ?? 128;
+  if (typeof threshold !== 'number' || threshold < 0 || threshold > 255) {
+    throw new Error(`threshold must be from 0 to 255, got ${threshold}`);
+  }
+
+  const decoded = decodeImage(image);
+  const width = options.width ?? Math.min(decoded.width, maxPrintWidth);
+  const height = Math.max(1, Math.round((decoded.height * width) / decoded.width));
+  const scaled = width === decoded.width && height === decoded.height ? decoded : scaleImage(decoded, width, height);
+  return toMonochrome(scaled, dither, threshold);
+}
+
+/** Rasterize an image and wrap it in the graphics command of `format`. */
+export function imageToPrinterData(image: Buffer, format: RasterFormat, options: ImageRasterOptions = {}): Buffer {
+  switch (format) {
+    case 'escpos':
+      return escPosRaster(rasterizeImage(image, options));
+    case 'zpl':
+      return zplGraphicLabel(rasterizeImage(image, options));
+    case 'epl':
+      return eplGraphicLabel(rasterizeImage(image, options));
+    default:
+      throw new Error(`Images can be printed as escpos, zpl or epl, not ${format}`);
+  }
+}
+
+/** `GS v 0` raster bit images, split into bands. */
+export function escPosRaster(bitmap: MonoBitmap): Buffer {
+  const parts: Buffer[] = [];
+  for (let top = 0; top < bitmap.height; top += ESCPOS_BAND_HEIGHT) {
+    const rows = Math.min(ESCPOS_BAND_HEIGHT, bitmap.height - top);
+    parts.push(Buffer.from([
+      0x1d, 0x76, 0x30, 0,
+      bitmap.bytesPerRow & 0xff, bitmap.bytesPerRow >> 8,
+      rows & 0xff, rows >> 8,
+    ]));
+    parts.push(bitmap.data.subarray(top * bitmap.bytesPerRow, (top + rows) * bitmap.bytesPerRow));
+  }
+  return Buffer.concat(parts);
+}
+
+/** A ZPL label holding the image as an ASCII hex `^GF` graphic field at `x`,`y`. */
+export function zplGraphicLabel(bitmap: MonoBitmap, x = 0, y = 0): Buffer {
+  const total = bitmap.data.length;
+  const hex = bitmap.data.toString('hex').toUpperCase();
+  return Buffer.from(`^XA^FO${x},${y}^GFA,${total},${total},${bitmap.bytesPerRow},${hex}^FS^XZ`, 'ascii');
+}
+
+/**
+ * An EPL label holding the image as a `GW` direct graphic write at `x`,`y`.
+ * EPL takes a 0 bit as black, the opposite of ESC/POS and ZPL.
+ */
+export function eplGraphicLabel(bitmap: MonoBitmap, x = 0, y = 0): Buffer {
+  const inverted = Buffer.from(bitmap.data.map(byte => ~byte & 0xff));
+  return Buffer.concat([
+    Buffer.from(`N\nGW${x},${y},${bitmap.bytesPerRow},${bitmap.height},`, 'ascii'),
+    inverted,
+    Buffer.from('\nP1\n', 'ascii'),
+  ]);
+}
+
+/**
+ * Resize by averaging the source pixels each target pixel covers, which
+ * keeps thin lines from vanishing when a logo is shrunk. Enlarging picks the
+ * nearest pixel.
+ */
+function scaleImage(image: GrayImage, width: number, height: number): GrayImage {
+  const pixels = new Uint8Array(width * height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.min(image.height, Math.max(top + 1, Math.floor((y + 1) * scaleY)));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.min(image.width, Math.max(left + 1, Math.floor((x + 1) * scaleX)));
+      let sum = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) sum += image.pixels[sy * image.width + sx];
+      }
+      pixels[y * width + x] = Math.round(sum / ((bottom - top) * (right - left)));
+    }
+  }
+  return { width, height, pixels };
+}
+
+function toMonochrome(image: GrayImage, dither: DitherMethod, threshold: number): MonoBitmap {
+  const { width, height } = image;
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = Buffer.alloc(bytesPerRow * height);
+  const levels = Float32Array.from(image.pixels);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = levels[i] < threshold;
+      if (black) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+      if (dither === 'threshold') continue;
+
+      // Floyd-Steinberg: push the rounding error onto pixels not yet visited
+      const error = levels[i] - (black ? 0 : 255);
+      if (x + 1 < width) levels[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) levels[i + width - 1] += (error * 3) / 16;
+        levels[i + width] += (error * 5) / 16;
+        if (x + 1 < width) levels[i + width + 1] += error / 16;
+      }
+    }
+  }
+  return { width, height, bytesPerRow, data };
+}
@@ -0,0 +1,61 @@
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one. */
+  maxAttempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+  /** Errors matching any of these patterns are worth retrying; anything else fails the job immediately. */
+  retryableErrors: RegExp[];
+}
+
+/**
+ * Transient transport failures: the device may come back, so the job is retried.
+ * Validation errors and similar "bad request" failures are not listed and fail fast.
+ */
+export const TRANSIENT_ERROR_PATTERNS: RegExp[] = [
+  /timeout/i,
+  /timed out/i,
+  /ECONNREFUSED/,
+  /ECONNRESET/,
+  /EHOSTUNREACH/,
+  /ENETUNREACH/,
+  /EPIPE/,
+  /socket hang up/i,
+  /is not connected/i,
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffMultiplier: 2,
+  retryableErrors: TRANSIENT_ERROR_PATTERNS,
+};
+
+export const DEFAULT_RETRY_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  'print': { maxAttempts: 5, maxDelay: 60000 },
+  'network.send': { maxAttempts: 3 },
+};
+
+export function resolveRetryPolicy(
+  operation: string,
+  overrides?: Record<string, Partial<RetryPolicy>>
+): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...DEFAULT_RETRY_POLICIES[operation],
+    ...overrides?.[operation],
+  };
+}
+
+export function isRetryableError(policy: RetryPolicy, error: string): boolean {
+  return policy.retryableErrors.some(pattern => pattern.test(error));
+}
+
+/**
+ * Delay before the next attempt, given how many retries already happened.
+ */
+export function getRetryDelay(policy: RetryPolicy, retryCount: number): number {
+  const delay = policy.initialDelay * Math.pow(policy.backoffMultiplier, retryCount);
+  return Math.min(delay, policy.maxDelay);
+}
@@ -0,0 +1,151 @@
+import { FramingOptions, ScaleProtocol, ScaleReading, SerialPortConfig, WeightUnit } from './types.js';
+
+/** What a driver makes of one frame; the caller adds the device id and time. */
+export type ParsedReading = Omit<ScaleReading, 'deviceId' | 'timestamp'>;
+
+export interface ScaleDriver {
+  protocol: ScaleProtocol;
+  /** Line settings the scale ships with; request params override them. */
+  lineSettings: Partial<Omit<SerialPortConfig, 'framing'>>;
+  framing: FramingOptions;
+  /** The scale sends readings by itself rather than when asked. */
+  continuous: boolean;
+  /** Asks a request-response scale for a reading. */
+  weighCommand?: Buffer;
+  tareCommand: Buffer;
+  zeroCommand: Buffer;
+  /** The reading in a frame, or undefined for frames that are not readings. */
+  parse(frame: Buffer): ParsedReading | undefined;
+}
+
+export const SCALE_PROTOCOLS: ScaleProtocol[] = ['toledo', 'toledo-continuous', 'generic'];
+
+const CR = 0x0d;
+const UNITS: Record<string, WeightUnit> = { kg: 'kg', g: 'g', lb: 'lb', lbs: 'lb', oz: 'oz' };
+
+/**
+ * The driver for `protocol`. Toledo request-response replies carry no unit,
+ * so `unit` says what the scale is set to (pounds by default).
+ */
+export function getScaleDriver(protocol: string, unit?: string): ScaleDriver {
+  switch (protocol) {
+    case 'toledo':
+      return toledoDriver(readUnit(unit ?? 'lb'));
+    case 'toledo-continuous':
+      return toledoContinuousDriver;
+    case 'generic':
+      return genericDriver;
+    default:
+      throw new Error(`Unknown scale protocol ${protocol}; expected one of ${SCALE_PROTOCOLS.join(', ')}`);
+  }
+}
+
+function readUnit(value: string): WeightUnit {
+  const unit = UNITS[value.toLowerCase()];
+  if (!unit) {
+    throw new Error(`unit must be one of ${Object.keys(UNITS).join(', ')}`);
+  }
+  return unit;
+}
+
+/** Status byte bits of a Toledo `?` reply */
+const TOLEDO_MOTION = 0x01;
+const TOLEDO_OVER_CAPACITY = 0x02;
+const TOLEDO_UNDER_ZERO = 0x04;
+
+function toledoDriver(unit: WeightUnit): ScaleDriver {
+  return {
+    protocol: 'toledo',
+    lineSettings: { baudRate: 9600, dataBits: 7, parity: 'Even', stopBits: '1' },
+    framing: { mode: 'stx-etx', start: 0x02, end: CR },
+    continuous: false,
+    weighCommand: Buffer.from('W'),
+    tareCommand: Buffer.from('T'),
+    zeroCommand: Buffer.from('Z'),
+    parse(frame) {
+      const text = frame.toString('latin1');
+      if (text.startsWith('?')) {
+        const status = text.charCodeAt(1) || 0;
+        return {
+          weight: null,
+          unit,
+          stable: (status & TOLEDO_MOTION) === 0,
+          net: false,
+          overload: (status & TOLEDO_OVER_CAPACITY) !== 0,
+          underload: (status & TOLEDO_UNDER_ZERO) !== 0,
+        };
+      }
+      const match = /^\s*([+-]?\d*\.?\d+)\s*$/.exec(text);
+      if (!match) return undefined;
+      // The scale only answers with a weight once it has settled
+      return { weight: Number(match[1]), unit, stable: true, net: false, overload: false, underload: false };
+    },
+  };
+}
+
+/** Places after the decimal point for each code in status byte A; negative codes are trailing zeros. */
+const TOLEDO_DECIMALS = [-2, -1, 0, 1, 2, 3, 4, 5];
+/** Status byte B bits */
+const TOLEDO_NET = 0x01;
+const TOLEDO_NEGATIVE = 0x02;
+const TOLEDO_OUT_OF_RANGE = 0x04;
+const TOLEDO_IN_MOTION = 0x08;
+const TOLEDO_KG = 0x10;
+
+const toledoContinuousDriver: ScaleDriver = {
+  protocol: 'toledo-continuous',
+  lineSettings: { baudRate: 9600, dataBits: 7, parity: 'Even', stopBits: '1' },
+  // The checksum byte some indicators send after CR falls outside the frame
+  framing: { mode: 'stx-etx', start: 0x02, end: CR },
+  continuous: true,
+  tareCommand: Buffer.from('T'),
+  zeroCommand: Buffer.from('Z'),
+  parse(frame) {
+    const text = frame.toString('latin1');
+    const match = /^(.)(.)(.)(\d{6})(\d{6})$/.exec(text);
+    if (!match) return undefined;
+
+    const decimals = TOLEDO_DECIMALS[text.charCodeAt(0) & 0x07];
+    const statusB = text.charCodeAt(1);
+    const scaled = (digits: string) => (decimals >= 0 ? Number(digits) / 10 ** decimals : Number(digits) * 10 ** -decimals);
+    const outOfRange = (statusB & TOLEDO_OUT_OF_RANGE) !== 0;
+    const negative = (statusB & TOLEDO_NEGATIVE) !== 0;
+    const weight = scaled(match[4]);
+    return {
+      weight: negative ? -weight : weight,
+      unit: statusB & TOLEDO_KG ? 'kg' : 'lb',
+      stable: (statusB & TOLEDO_IN_MOTION) === 0,
+      net: (statusB & TOLEDO_NET) !== 0,
+      overload: outOfRange && !negative,
+      underload: outOfRange && negative,
+      tare: scaled(match[5]),
+    };
+  },
+};
+
+const genericDriver: ScaleDriver = {
+  protocol: 'generic',
+  lineSettings: { baudRate: 9600, dataBits: 8, parity: 'None', stopBits: '1' },
+  framing: { mode: 'line', delimiter: '\r\n' },
+  continuous: true,
+  tareCommand: Buffer.from('T\r\n'),
+  zeroCommand: Buffer.from('Z\r\n'),
+  parse(frame) {
+    // ST stable, US unstable, OL overload; GS gross, NT net
+    const match = /^\s*(ST|US|OL),(GS|GW|NT|NW),\s*([+-]?)\s*(\d*\.?\d+)\s*([a-zA-Z]+)\s*$/i.exec(frame.toString('latin1'));
+    const unit = match && UNITS[match[5].toLowerCase()];
+    if (!match || !unit) return undefined;
+
+    const state = match[1].toUpperCase();
+    const overload = state === 'OL';
+    const weight = Number(match[4]) * (match[3] === '-' ? -1 : 1);
+    return {
+      weight: overload ? null : weight,
+      unit,
+      stable: state === 'ST',
+      net: match[2].toUpperCase().startsWith('N'),
+      overload,
+      underload: false,
+    };
+  },
+};
@@ -0,0 +1,223 @@
+import { EventEmitter } from 'events';
+import { DeviceEvent, ScaleProtocol, ScaleReading, SerialPortConfig } from './types.js';
+import { SerialPortManager, readSerialConfig } from './serial-port-manager.js';
+import { ScaleDriver, getScaleDriver } from './scale-protocols.js';
+
+/** How often a watched request-response scale is asked for its weight. */
+export const DEFAULT_POLL_INTERVAL_MS = 500;
+/** Pause between asking a request-response scale again while waiting for it to settle. */
+const RETRY_DELAY_MS = 100;
+
+export interface ScaleReadOptions {
+  /** Give up after this many ms. */
+  timeout?: number;
+  /** Wait for a reading that is not in motion. */
+  stable?: boolean;
+}
+
+export interface ScaleSettings {
+  driver: ScaleDriver;
+  config: SerialPortConfig;
+}
+
+interface AttachedScale {
+  deviceId: string;
+  driver: ScaleDriver;
+  last?: ScaleReading;
+  /** Resolve pending reads with the next reading, or reject them when the scale goes away. */
+  waiters: Set<{ resolve: (reading: ScaleReading) => void; reject: (error: Error) => void }>;
+  poll?: NodeJS.Timeout;
+}
+
+/**
+ * Read and check the settings for a scale speaking `protocol`. Line settings
+ * in `params` override the driver's; `params.unit` is the unit of Toledo
+ * replies.
+ */
+export function readScaleSettings(protocol: string, params: any = {}): ScaleSettings {
+  const driver = getScaleDriver(protocol, params.unit);
+  const config = readSerialConfig({ ...driver.lineSettings, ...params, framing: driver.framing });
+  return { driver, config };
+}
+
+/**
+ * Weighing scales on serial ports. Each scale's port is opened with its
+ * driver's framing, and every frame is parsed into a `ScaleReading`. A
+ * 'scale-reading' event is emitted when the reading changes, so a scale that
+ * streams the same weight ten times a second reports it once.
+ */
+export class ScaleService extends EventEmitter {
+  private scales = new Map<string, AttachedScale>();
+
+  constructor(private serialManager: SerialPortManager) {
+    super();
+    this.serialManager.on('device-frame', (deviceId: string, frame: Buffer) => this.handleFrame(deviceId, frame));
+    this.serialManager.on('device-event', (event: DeviceEvent) => {
+      if (event.eventType === 'disconnected') {
+        this.detach(event.deviceId, new Error(`Scale ${event.deviceId} was disconnected`));
+      }
+    });
+  }
+
+  /** Open `path` for a scale, or switch an open one to new settings. */
+  async open(deviceId: string, path: string, { driver, config }: ScaleSettings): Promise<void> {
+    await this.serialManager.open(deviceId, path, config);
+    const existing = this.scales.get(deviceId);
+    if (existing) {
+      this.unwatch(deviceId);
+      existing.driver = driver;
+      existing.last = undefined;
+    } else {
+      this.scales.set(deviceId, { deviceId, driver, waiters: new Set() });
+    }
+  }
+
+  protocolOf(deviceId: string): ScaleProtocol | undefined {
+    return this.scales.get(deviceId)?.driver.protocol;
+  }
+
+  /** The scale's next reading; a request-response scale is asked for it. */
+  async read(deviceId: string, options: ScaleReadOptions = {}): Promise<ScaleReading> {
+    const scale = this.requireScale(deviceId);
+    const timeout = options.timeout ?? 5000;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const next = this.nextReading(scale, deadline - Date.now(), timeout);
+      // The reading can fail while the command is still being written; it is awaited below
+      next.reading.catch(() => undefined);
+      if (scale.driver.weighCommand) {
+        try {
+          await this.serialManager.write(deviceId, scale.driver.weighCommand);
+        } catch (error) {
+          next.cancel();
+          throw error;
+        }
+      }
+      const reading = await next.reading;
+      if (!options.stable || reading.stable) {
+        return reading;
+      }
+      if (scale.driver.weighCommand) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  /** Take the current load as tare, so readings are net weights. */
+  async tare(deviceId: string): Promise<void> {
+    const scale = this.requireScale(deviceId);
+    await this.serialManager.write(deviceId, scale.driver.tareCommand);
+  }
+
+  /** Set the current load as zero. */
+  async zero(deviceId: string): Promise<void> {
+    const scale = this.requireScale(deviceId);
+    await this.serialManager.write(deviceId, scale.driver.zeroCommand);
+  }
+
+  /**
+   * Keep readings coming without `read` calls: a request-response scale is
+   * polled every `interval` ms. Continuous scales need nothing.
+   */
+  watch(deviceId: string, interval: number = DEFAULT_POLL_INTERVAL_MS): void {
+    const scale = this.requireScale(deviceId);
+    const command = scale.driver.weighCommand;
+    if (!command || scale.poll) return;
+
+    scale.poll = setInterval(() => {
+      this.serialManager.write(deviceId, command).catch((error) => {
+        console.warn(`[ScaleService] Polling ${deviceId} failed:`, error.message);
+      });
+    }, interval);
+  }
+
+  unwatch(deviceId: string): void {
+    const scale = this.scales.get(deviceId);
+    if (scale?.poll) {
+      clearInterval(scale.poll);
+      scale.poll = undefined;
+    }
+  }
+
+  /** Forget the scale and close its port. */
+  async close(deviceId: string): Promise<void> {
+    this.detach(deviceId, new Error(`Scale ${deviceId} was closed`));
+    await this.serialManager.close(deviceId);
+  }
+
+  dispose(): void {
+    for (const deviceId of Array.from(this.scales.keys())) {
+      this.detach(deviceId, new Error(`Scale ${deviceId} was closed`));
+    }
+  }
+
+  // --- Private ---
+
+  private handleFrame(deviceId: string, frame: Buffer): void {
+    const scale = this.scales.get(deviceId);
+    if (!scale) return;
+
+    const parsed = scale.driver.parse(frame);
+    if (!parsed) return;
+    const reading: ScaleReading = { deviceId, ...parsed, timestamp: new Date() };
+
+    const waiters = Array.from(scale.waiters);
+    scale.waiters.clear();
+    waiters.forEach(waiter => waiter.resolve(reading));
+
+    if (!scale.last || !sameReading(scale.last, reading)) {
+      scale.last = reading;
+      this.emit('scale-reading', reading);
+    }
+  }
+
+  private nextReading(scale: AttachedScale, remaining: number, timeout: number): {
+    reading: Promise<ScaleReading>; cancel: () => void;
+  } {
+    let cancel: () => void = () => undefined;
+    const reading = new Promise<ScaleReading>((resolve, reject) => {
+      const waiter = {
+        resolve: (reading: ScaleReading) => {
+          clearTimeout(timer);
+          resolve(reading);
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        scale.waiters.delete(waiter);
+        reject(new Error(`Scale ${scale.deviceId} sent no reading within ${timeout} ms`));
+      }, Math.max(0, remaining));
+      scale.waiters.add(waiter);
+      cancel = () => {
+        clearTimeout(timer);
+        scale.waiters.delete(waiter);
+      };
+    });
+    return { reading, cancel };
+  }
+
+  private detach(deviceId: string, reason: Error): void {
+    const scale = this.scales.get(deviceId);
+    if (!scale) return;
+    this.unwatch(deviceId);
+    this.scales.delete(deviceId);
+    scale.waiters.forEach(waiter => waiter.reject(reason));
+  }
+
+  private requireScale(deviceId: string): AttachedScale {
+    const scale = this.scales.get(deviceId);
+    if (!scale) {
+      throw new Error(`Scale ${deviceId} is not open`);
+    }
+    return scale;
+  }
+}
+
+function sameReading(a: ScaleReading, b: ScaleReading): boolean {
+  return a.weight === b.weight && a.unit === b.unit && a.stable === b.stable && a.net === b.net
+    && a.overload === b.overload && a.underload === b.underload && a.tare === b.tare;
+}
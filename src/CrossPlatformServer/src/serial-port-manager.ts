@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as tty from 'tty';
+import { execFile } from 'child_process';
+import { EventEmitter } from 'events';
+import { DeviceEvent, SerialPortConfig, SerialPortStatus } from './types.js';
+import { Framer, createFramer, readFramingOptions } from './framing.js';
+
+export interface SerialPortManagerOptions {
+  /** `stty`, which applies the line settings; injectable for tests and unusual installs. */
+  sttyCommand?: string;
+}
+
+/** Received data kept for `read` per port; older data is dropped beyond this. */
+export const MAX_BUFFERED_BYTES = 64 * 1024;
+
+const PARITIES: SerialPortConfig['parity'][] = ['None', 'Odd', 'Even', 'Mark', 'Space'];
+const STOP_BITS: SerialPortConfig['stopBits'][] = ['1', '1.5', '2'];
+const FLOW_CONTROLS: SerialPortConfig['flowControl'][] = ['None', 'XOnXOff', 'RequestToSend', 'RequestToSendXOnXOff'];
+
+interface OpenPort {
+  deviceId: string;
+  path: string;
+  config: SerialPortConfig;
+  stream: tty.ReadStream;
+  framer: Framer;
+  /** Unread data of a raw port */
+  received: Buffer;
+  /** Unread messages of a framed port */
+  frames: Buffer[];
+  /** Resolves pending `read` calls when data arrives. */
+  waiters: Set<() => void>;
+  bytesRead: number;
+  bytesWritten: number;
+  openedAt: Date;
+  lastActivity: Date;
+}
+
+/**
+ * Read and check serial line settings from request params, defaulting to
+ * 9600 8N1 with incoming data passed on unframed.
+ */
+export function readSerialConfig(params: any): SerialPortConfig {
+  const baudRate = params?.baudRate ?? 9600;
+  if (!Number.isInteger(baudRate) || baudRate <= 0) {
+    throw new Error('baudRate must be a positive integer');
+  }
+  const parity = params?.parity ?? 'None';
+  if (!PARITIES.includes(parity)) {
+    throw new Error(`parity must be one of ${PARITIES.join(', ')}`);
+  }
+  const dataBits = params?.dataBits ?? 8;
+  if (dataBits !== 7 && dataBits !== 8) {
+    throw new Error('dataBits must be 7 or 8');
+  }
+  const stopBits = String(params?.stopBits ?? '1') as SerialPortConfig['stopBits'];
+  if (!STOP_BITS.includes(stopBits)) {
+    throw new Error(`stopBits must be one of ${STOP_BITS.join(', ')}`);
+  }
+  const flowControl = params?.flowControl ?? 'None';
+  if (!FLOW_CONTROLS.includes(flowControl)) {
+    throw new Error(`flowControl must be one of ${FLOW_CONTROLS.join(', ')}`);
+  }
+  const framing = readFramingOptions(params?.framing);
+  return { baudRate, parity, dataBits, stopBits, flowControl, framing };
+}
+
+function bufferedBytes(port: OpenPort): number {
+  return port.frames.reduce((total, frame) => total + frame.length, port.received.length);
+}
+
+/**
+ * `stty` settings for `config`: raw I/O without echo or line editing,
+ * ignoring modem control lines so a port without carrier still works.
+ */
+export function buildSttyArguments(config: Omit<SerialPortConfig, 'framing'>): string[] {
+  if (config.stopBits === '1.5') {
+    // termios only has 1.5 stop bits for 5-bit characters
+    throw new Error('1.5 stop bits are not supported with 7 or 8 data bits');
+  }
+
+  const parity: Record<SerialPortConfig['parity'], string[]> = {
+    None: ['-parenb'],
+    Even: ['parenb', '-parodd', '-cmspar'],
+    Odd: ['parenb', 'parodd', '-cmspar'],
+    Mark: ['parenb', 'parodd', 'cmspar'],
+    Space: ['parenb', '-parodd', 'cmspar'],
+  };
+  const rtscts = config.flowControl === 'RequestToSend' || config.flowControl === 'RequestToSendXOnXOff';
+  const xonxoff = config.flowControl === 'XOnXOff' || config.flowControl === 'RequestToSendXOnXOff';
+
+  return [
+    String(config.baudRate),
+    'raw', '-echo', 'clocal',
+    `cs${config.dataBits}`,
+    ...parity[config.parity],
+    config.stopBits === '2' ? 'cstopb' : '-cstopb',
+    rtscts ? 'crtscts' : '-crtscts',
+    ...(xonxoff ? ['ixon', 'ixoff'] : ['-ixon', '-ixoff']),
+  ];
+}
+
+/**
+ * Serial ports opened by device id (Linux only). Line settings are applied
+ * with `stty` and the port is read and written through a non-blocking TTY
+ * stream. Incoming data is emitted as 'device-data' and, cut into messages by
+ * the port's framing, as 'device-frame'; it is also buffered for `read`.
+ * Written data is emitted as 'device-sent' once the driver has taken it. A
+ * port that goes away (e.g. a USB adapter unplugged) emits a 'disconnected'
+ * 'device-event'.
+ */
+export class SerialPortManager extends EventEmitter {
+  private ports = new Map<string, OpenPort>();
+  private sttyCommand: string;
+
+  constructor(options: SerialPortManagerOptions = {}) {
+    super();
+    this.sttyCommand = options.sttyCommand ?? 'stty';
+  }
+
+  /** Open `path` for `deviceId`, or apply new settings if it is already open. */
+  async open(deviceId: string, path: string, config: SerialPortConfig): Promise<SerialPortStatus> {
+    if (process.platform !== 'linux') {
+      throw new Error(`Serial ports are not supported on ${process.platform} yet`);
+    }
+    const sttyArgs = buildSttyArguments(config);
+
+    const existing = this.ports.get(deviceId);
+    if (existing) {
+      await this.configure(existing.path, sttyArgs);
+      existing.config = config;
+      // Unread data was cut up for the old framing
+      existing.framer = createFramer(config.framing);
+      existing.received = Buffer.alloc(0);
+      existing.frames = [];
+      return this.toStatus(existing);
+    }
+
+    const fd = await new Promise<number>((resolve, reject) => {
+      fs.open(path, fs.constants.O_RDWR | fs.constants.O_NOCTTY | fs.constants.O_NONBLOCK, (error, opened) => {
+        if (error) reject(new Error(`Could not open ${path}: ${error.message}`));
+        else resolve(opened);
+      });
+    });
+    if (!tty.isatty(fd)) {
+      fs.closeSync(fd);
+      throw new Error(`${path} is not a serial port`);
+    }
+
+    try {
+      await this.configure(path, sttyArgs);
+    } catch (error) {
+      fs.closeSync(fd);
+      throw error;
+    }
+
+    const now = new Date();
+    const port: OpenPort = {
+      deviceId,
+      path,
+      config,
+      stream: new tty.ReadStream(fd),
+      framer: createFramer(config.framing),
+      received: Buffer.alloc(0),
+      frames: [],
+      waiters: new Set(),
+      bytesRead: 0,
+      bytesWritten: 0,
+      openedAt: now,
+      lastActivity: now,
+    };
+    this.ports.set(deviceId, port);
+    this.attach(port);
+
+    this.emitDeviceEvent({
+      eventType: 'connected',
+      deviceId,
+      deviceType: 'serial',
+      timestamp: now,
+      data: { portName: path },
+    });
+    return this.toStatus(port);
+  }
+
+  async close(deviceId: string): Promise<boolean> {
+    const port = this.ports.get(deviceId);
+    if (!port) return false;
+
+    this.ports.delete(deviceId);
+    if (!port.stream.closed) {
+      await new Promise<void>((resolve) => {
+        port.stream.once('close', () => resolve());
+        port.stream.destroy();
+      });
+    }
+    port.waiters.forEach(wake => wake());
+    this.emitDeviceEvent({
+      eventType: 'disconnected',
+      deviceId,
+      deviceType: 'serial',
+      timestamp: new Date(),
+      data: { reason: 'closed' },
+    });
+    return true;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.ports.keys()).map(deviceId => this.close(deviceId)));
+  }
+
+  /** Resolves once the driver has taken the data. */
+  async write(deviceId: string, data: Buffer): Promise<number> {
+    const port = this.requirePort(deviceId);
+    await new Promise<void>((resolve, reject) => {
+      port.stream.write(data, (error) => {
+        if (error) reject(error);
+        else resolve();
+      });
+    });
+    port.bytesWritten += data.length;
+    port.lastActivity = new Date();
+    this.emit('device-sent', deviceId, data);
+    return data.length;
+  }
+
+  /**
+   * Take up to `maxBytes` of received data, or the next message if the port
+   * has framing, waiting up to `timeout` ms for some to arrive. Resolves with
+   * an empty buffer if none does.
+   */
+  async read(deviceId: string, maxBytes: number, timeout: number): Promise<Buffer> {
+    const port = this.requirePort(deviceId);
+    const framed = port.config.framing.mode !== 'raw';
+    const hasData = () => (framed ? port.frames.length > 0 : port.received.length > 0);
+    if (!hasData() && timeout > 0) {
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timer);
+          port.waiters.delete(wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, timeout);
+        port.waiters.add(wake);
+      });
+    }
+
+    if (framed) {
+      return port.frames.shift() ?? Buffer.alloc(0);
+    }
+    const data = port.received.subarray(0, maxBytes);
+    port.received = port.received.subarray(data.length);
+    return Buffer.from(data);
+  }
+
+  getStatus(deviceId: string): SerialPortStatus | undefined {
+    const port = this.ports.get(deviceId);
+    return port ? this.toStatus(port) : undefined;
+  }
+
+  isOpen(deviceId: string): boolean {
+    return this.ports.has(deviceId);
+  }
+
+  // --- Private ---
+
+  private attach(port: OpenPort): void {
+    port.stream.on('data', (chunk: Buffer) => {
+      port.bytesRead += chunk.length;
+      port.lastActivity = new Date();
+      const frames = port.framer.push(chunk);
+      if (port.config.framing.mode === 'raw') {
+        const received = Buffer.concat([port.received, chunk]);
+        port.received = received.subarray(Math.max(0, received.length - MAX_BUFFERED_BYTES));
+      } else {
+        port.frames.push(...frames.map(frame => Buffer.from(frame)));
+        while (bufferedBytes(port) > MAX_BUFFERED_BYTES) {
+          port.frames.shift();
+        }
+      }
+      port.waiters.forEach(wake => wake());
+      this.emit('device-data', port.deviceId, chunk);
+      for (const frame of frames) {
+        this.emit('device-frame', port.deviceId, frame);
+      }
+    });
+
+    // A device that goes away shows up as EOF or EIO, and the stream closes itself
+    let failure: Error | undefined;
+    port.stream.on('error', (error) => {
+      failure = error;
+    });
+    port.stream.on('close', () => {
+      if (this.ports.get(port.deviceId) !== port) return;
+      console.error(`[SerialPortManager] ${port.path} went away${failure ? `: ${failure.message}` : ''}`);
+      this.ports.delete(port.deviceId);
+      port.waiters.forEach(wake => wake());
+      this.emitDeviceEvent({
+        eventType: 'disconnected',
+        deviceId: port.deviceId,
+        deviceType: 'serial',
+        timestamp: new Date(),
+        data: failure ? { reason: 'error', error: failure.message } : { reason: 'hangup' },
+      });
+    });
+  }
+
+  private configure(path: string, sttyArgs: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile(this.sttyCommand, ['-F', path, ...sttyArgs], { timeout: 5000 }, (error, _stdout, stderr) => {
+        if (error) reject(new Error(`Could not configure ${path}: ${String(stderr).trim() || error.message}`));
+        else resolve();
+      });
+    });
+  }
+
+  private requirePort(deviceId: string): OpenPort {
+    const port = this.ports.get(deviceId);
+    if (!port) {
+      throw new Error(`Serial port ${deviceId} is not open`);
+    }
+    return port;
+  }
+
+  private toStatus(port: OpenPort): SerialPortStatus {
+    return {
+      deviceId: port.deviceId,
+      portName: port.path,
+      ...port.config,
+      isOpen: true,
+      bytesToRead: bufferedBytes(port),
+      bytesToWrite: port.stream.writableLength,
+      bytesRead: port.bytesRead,
+      bytesWritten: port.bytesWritten,
+      openedAt: port.openedAt,
+      lastActivity: port.lastActivity,
+    };
+  }
+
+  private emitDeviceEvent(event: DeviceEvent): void {
+    this.emit('device-event', event);
+  }
+}
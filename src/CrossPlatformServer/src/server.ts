@@ -2,6 +2,7 @@
 
 import { CrossPlatformWebSocketServer } from './websocket-server.js';
 import { DatabaseManager } from './database-manager.js';
+import { QueueService } from './queue-service.js';
 import { ServerConfig } from './types.js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -9,12 +10,14 @@ import * as path from 'path';
 class CrossPlatformHardwareBridgeServer {
   private wsServer: CrossPlatformWebSocketServer;
   private dbManager: DatabaseManager;
+  private queueService: QueueService;
   private config: ServerConfig;
 
   constructor() {
     this.config = this.loadConfig();
-    this.wsServer = new CrossPlatformWebSocketServer(this.config);
     this.dbManager = new DatabaseManager(this.config.databasePath);
+    this.queueService = new QueueService(this.dbManager, { retention: this.config.retention });
+    this.wsServer = new CrossPlatformWebSocketServer(this.config, this.queueService, this.dbManager);
   }
 
   private loadConfig(): ServerConfig {
@@ -70,8 +73,8 @@ class CrossPlatformHardwareBridgeServer {
       await this.wsServer.start();
       console.log(`WebSocket server started on ${this.config.host}:${this.config.port}`);
 
-      // Set up database integration
-      this.setupDatabaseIntegration();
+      // Start draining the job queue, including jobs left over from a previous run
+      this.queueService.start();
 
       console.log('Cross-Platform Hardware Bridge Server is running');
       console.log(`WebSocket URL: ws://${this.config.host}:${this.config.port}`);
@@ -83,52 +86,11 @@ class CrossPlatformHardwareBridgeServer {
     }
   }
 
-  private setupDatabaseIntegration(): void {
-    // Override WebSocket server methods to use database
-    const originalPrint = (this.wsServer as any).print.bind(this.wsServer);
-    (this.wsServer as any).print = async (params: any, connectionId: string) => {
-      const result = await originalPrint(params, connectionId);
-      
-      // Add job to queue
-      if (result.success) {
-        await this.dbManager.addJob(
-          params.deviceId,
-          'printer',
-          'print',
-          { data: params.data, format: params.format }
-        );
-      }
-      
-      return result;
-    };
-
-    (this.wsServer as any).getQueueStatus = async () => {
-      return await this.dbManager.getQueueStatus();
-    };
-
-    (this.wsServer as any).getQueueJobs = async (params: any) => {
-      return await this.dbManager.getJobs(
-        params?.deviceId,
-        params?.status,
-        params?.limit || 100
-      );
-    };
-
-    (this.wsServer as any).cancelQueueJob = async (params: any) => {
-      const jobId = params?.jobId;
-      if (!jobId) {
-        throw new Error('Job ID is required');
-      }
-      
-      await this.dbManager.updateJobStatus(jobId, 'cancelled');
-      return { success: true };
-    };
-  }
-
   async stop(): Promise<void> {
     console.log('Stopping Cross-Platform Hardware Bridge Server...');
     
     try {
+      await this.queueService.stop();
       await this.wsServer.stop();
       await this.dbManager.close();
       console.log('Server stopped successfully');
@@ -0,0 +1,107 @@
+import * as net from 'net';
+
+/** Bytes handed to the socket per write. */
+export const WRITE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Write `data` in chunks, waiting for `drain` whenever the socket's buffer is
+ * full, so a slow printer never has a whole multi-megabyte job queued in
+ * memory. `data` may also be a run of buffers, read only as fast as the
+ * socket takes them. `onProgress` gets the running total each time a chunk
+ * has been handed to the operating system. Rejects if the socket errors or
+ * closes before everything is written, or with "Cancelled" once `signal`
+ * aborts; chunks already handed over still go out, the rest are never written.
+ */
+export function writeChunked(
+  socket: net.Socket,
+  data: Buffer | Iterable<Buffer>,
+  onProgress?: (bytesWritten: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const chunks = chunksOf(data);
+    let next = chunks.next();
+    let offset = 0;
+    let done = false;
+
+    const cleanup = () => {
+      done = true;
+      socket.off('error', onError);
+      socket.off('close', onClose);
+      socket.off('drain', writeNext);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Connection closed before all data was sent'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new Error('Cancelled'));
+    };
+
+    function writeNext(): void {
+      while (!done && !next.done) {
+        const chunk = next.value;
+        next = chunks.next();
+        const last = next.done === true;
+        offset += chunk.length;
+        const written = offset;
+        const flushed = socket.write(chunk, (error) => {
+          if (error || done) return; // errors are reported through the 'error' event
+          onProgress?.(written);
+          if (last) {
+            cleanup();
+            resolve(written);
+          }
+        });
+        if (!flushed) {
+          socket.once('drain', writeNext);
+          return;
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+    if (next.done) {
+      resolve(0);
+      return;
+    }
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    signal?.addEventListener('abort', onAbort);
+    writeNext();
+  });
+}
+
+/**
+ * `data` cut into chunks of at most `WRITE_CHUNK_SIZE`. Small parts are
+ * joined into one chunk, so many short copies do not mean as many writes.
+ */
+function* chunksOf(data: Buffer | Iterable<Buffer>): Generator<Buffer> {
+  let pending: Buffer[] = [];
+  let pendingLength = 0;
+  for (const part of Buffer.isBuffer(data) ? [data] : data) {
+    for (let offset = 0; offset < part.length;) {
+      const piece = part.subarray(offset, offset + WRITE_CHUNK_SIZE - pendingLength);
+      offset += piece.length;
+      pending.push(piece);
+      pendingLength += piece.length;
+      if (pendingLength === WRITE_CHUNK_SIZE) {
+        yield pending.length === 1 ? pending[0] : Buffer.concat(pending);
+        pending = [];
+        pendingLength = 0;
+      }
+    }
+  }
+  if (pendingLength > 0) {
+    yield pending.length === 1 ? pending[0] : Buffer.concat(pending);
+  }
+}
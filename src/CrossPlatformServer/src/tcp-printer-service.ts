@@ -1,25 +1,68 @@
 import * as net from 'net';
+import { execFile } from 'child_process';
 import { NetworkDeviceManager } from './network-device-manager.js';
 import { PrintResult } from './types.js';
 import { PrintJobState } from './network-types.js';
+import { IppClient, IppJobStatus, IPP_FINAL_JOB_STATES } from './ipp-client.js';
+import { LprClient } from './lpr-client.js';
+import { OutputOptions, buildLpArguments, expandCopies } from './print-options.js';
+import { writeChunked } from './socket-writer.js';
+import { UEL } from './pjl.js';
 
-interface PrintOptions {
+interface PrintOptions extends Partial<OutputOptions> {
   format?: 'raw' | 'escpos' | 'zpl' | 'epl';
-  copies?: number;
   timeout?: number;
+  /** IPP only: MIME type of `data`; printer-native data is sent as `application/octet-stream`. */
+  documentFormat?: string;
+  /** RAW only: called as data is written, at most every PROGRESS_INTERVAL_MS and once at the end. */
+  onProgress?: (job: PrintJobState) => void;
+  /** RAW only: cancels the job like `cancelJob` when aborted. */
+  signal?: AbortSignal;
+  /** RAW only: after a cancel, send the printer the reset for `format` (see CANCEL_RESETS). */
+  resetOnCancel?: boolean;
+}
+
+/** Minimum time between progress reports for one job. */
+export const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * How long to wait for the printer to close its side after we half-close
+ * ours. Most printers close as soon as they have read the job; the rest are
+ * assumed to have it once this passes.
+ */
+const CLOSE_GRACE_MS = 1000;
+
+/**
+ * What to send a printer after cancelling a job part way, so it drops what it
+ * already buffered instead of printing half a job. ZPL's Cancel All clears
+ * every queued label; the UEL ends the PCL or PostScript job on PJL printers.
+ */
+const CANCEL_RESETS: Partial<Record<NonNullable<PrintOptions['format']>, string>> = {
+  zpl: '~JA',
+  raw: UEL,
+};
+
+export interface TcpPrinterServiceOptions {
+  /** The CUPS `lp` command; a service started without a login PATH may need `/usr/bin/lp`. */
+  lpCommand?: string;
 }
 
 export class TcpPrinterService {
   private networkManager: NetworkDeviceManager;
   private activeJobs = new Map<string, PrintJobState>();
+  private transfers = new Map<string, AbortController>();
+  private lpCommand: string;
 
-  constructor(networkManager: NetworkDeviceManager) {
+  constructor(networkManager: NetworkDeviceManager, options: TcpPrinterServiceOptions = {}) {
     this.networkManager = networkManager;
+    this.lpCommand = options.lpCommand ?? 'lp';
   }
 
   /**
    * Print data to a network printer via RAW socket (port 9100).
-   * Opens a temporary connection, sends data, and closes.
+   * Opens a temporary connection, streams the data and closes it gracefully.
+   * The printer only sees bytes, so copies are sent as repeated data, one
+   * copy after the other rather than all of them held in memory.
    */
   async printRaw(
     deviceId: string,
@@ -28,7 +71,12 @@ export class TcpPrinterService {
     data: string | Buffer,
     options?: PrintOptions
   ): Promise<PrintResult> {
-    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const copies = expandCopies(
+      Buffer.isBuffer(data) ? data : Buffer.from(data),
+      options?.format,
+      options?.copies ?? 1,
+      options?.collate ?? true
+    );
     const timeout = options?.timeout ?? 10000;
     const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
 
@@ -37,41 +85,31 @@ export class TcpPrinterService {
       deviceId,
       status: 'sending',
       bytesSent: 0,
-      totalBytes: buffer.length,
+      totalBytes: copies.length,
       startedAt: new Date(),
     };
     this.activeJobs.set(jobId, jobState);
+    const onProgress = this.progressReporter(jobState, options?.onProgress);
+
+    const transfer = new AbortController();
+    const abort = () => this.cancelJob(jobId);
+    this.transfers.set(jobId, transfer);
+    options?.signal?.addEventListener('abort', abort);
+    if (options?.signal?.aborted) abort();
 
     try {
-      // Check if device is already connected via the network manager
-      if (this.networkManager.isConnected(deviceId)) {
-        const result = await this.networkManager.sendData(deviceId, buffer);
-        if (result.success) {
-          jobState.status = 'sent';
-          jobState.bytesSent = result.bytesWritten;
-          jobState.completedAt = new Date();
-          return {
-            success: true,
-            jobId,
-            bytesPrinted: result.bytesWritten,
-            timestamp: new Date(),
-          };
-        } else {
-          jobState.status = 'error';
-          jobState.error = result.error;
-          return {
-            success: false,
-            jobId,
-            bytesPrinted: 0,
-            error: result.error,
-            timestamp: new Date(),
-          };
+      // A device connected through the network manager keeps its socket; others get a temporary one
+      const result = this.networkManager.isConnected(deviceId)
+        ? await this.networkManager.sendData(deviceId, copies.parts(), onProgress, transfer.signal)
+        : await this.sendViaTemporarySocket(host, port, copies.parts(), timeout, onProgress, transfer.signal);
+
+      if (transfer.signal.aborted) {
+        if (options?.resetOnCancel) {
+          await this.sendCancelReset(deviceId, host, port, options.format ?? 'raw');
         }
+        return { success: false, jobId, bytesPrinted: 0, error: 'Cancelled', timestamp: new Date() };
       }
 
-      // Otherwise, open a temporary socket for this print job
-      const result = await this.sendViaTemporarySocket(host, port, buffer, timeout);
-
       if (result.success) {
         jobState.status = 'sent';
         jobState.bytesSent = result.bytesWritten;
@@ -104,67 +142,338 @@ export class TcpPrinterService {
         error: message,
         timestamp: new Date(),
       };
+    } finally {
+      this.transfers.delete(jobId);
+      options?.signal?.removeEventListener('abort', abort);
     }
   }
 
+  /**
+   * Submit data to an IPP printer with Print-Job. The job is tracked like a
+   * RAW job; its printer-side state can be refreshed with `refreshJobStatus`.
+   */
+  async printIpp(
+    deviceId: string,
+    printerUri: string,
+    data: string | Buffer,
+    options?: PrintOptions
+  ): Promise<PrintResult> {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+    const jobState: PrintJobState = {
+      jobId,
+      deviceId,
+      status: 'sending',
+      bytesSent: 0,
+      totalBytes: buffer.length,
+      startedAt: new Date(),
+    };
+    this.activeJobs.set(jobId, jobState);
+
+    try {
+      const client = new IppClient(printerUri, { timeout: options?.timeout ?? 10000 });
+      const ippJob = await client.printJob(buffer, {
+        jobName: options?.jobName ?? jobId,
+        documentFormat: options?.documentFormat,
+        copies: options?.copies,
+        collate: options?.collate,
+      });
+
+      jobState.status = 'sent';
+      jobState.bytesSent = buffer.length;
+      jobState.completedAt = new Date();
+      this.applyIppStatus(jobState, printerUri, ippJob);
+      return {
+        success: true,
+        jobId,
+        bytesPrinted: buffer.length,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'IPP print failed';
+      jobState.status = 'error';
+      jobState.error = message;
+      return {
+        success: false,
+        jobId,
+        bytesPrinted: 0,
+        error: message,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Submit data to an LPD print queue (RFC 1179), for printers that do not
+   * accept RAW or IPP connections.
+   */
+  async printLpd(
+    deviceId: string,
+    host: string,
+    port: number,
+    queueName: string,
+    data: string | Buffer,
+    options?: PrintOptions
+  ): Promise<PrintResult> {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+    const jobState: PrintJobState = {
+      jobId,
+      deviceId,
+      status: 'sending',
+      bytesSent: 0,
+      totalBytes: buffer.length,
+      startedAt: new Date(),
+    };
+    this.activeJobs.set(jobId, jobState);
+
+    try {
+      // LPD prints each copy of a file whole; uncollated copies have to be in the data
+      const copies = options?.copies ?? 1;
+      const uncollated = copies > 1 && options?.collate === false;
+      const client = new LprClient(host, port, { timeout: options?.timeout ?? 10000 });
+      const result = await client.printJob(queueName, uncollated ? expandCopies(buffer, options?.format, copies, false) : buffer, {
+        jobName: options?.jobName ?? jobId,
+        copies: uncollated ? 1 : copies,
+      });
+
+      jobState.status = 'sent';
+      jobState.bytesSent = result.bytesSent;
+      jobState.completedAt = new Date();
+      return {
+        success: true,
+        jobId,
+        bytesPrinted: result.bytesSent,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'LPD print failed';
+      jobState.status = 'error';
+      jobState.error = message;
+      return {
+        success: false,
+        jobId,
+        bytesPrinted: 0,
+        error: message,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Print through the local CUPS scheduler with `lp`, which handles copies,
+   * collation and `cupsOptions` such as `media` or `fit-to-page` itself. The
+   * job is tracked under the CUPS request id when `lp` reports one.
+   */
+  async printCups(
+    deviceId: string,
+    printerName: string,
+    data: string | Buffer,
+    options?: PrintOptions
+  ): Promise<PrintResult> {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    let jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+    const jobState: PrintJobState = {
+      jobId,
+      deviceId,
+      status: 'sending',
+      bytesSent: 0,
+      totalBytes: buffer.length,
+      startedAt: new Date(),
+    };
+    this.activeJobs.set(jobId, jobState);
+
+    const output = await new Promise<{ error?: string; stdout: string }>((resolve) => {
+      const child = execFile(this.lpCommand, buildLpArguments(printerName, options), { timeout: options?.timeout ?? 15000 }, (error, stdout) => {
+        resolve({ error: error ? `CUPS print failed: ${error.message}` : undefined, stdout: String(stdout) });
+      });
+      // lp may exit before reading everything; the exit status reports why
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(buffer);
+    });
+
+    if (output.error) {
+      jobState.status = 'error';
+      jobState.error = output.error;
+      return { success: false, jobId, bytesPrinted: 0, error: output.error, timestamp: new Date() };
+    }
+
+    // "request id is PRINTER-123 (1 file(s))"
+    const requestId = output.stdout.match(/request id is (\S+)/)?.[1];
+    if (requestId) {
+      this.activeJobs.delete(jobId);
+      jobId = requestId;
+      jobState.jobId = requestId;
+      this.activeJobs.set(requestId, jobState);
+    }
+    jobState.status = 'sent';
+    jobState.bytesSent = buffer.length;
+    jobState.completedAt = new Date();
+    return { success: true, jobId, bytesPrinted: buffer.length, timestamp: new Date() };
+  }
+
   getJobStatus(jobId: string): PrintJobState | undefined {
     return this.activeJobs.get(jobId);
   }
 
+  /**
+   * Ask the printer for the current state of an IPP job. RAW jobs, jobs the
+   * printer has finished with and printers that cannot be reached return the
+   * last known state.
+   */
+  async refreshJobStatus(jobId: string): Promise<PrintJobState | undefined> {
+    const job = this.activeJobs.get(jobId);
+    if (!job?.ipp || IPP_FINAL_JOB_STATES.includes(job.ipp.state)) {
+      return job;
+    }
+
+    try {
+      const client = new IppClient(job.ipp.printerUri);
+      this.applyIppStatus(job, job.ipp.printerUri, await client.getJobAttributes(job.ipp.jobId));
+    } catch (error) {
+      console.warn(`[TcpPrinterService] Could not refresh IPP job ${jobId}:`, error);
+    }
+    return job;
+  }
+
   getActiveJobs(): PrintJobState[] {
     return Array.from(this.activeJobs.values()).filter(j => j.status === 'sending');
   }
 
+  /**
+   * Stop a job that is still being sent. A RAW job stops writing at once: a
+   * temporary socket is destroyed with whatever it still buffered, while a
+   * device's open connection is kept for the next job.
+   */
   cancelJob(jobId: string): boolean {
     const job = this.activeJobs.get(jobId);
     if (!job || job.status !== 'sending') return false;
     job.status = 'error';
     job.error = 'Cancelled';
+    job.completedAt = new Date();
+    this.transfers.get(jobId)?.abort();
     return true;
   }
 
   dispose(): void {
+    for (const transfer of this.transfers.values()) {
+      transfer.abort();
+    }
+    this.transfers.clear();
     this.activeJobs.clear();
   }
 
   // --- Private ---
 
+  private applyIppStatus(job: PrintJobState, printerUri: string, status: IppJobStatus): void {
+    job.ipp = {
+      printerUri,
+      jobId: status.jobId,
+      jobUri: status.jobUri ?? job.ipp?.jobUri,
+      state: status.state,
+      stateReasons: status.stateReasons,
+    };
+
+    if (status.state === 'aborted' || status.state === 'canceled') {
+      job.status = 'error';
+      job.error = status.stateMessage ?? (status.state === 'aborted' ? 'Aborted by the printer' : 'Cancelled');
+    }
+  }
+
+  /**
+   * Keep `job.bytesSent` current and pass it on to `onProgress`, throttled so
+   * a fast local printer does not flood the client with notifications.
+   */
+  private progressReporter(job: PrintJobState, onProgress?: (job: PrintJobState) => void): (bytesWritten: number) => void {
+    let lastReport = 0;
+    return (bytesWritten) => {
+      job.bytesSent = bytesWritten;
+      const now = Date.now();
+      if (onProgress && (bytesWritten >= job.totalBytes || now - lastReport >= PROGRESS_INTERVAL_MS)) {
+        lastReport = now;
+        onProgress(job);
+      }
+    };
+  }
+
+  /** Best effort: the job is cancelled whether or not the printer takes the reset. */
+  private async sendCancelReset(deviceId: string, host: string, port: number, format: NonNullable<PrintOptions['format']>): Promise<void> {
+    const reset = CANCEL_RESETS[format];
+    if (!reset) return;
+
+    const data = Buffer.from(reset, 'latin1');
+    const result = this.networkManager.isConnected(deviceId)
+      ? await this.networkManager.sendData(deviceId, data)
+      : await this.sendViaTemporarySocket(host, port, data, 5000);
+    if (!result.success) {
+      console.warn(`[TcpPrinterService] Could not reset ${deviceId} after cancelling: ${result.error}`);
+    }
+  }
+
   private sendViaTemporarySocket(
     host: string,
     port: number,
-    data: Buffer,
-    timeout: number
+    data: Buffer | Iterable<Buffer>,
+    timeout: number,
+    onProgress?: (bytesWritten: number) => void,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; bytesWritten: number; error?: string }> {
     return new Promise((resolve) => {
       const socket = new net.Socket();
       socket.setTimeout(timeout);
 
       let resolved = false;
+      let sent = false;
+      let bytesWritten = 0;
+      let graceTimer: NodeJS.Timeout | undefined;
       const finish = (result: { success: boolean; bytesWritten: number; error?: string }) => {
         if (resolved) return;
         resolved = true;
+        clearTimeout(graceTimer);
+        signal?.removeEventListener('abort', cancel);
         socket.destroy();
         resolve(result);
       };
+      const succeed = () => finish({ success: true, bytesWritten });
+      // Destroying the socket discards what the OS has not sent yet
+      const cancel = () => finish({ success: false, bytesWritten: 0, error: 'Cancelled' });
+      if (signal?.aborted) {
+        cancel();
+        return;
+      }
+      signal?.addEventListener('abort', cancel);
 
+      // Once everything is flushed, a reset or a silent printer no longer means the job was lost
       socket.on('error', (error) => {
-        finish({ success: false, bytesWritten: 0, error: error.message });
+        if (sent) succeed();
+        else finish({ success: false, bytesWritten: 0, error: error.message });
       });
 
       socket.on('timeout', () => {
-        finish({ success: false, bytesWritten: 0, error: `Connection timeout to ${host}:${port}` });
+        if (sent) succeed();
+        else finish({ success: false, bytesWritten: 0, error: `Connection timeout to ${host}:${port}` });
+      });
+
+      socket.on('close', () => {
+        if (sent) succeed();
+        else finish({ success: false, bytesWritten: 0, error: 'Connection closed before all data was sent' });
       });
 
+      // Some printers send status bytes back; reading them keeps the connection flowing
+      socket.on('data', () => undefined);
+
       socket.connect(port, host, () => {
-        socket.write(data, (error) => {
-          if (error) {
-            finish({ success: false, bytesWritten: 0, error: error.message });
-          } else {
-            // Give the printer a moment to accept the data before closing
-            setTimeout(() => {
-              finish({ success: true, bytesWritten: data.length });
-            }, 200);
-          }
+        writeChunked(socket, data, onProgress, signal).then((written) => {
+          bytesWritten = written;
+          socket.end(() => {
+            sent = true;
+            graceTimer = setTimeout(succeed, CLOSE_GRACE_MS);
+          });
+        }, (error: Error) => {
+          finish({ success: false, bytesWritten: 0, error: error.message });
         });
       });
     });
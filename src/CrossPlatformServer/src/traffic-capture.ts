@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import { CaptureEntry, CaptureResult } from './types.js';
+
+/** Bytes of traffic a capture keeps by default before dropping the oldest. */
+export const DEFAULT_CAPTURE_BYTES = 1024 * 1024;
+
+export interface CaptureOptions {
+  maxBytes?: number;
+  /** Also append each entry, as a hex dump, to this file. */
+  file?: string;
+}
+
+interface StoredEntry {
+  timestamp: Date;
+  direction: 'tx' | 'rx';
+  data: Buffer;
+}
+
+interface DeviceCapture {
+  capturing: boolean;
+  startedAt: Date;
+  maxBytes: number;
+  entries: StoredEntry[];
+  storedBytes: number;
+  droppedEntries: number;
+  bytesSent: number;
+  bytesReceived: number;
+  file?: string;
+  stream?: fs.WriteStream;
+}
+
+/**
+ * `data` as hex dump lines: an offset, 16 bytes as hex, and the same bytes
+ * as ASCII with anything unprintable shown as a dot.
+ */
+export function formatHexDump(data: Buffer): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < data.length; offset += 16) {
+    const row = data.subarray(offset, offset + 16);
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+    // An extra space after the eighth byte, as hexdump -C does
+    const columns = `${hex.slice(0, 8).join(' ')}  ${hex.slice(8).join(' ')}`.padEnd(48);
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${columns}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Records what is sent to and received from devices, per device id, in a
+ * ring buffer bounded by bytes. A stopped capture keeps its entries until
+ * it is started again or cleared.
+ */
+export class TrafficCapture {
+  private captures = new Map<string, DeviceCapture>();
+
+  /** Start a fresh capture, replacing any earlier one of the device. */
+  async start(deviceId: string, options: CaptureOptions = {}): Promise<void> {
+    const maxBytes = options.maxBytes ?? DEFAULT_CAPTURE_BYTES;
+    if (!Number.isInteger(maxBytes) || maxBytes <= 0) {
+      throw new Error('maxBytes must be a positive integer');
+    }
+
+    await this.closeFile(this.captures.get(deviceId));
+    const capture: DeviceCapture = {
+      capturing: true,
+      startedAt: new Date(),
+      maxBytes,
+      entries: [],
+      storedBytes: 0,
+      droppedEntries: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
+    };
+    if (options.file) {
+      capture.file = options.file;
+      capture.stream = fs.createWriteStream(options.file, { flags: 'a' });
+      capture.stream.on('error', (error) => {
+        console.error(`[TrafficCapture] Writing ${options.file} failed, capturing to memory only:`, error.message);
+        capture.stream = undefined;
+      });
+    }
+    this.captures.set(deviceId, capture);
+  }
+
+  /** Stop recording; resolves once the capture file has been written. */
+  async stop(deviceId: string): Promise<boolean> {
+    const capture = this.captures.get(deviceId);
+    if (!capture?.capturing) return false;
+    capture.capturing = false;
+    await this.closeFile(capture);
+    return true;
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.captures.keys()).map(deviceId => this.stop(deviceId)));
+  }
+
+  isCapturing(deviceId: string): boolean {
+    return this.captures.get(deviceId)?.capturing === true;
+  }
+
+  record(deviceId: string, direction: 'tx' | 'rx', data: Buffer): void {
+    const capture = this.captures.get(deviceId);
+    if (!capture?.capturing || data.length === 0) return;
+
+    const entry: StoredEntry = { timestamp: new Date(), direction, data: Buffer.from(data) };
+    if (direction === 'tx') capture.bytesSent += data.length;
+    else capture.bytesReceived += data.length;
+
+    capture.entries.push(entry);
+    capture.storedBytes += data.length;
+    while (capture.storedBytes > capture.maxBytes && capture.entries.length > 1) {
+      const dropped = capture.entries.shift() as StoredEntry;
+      capture.storedBytes -= dropped.data.length;
+      capture.droppedEntries++;
+    }
+
+    capture.stream?.write(
+      `${entry.timestamp.toISOString()} ${direction.toUpperCase()} ${data.length} bytes\n${formatHexDump(entry.data)}\n\n`
+    );
+  }
+
+  /**
+   * The capture's entries, the latest `limit` of them if given. `clear`
+   * empties the buffer afterwards, so the next call returns only new traffic.
+   */
+  get(deviceId: string, options: { limit?: number; clear?: boolean } = {}): Omit<CaptureResult, 'totals'> | undefined {
+    const capture = this.captures.get(deviceId);
+    if (!capture) return undefined;
+
+    const stored = options.limit !== undefined ? capture.entries.slice(-options.limit) : capture.entries;
+    const result = {
+      deviceId,
+      capturing: capture.capturing,
+      startedAt: capture.startedAt,
+      file: capture.file,
+      bytesSent: capture.bytesSent,
+      bytesReceived: capture.bytesReceived,
+      droppedEntries: capture.droppedEntries,
+      entries: stored.map(toCaptureEntry),
+    };
+    if (options.clear) {
+      capture.entries = [];
+      capture.storedBytes = 0;
+    }
+    return result;
+  }
+
+  // --- Private ---
+
+  private closeFile(capture: DeviceCapture | undefined): Promise<void> {
+    if (!capture?.stream) return Promise.resolve();
+    const stream = capture.stream;
+    capture.stream = undefined;
+    return new Promise(resolve => stream.end(() => resolve()));
+  }
+}
+
+function toCaptureEntry(entry: StoredEntry): CaptureEntry {
+  return {
+    timestamp: entry.timestamp,
+    direction: entry.direction,
+    length: entry.data.length,
+    hex: entry.data.toString('hex'),
+    dump: formatHexDump(entry.data),
+  };
+}
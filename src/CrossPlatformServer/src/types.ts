@@ -110,10 +110,25 @@ export interface PrintResult {
   success: boolean;
   jobId?: string;
   bytesPrinted?: number;
+  status?: QueueJob['status'];
+  idempotencyKey?: string;
+  /** True when the idempotency key matched an earlier submission and no new job was created. */
+  duplicate?: boolean;
   error?: string;
   timestamp: Date;
 }
 
+/**
+ * Params of a `print.progress` notification, sent while RAW print data is
+ * written. For queued jobs `jobId` is the queue job id.
+ */
+export interface PrintProgress {
+  jobId: string;
+  deviceId: string;
+  bytesSent: number;
+  totalBytes: number;
+}
+
 export interface SerialDataResult {
   success: boolean;
   bytesTransferred: number;
@@ -122,6 +137,100 @@ export interface SerialDataResult {
   timestamp: Date;
 }
 
+/**
+ * How a device's byte stream is cut into messages. Delimiters, STX/ETX and
+ * length prefixes are not part of the message.
+ * - `raw`: data as it arrives
+ * - `line`: split at `delimiter` (CR LF unless given)
+ * - `stx-etx`: the bytes between a `start` (STX) and `end` (ETX) byte
+ * - `fixed`: records of `length` bytes
+ * - `length-prefixed`: a `prefixBytes` unsigned length (2 bytes, big-endian
+ *   unless given), then that many bytes
+ */
+export type FramingOptions =
+  | { mode: 'raw' }
+  | { mode: 'line'; delimiter?: string; maxLength?: number }
+  | { mode: 'stx-etx'; start?: number; end?: number; maxLength?: number }
+  | { mode: 'fixed'; length: number }
+  | { mode: 'length-prefixed'; prefixBytes?: 1 | 2 | 4; byteOrder?: 'big' | 'little'; maxLength?: number };
+
+export interface SerialPortConfig {
+  baudRate: number;
+  parity: 'None' | 'Odd' | 'Even' | 'Mark' | 'Space';
+  dataBits: 7 | 8;
+  stopBits: '1' | '1.5' | '2';
+  flowControl: 'None' | 'XOnXOff' | 'RequestToSend' | 'RequestToSendXOnXOff';
+  framing: FramingOptions;
+}
+
+export interface SerialPortStatus extends SerialPortConfig {
+  deviceId: string;
+  portName: string;
+  isOpen: boolean;
+  /** Received bytes waiting to be read with `serial.receive`. */
+  bytesToRead: number;
+  /** Bytes handed to the port that the driver has not accepted yet. */
+  bytesToWrite: number;
+  bytesRead: number;
+  bytesWritten: number;
+  openedAt: Date;
+  lastActivity: Date;
+}
+
+/**
+ * Scale protocols with a built-in driver:
+ * - `toledo`: request-response; `W` asks for the weight, answered as
+ *   `<STX>001.23<CR>`, or `<STX>?<status><CR>` while it cannot weigh
+ * - `toledo-continuous`: streams `<STX>` + three status bytes + weight + tare
+ * - `generic`: streams lines like `ST,GS,+0001.23kg`
+ */
+export type ScaleProtocol = 'toledo' | 'toledo-continuous' | 'generic';
+
+export type WeightUnit = 'kg' | 'g' | 'lb' | 'oz';
+
+/** Params of a `scale.reading` notification, and the result of `scale.read`. */
+export interface ScaleReading {
+  deviceId: string;
+  /** Negative below zero; null when the scale only reported its state. */
+  weight: number | null;
+  unit: WeightUnit;
+  /** Not in motion */
+  stable: boolean;
+  /** Net weight, i.e. with a tare taken off */
+  net: boolean;
+  overload: boolean;
+  underload: boolean;
+  /** Tare weight, from scales that report it */
+  tare?: number;
+  timestamp: Date;
+}
+
+/** Data sent to (`tx`) or received from (`rx`) a device while capturing. */
+export interface CaptureEntry {
+  timestamp: Date;
+  direction: 'tx' | 'rx';
+  length: number;
+  /** The bytes as hex */
+  hex: string;
+  /** Offset, hex and ASCII columns, 16 bytes a line */
+  dump: string;
+}
+
+export interface CaptureResult {
+  deviceId: string;
+  capturing: boolean;
+  startedAt: Date;
+  /** Capture file, when capturing to disk */
+  file?: string;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Oldest entries dropped to keep within the capture size */
+  droppedEntries: number;
+  entries: CaptureEntry[];
+  /** The device's own byte counts, while it is open */
+  totals?: { bytesRead: number; bytesWritten: number };
+}
+
 export interface UsbHidReportResult {
   success: boolean;
   reportId: number;
@@ -136,21 +245,63 @@ export interface QueueJob {
   deviceId: string;
   deviceType: string;
   operation: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_letter';
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
   retryCount: number;
+  nextAttemptAt?: Date;
+  /** Higher runs first; defaults to 0. */
+  priority?: number;
+  /** The job is not started before this time. */
+  notBefore?: Date;
+  /** While processing: the worker must renew this before it passes or the job is recovered. */
+  leaseExpiresAt?: Date;
+  idempotencyKey?: string;
   parameters?: Record<string, any>;
 }
 
+/**
+ * Payload of the `queue.jobUpdated` notification.
+ */
+export interface JobUpdate {
+  jobId: string;
+  deviceId: string;
+  operation: string;
+  status: QueueJob['status'];
+  /** Bytes written to the device by the attempt that just finished. */
+  bytesSent?: number;
+  error?: string;
+  retryCount: number;
+  nextAttemptAt?: Date;
+  timestamp: Date;
+}
+
+/**
+ * `paused` holds a device's jobs in the queue; `draining` keeps running the
+ * queued jobs but refuses new ones.
+ */
+export type DeviceQueueState = 'active' | 'paused' | 'draining';
+
+export interface DeviceQueueInfo {
+  deviceId: string;
+  state: DeviceQueueState;
+  reason?: string;
+  updatedAt?: Date;
+  pendingJobs: number;
+  processingJobs: number;
+  /** Pending and processing jobs, in the order they will run. */
+  jobs: QueueJob[];
+}
+
 export interface QueueStatus {
   totalJobs: number;
   pendingJobs: number;
   processingJobs: number;
   completedJobs: number;
   failedJobs: number;
+  deadLetterJobs?: number;
   lastProcessed: Date;
   averageProcessingTime: number;
 }
@@ -177,6 +328,28 @@ export interface ServerConfig {
   maxConnections: number;
   databasePath: string;
   logLevel: string;
+  retention?: Partial<RetentionPolicy>;
+  /** Where `diagnostics.startCapture` with `toDisk` writes capture files; off when unset. */
+  captureDirectory?: string;
+}
+
+export type FinishedJobStatus = 'completed' | 'failed' | 'cancelled' | 'dead_letter';
+
+export interface RetentionPolicy {
+  /** Hours a finished job is kept, per status. Statuses left out are kept forever. */
+  maxAgeHours: Partial<Record<FinishedJobStatus, number>>;
+  /** Upper bound on finished jobs kept; the oldest are purged first. */
+  maxFinishedJobs?: number;
+  /** Drop the print payload from completed jobs once they are this many hours old. */
+  stripPayloadsAfterHours?: number;
+  purgeIntervalMinutes: number;
+  vacuumIntervalHours: number;
+}
+
+export interface PurgeResult {
+  purged: number;
+  stripped: number;
+  vacuumed: boolean;
 }
 
 export interface DeviceEvent {
@@ -191,6 +364,10 @@ export interface NetworkDeviceConfig {
   host: string;
   port: number;
   protocol: 'tcp' | 'udp' | 'http' | 'https';
+  /** Printers only: the command language used to query status. */
+  commandLanguage?: PrinterCommandLanguage;
+  /** How replies are split into messages; raw when absent. */
+  framing?: FramingOptions;
   timeout?: number;
   retryAttempts?: number;
   authentication?: {
@@ -208,6 +385,153 @@ export interface NetworkDeviceConfig {
   };
 }
 
+/** `pjl` covers laser printers that take PJL around PCL or PostScript jobs. */
+export type PrinterCommandLanguage = 'escpos' | 'zpl' | 'epl' | 'pjl';
+
+/**
+ * Printer condition as reported by the device itself. Flags a language has
+ * no way to report are left undefined.
+ */
+export interface PrinterStatusFlags {
+  commandLanguage: PrinterCommandLanguage;
+  online: boolean;
+  paperOut: boolean;
+  paperNearEnd?: boolean;
+  /** ESC/POS cover, or the print head on ZPL printers. */
+  coverOpen: boolean;
+  ribbonOut?: boolean;
+  paused?: boolean;
+  /** Drawer kick-out connector pin 3 is high, which most cash drawers use to signal open. */
+  drawerOpen?: boolean;
+  paperJam?: boolean;
+  cutterError?: boolean;
+  unrecoverableError?: boolean;
+  autoRecoverableError?: boolean;
+  receiveBufferFull?: boolean;
+  formatsInBuffer?: number;
+  labelsRemaining?: number;
+  /** PJL status code and the text on the printer's display. */
+  statusCode?: number;
+  displayMessage?: string;
+  /** The status reply as a hex string, for diagnostics. */
+  raw: string;
+}
+
+/**
+ * A receipt described as elements rather than bytes. The server compiles it
+ * to ESC/POS for `printer.printDocument`.
+ */
+export interface EscPosDocument {
+  /** Codepage for non-ASCII text; defaults to cp437. */
+  codepage?: EscPosCodepage;
+  /** Characters per line, used to lay out columns; defaults to 48 (80 mm paper, font A). */
+  lineWidth?: number;
+  /** Printable width in dots, which images are scaled to fit; defaults to 576. */
+  maxPrintWidth?: number;
+  elements: EscPosElement[];
+}
+
+export type EscPosCodepage = 'cp437' | 'cp850' | 'cp852' | 'cp858' | 'cp866' | 'cp1252';
+export type EscPosAlignment = 'left' | 'center' | 'right';
+export type EscPosBarcodeSymbology =
+  'UPC-A' | 'UPC-E' | 'EAN13' | 'EAN8' | 'CODE39' | 'ITF' | 'CODABAR' | 'CODE93' | 'CODE128';
+
+export interface EscPosTextStyle {
+  bold?: boolean;
+  underline?: boolean | 'double';
+  /** White on black. */
+  invert?: boolean;
+  font?: 'A' | 'B';
+  /** Character magnification, 1-8. */
+  width?: number;
+  height?: number;
+}
+
+export interface EscPosColumn {
+  text: string;
+  /** Characters; columns without a width share what is left of the line. */
+  width?: number;
+  align?: EscPosAlignment;
+}
+
+export type EscPosElement =
+  | { type: 'text'; text: string; align?: EscPosAlignment; style?: EscPosTextStyle }
+  | { type: 'columns'; columns: EscPosColumn[]; style?: EscPosTextStyle }
+  | {
+      type: 'barcode';
+      symbology: EscPosBarcodeSymbology;
+      data: string;
+      /** Dots, 1-255; defaults to 162. */
+      height?: number;
+      /** Module width, 2-6; defaults to 3. */
+      moduleWidth?: number;
+      /** Where to print the human readable text; defaults to below. */
+      hri?: 'none' | 'above' | 'below' | 'both';
+      align?: EscPosAlignment;
+    }
+  | {
+      type: 'qrcode';
+      data: string;
+      /** Module size, 1-16; defaults to 6. */
+      size?: number;
+      errorCorrection?: 'L' | 'M' | 'Q' | 'H';
+      align?: EscPosAlignment;
+    }
+  | { type: 'feed'; lines?: number }
+  | { type: 'cut'; partial?: boolean; feedLines?: number }
+  | { type: 'drawer'; pin?: 2 | 5 }
+  | { type: 'codepage'; codepage: EscPosCodepage }
+  | ({
+      type: 'image';
+      /** Base64 PNG or JPEG. */
+      image: string;
+      align?: EscPosAlignment;
+    } & Omit<ImageRasterOptions, 'maxPrintWidth'>);
+
+/** Printer languages an image can be rasterized for. */
+export type RasterFormat = 'escpos' | 'zpl' | 'epl';
+/** `threshold` turns each dot black or white on its own; `floyd-steinberg` spreads the error to keep shading. */
+export type DitherMethod = 'floyd-steinberg' | 'threshold';
+
+export interface ImageRasterOptions {
+  /** Printable width in dots; wider images are scaled down to it. Defaults to 576 (80 mm at 203 dpi). */
+  maxPrintWidth?: number;
+  /** Scale the image to exactly this many dots across instead. */
+  width?: number;
+  /** Defaults to floyd-steinberg. */
+  dither?: DitherMethod;
+  /** Gray level, 0-255, below which a dot prints black; defaults to 128. */
+  threshold?: number;
+}
+
+export type TemplateVariableType = 'string' | 'number' | 'integer' | 'boolean';
+
+/** A `{{name}}` placeholder in a label template. */
+export interface TemplateVariable {
+  name: string;
+  /** Booleans print as Y or N. */
+  type: TemplateVariableType;
+  /** Defaults to true for variables without a default. */
+  required?: boolean;
+  default?: string | number | boolean;
+  /** Longest accepted value, for strings. */
+  maxLength?: number;
+}
+
+/** What a client sends to `templates.save`. */
+export interface LabelTemplateDefinition {
+  name: string;
+  language: 'zpl' | 'epl';
+  body: string;
+  variables: TemplateVariable[];
+  description?: string;
+}
+
+export interface LabelTemplate extends LabelTemplateDefinition {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface BiometricConfig {
   securityLevel: 'low' | 'medium' | 'high' | 'maximum';
   timeout: number;
@@ -1,5 +1,7 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   JsonRpcRequest,
@@ -7,11 +9,34 @@ import {
   JsonRpcNotification,
   JsonRpcError,
   ServerConfig,
-  DeviceEvent
+  DeviceEvent,
+  JobUpdate,
+  FinishedJobStatus,
+  PrintResult,
+  PrintProgress,
+  DeviceQueueState,
+  NetworkPrinterDevice,
+  PrinterCommandLanguage,
+  ImageRasterOptions,
+  ScaleReading,
+  CaptureResult
 } from './types.js';
+import { FINISHED_JOB_STATUSES, PurgeCriteria } from './database-manager.js';
+import { JobQueue, EnqueueRequest } from './job-queue.js';
+import { JobExecutionResult } from './queue-worker.js';
 import { NetworkDeviceManager } from './network-device-manager.js';
 import { DeviceEnumerator } from './device-enumerator.js';
 import { TcpPrinterService } from './tcp-printer-service.js';
+import { SerialPortManager, readSerialConfig } from './serial-port-manager.js';
+import { ScaleService, readScaleSettings } from './scale-service.js';
+import { IppClient } from './ipp-client.js';
+import { statusQueryFor, parseStatusResponse, summarizePrinterStatus } from './printer-status.js';
+import { PjlClient, parsePjlUnsolicited, pjlStatusToFlags } from './pjl.js';
+import { compileEscPosDocument } from './escpos-document.js';
+import { imageToPrinterData } from './raster-image.js';
+import { readOutputOptions } from './print-options.js';
+import { TemplateStore, validateLabelTemplate, renderLabelTemplate } from './label-templates.js';
+import { TrafficCapture } from './traffic-capture.js';
 
 export class CrossPlatformWebSocketServer {
   private wss: WebSocketServer | null = null;
@@ -19,29 +44,63 @@ export class CrossPlatformWebSocketServer {
   private connections = new Map<string, WebSocket>();
   private messageHandlers = new Map<string, (params: any, connectionId: string) => Promise<any>>();
   private deviceEventListeners: Array<(event: DeviceEvent) => void> = [];
+  /** jobId -> connections that receive `queue.jobUpdated` for it */
+  private jobSubscriptions = new Map<string, Set<string>>();
+  /** Devices with PJL unsolicited status turned on */
+  private watchedPrinters = new Set<string>();
+  /** Open serial port -> the connection that opened it and gets its data */
+  private serialOwners = new Map<string, { connectionId: string; encoding: BufferEncoding }>();
+  /** Scale deviceId -> connections that receive `scale.reading` for it */
+  private scaleSubscriptions = new Map<string, Set<string>>();
+  /** Open scale -> the connection that opened it */
+  private scaleOwners = new Map<string, string>();
   private onServerError: ((error: Error) => void) | null = null;
   private onServerClose: (() => void) | null = null;
 
   private networkManager: NetworkDeviceManager;
   private deviceEnumerator: DeviceEnumerator;
   private tcpPrinterService: TcpPrinterService;
-
-  constructor(config: ServerConfig) {
+  private serialManager: SerialPortManager;
+  private scaleService: ScaleService;
+  private capture = new TrafficCapture();
+  private queue: JobQueue | null;
+  private templates: TemplateStore | null;
+
+  /**
+   * Without a `queue`, print and network send requests run immediately and
+   * the `queue.*` methods report that no queue is configured. Likewise the
+   * `templates.*` methods and `printer.printTemplate` need `templates`.
+   */
+  constructor(config: ServerConfig, queue?: JobQueue, templates?: TemplateStore) {
     this.config = config;
+    this.queue = queue ?? null;
+    this.templates = templates ?? null;
     this.networkManager = new NetworkDeviceManager({
       defaultTimeout: 5000,
       maxConnections: 50,
     });
     this.deviceEnumerator = new DeviceEnumerator(10000);
     this.tcpPrinterService = new TcpPrinterService(this.networkManager);
+    this.serialManager = new SerialPortManager();
+    this.scaleService = new ScaleService(this.serialManager);
     this.setupMessageHandlers();
     this.setupNetworkEventForwarding();
+    this.setupSerialEventForwarding();
+    this.setupTrafficCapture();
+    this.setupQueue();
   }
 
   onDeviceEvent(listener: (event: DeviceEvent) => void): void {
     this.deviceEventListeners.push(listener);
   }
 
+  /**
+   * Register or replace the handler for a JSON-RPC method.
+   */
+  registerHandler(method: string, handler: (params: any, connectionId: string) => Promise<any>): void {
+    this.messageHandlers.set(method, handler);
+  }
+
   private setupMessageHandlers(): void {
     // Device management
     this.messageHandlers.set('devices.enumerate', this.enumerateDevices.bind(this));
@@ -50,9 +109,15 @@ export class CrossPlatformWebSocketServer {
     this.messageHandlers.set('devices.unwatch', this.unwatchDevices.bind(this));
 
     // Printer operations
-    this.messageHandlers.set('printer.print', this.print.bind(this));
+    this.messageHandlers.set('printer.print', this.queue ? this.enqueuePrint.bind(this) : this.print.bind(this));
+    this.messageHandlers.set('printer.printDocument', this.printDocument.bind(this));
+    this.messageHandlers.set('printer.printImage', this.printImage.bind(this));
+    this.messageHandlers.set('printer.printTemplate', this.printTemplate.bind(this));
     this.messageHandlers.set('printer.getStatus', this.getPrinterStatus.bind(this));
     this.messageHandlers.set('printer.getCapabilities', this.getPrinterCapabilities.bind(this));
+    this.messageHandlers.set('printer.getJobStatus', this.getPrintJobStatus.bind(this));
+    this.messageHandlers.set('printer.watchStatus', this.watchPrinterStatus.bind(this));
+    this.messageHandlers.set('printer.unwatchStatus', this.unwatchPrinterStatus.bind(this));
 
     // Serial port operations
     this.messageHandlers.set('serial.open', this.openSerialPort.bind(this));
@@ -61,6 +126,13 @@ export class CrossPlatformWebSocketServer {
     this.messageHandlers.set('serial.receive', this.receiveSerialData.bind(this));
     this.messageHandlers.set('serial.getStatus', this.getSerialPortStatus.bind(this));
 
+    // Scales on serial ports
+    this.messageHandlers.set('scale.read', this.readScale.bind(this));
+    this.messageHandlers.set('scale.tare', this.tareScale.bind(this));
+    this.messageHandlers.set('scale.zero', this.zeroScale.bind(this));
+    this.messageHandlers.set('scale.subscribe', this.subscribeScale.bind(this));
+    this.messageHandlers.set('scale.unsubscribe', this.unsubscribeScale.bind(this));
+
     // USB HID operations
     this.messageHandlers.set('usb.open', this.openUsbDevice.bind(this));
     this.messageHandlers.set('usb.close', this.closeUsbDevice.bind(this));
@@ -88,31 +160,263 @@ export class CrossPlatformWebSocketServer {
     this.messageHandlers.set('queue.getStatus', this.getQueueStatus.bind(this));
     this.messageHandlers.set('queue.getJobs', this.getQueueJobs.bind(this));
     this.messageHandlers.set('queue.cancelJob', this.cancelQueueJob.bind(this));
+    this.messageHandlers.set('queue.retryJob', this.retryQueueJob.bind(this));
+    this.messageHandlers.set('queue.requeueDeadLetters', this.requeueDeadLetters.bind(this));
+    this.messageHandlers.set('queue.purge', this.purgeQueue.bind(this));
+    this.messageHandlers.set('queue.subscribe', this.subscribeQueueJob.bind(this));
+    this.messageHandlers.set('queue.unsubscribe', this.unsubscribeQueueJob.bind(this));
+    this.messageHandlers.set('queue.pauseDevice', this.pauseDeviceQueue.bind(this));
+    this.messageHandlers.set('queue.resumeDevice', this.resumeDeviceQueue.bind(this));
+    this.messageHandlers.set('queue.drainDevice', this.drainDeviceQueue.bind(this));
+    this.messageHandlers.set('queue.getDeviceQueue', this.getDeviceQueue.bind(this));
+
+    // Label templates
+    this.messageHandlers.set('templates.list', this.listTemplates.bind(this));
+    this.messageHandlers.set('templates.get', this.getTemplate.bind(this));
+    this.messageHandlers.set('templates.save', this.saveTemplate.bind(this));
+    this.messageHandlers.set('templates.delete', this.deleteTemplate.bind(this));
 
     // Network data operations
-    this.messageHandlers.set('network.send', this.sendNetworkData.bind(this));
+    this.messageHandlers.set('network.send', this.queue ? this.enqueueNetworkData.bind(this) : this.sendNetworkData.bind(this));
+
+    // Traffic capture
+    this.messageHandlers.set('diagnostics.startCapture', this.startCapture.bind(this));
+    this.messageHandlers.set('diagnostics.stopCapture', this.stopCapture.bind(this));
+    this.messageHandlers.set('diagnostics.getCapture', this.getCapture.bind(this));
 
     // System information
     this.messageHandlers.set('system.getInfo', this.getSystemInfo.bind(this));
     this.messageHandlers.set('system.getHealth', this.getSystemHealth.bind(this));
   }
 
+  /**
+   * Let the queue run dequeued jobs through the same code paths that serve
+   * direct requests, and forward its job updates to subscribed clients.
+   */
+  private setupQueue(): void {
+    if (!this.queue) return;
+
+    this.queue.registerExecutor('print', async (job, signal): Promise<JobExecutionResult> => {
+      const result = await this.print(job.parameters, '', {
+        onProgress: (progress) => this.publishPrintProgress({ ...progress, jobId: job.id }),
+        signal,
+      });
+      return { success: result.success, error: result.error, bytesSent: result.bytesPrinted };
+    });
+    this.queue.registerExecutor('network.send', async (job): Promise<JobExecutionResult> => {
+      const result = await this.sendNetworkData(job.parameters, '');
+      return { success: result.success, error: result.error, bytesSent: result.bytesWritten };
+    });
+    this.queue.onJobUpdate((update) => this.publishJobUpdate(update));
+  }
+
   private setupNetworkEventForwarding(): void {
     this.networkManager.on('device-event', (event: DeviceEvent) => {
-      // Broadcast device events to all connected WebSocket clients
-      const notification: JsonRpcNotification = {
-        jsonrpc: '2.0',
-        method: 'device.event',
-        params: event,
-      };
-      for (const [connectionId] of this.connections) {
-        this.sendToConnection(connectionId, notification);
+      if (event.eventType === 'disconnected') {
+        this.watchedPrinters.delete(event.deviceId);
+      }
+      this.emitDeviceEvent(event);
+    });
+    this.networkManager.on('device-data', (deviceId: string, data: Buffer) => {
+      if (this.watchedPrinters.has(deviceId)) {
+        this.forwardPjlStatus(deviceId, data);
       }
-      // Notify local listeners
-      for (const listener of this.deviceEventListeners) {
-        listener(event);
+    });
+  }
+
+  private setupSerialEventForwarding(): void {
+    this.serialManager.on('device-event', (event: DeviceEvent) => {
+      if (event.eventType === 'disconnected') {
+        this.serialOwners.delete(event.deviceId);
+        this.scaleSubscriptions.delete(event.deviceId);
+        this.scaleOwners.delete(event.deviceId);
       }
+      this.emitDeviceEvent(event);
+    });
+    this.serialManager.on('device-frame', (deviceId: string, frame: Buffer) => {
+      const owner = this.serialOwners.get(deviceId);
+      if (!owner) return;
+      const event: DeviceEvent = {
+        eventType: 'data',
+        deviceId,
+        deviceType: 'serial',
+        timestamp: new Date(),
+        data: { data: frame.toString(owner.encoding), encoding: owner.encoding, bytes: frame.length },
+      };
+      this.sendToConnection(owner.connectionId, { jsonrpc: '2.0', method: 'device.event', params: event });
     });
+    this.scaleService.on('scale-reading', (reading: ScaleReading) => this.publishScaleReading(reading));
+  }
+
+  /** Record what goes over serial ports and TCP connections that are being captured. */
+  private setupTrafficCapture(): void {
+    for (const manager of [this.networkManager, this.serialManager]) {
+      manager.on('device-sent', (deviceId: string, data: Buffer) => this.capture.record(deviceId, 'tx', data));
+      manager.on('device-data', (deviceId: string, data: Buffer) => this.capture.record(deviceId, 'rx', data));
+    }
+  }
+
+  /** Turn USTATUS messages from a watched printer into `status_changed` events. */
+  private forwardPjlStatus(deviceId: string, data: Buffer): void {
+    let statuses;
+    try {
+      statuses = parsePjlUnsolicited(data);
+    } catch (error) {
+      console.warn(`[WebSocketServer] Ignoring malformed PJL status from ${deviceId}:`, (error as Error).message);
+      return;
+    }
+
+    for (const ustatus of statuses) {
+      let eventData: Record<string, unknown>;
+      if (ustatus.type === 'device') {
+        const flags = pjlStatusToFlags(ustatus.status, data);
+        eventData = { status: summarizePrinterStatus(flags), flags };
+      } else {
+        eventData = { pjl: ustatus };
+      }
+      this.emitDeviceEvent({
+        eventType: 'status_changed',
+        deviceId,
+        deviceType: 'printer',
+        timestamp: new Date(),
+        data: eventData,
+      });
+    }
+  }
+
+  /**
+   * Broadcast a `device.event` notification to all connected clients and
+   * local listeners.
+   */
+  emitDeviceEvent(event: DeviceEvent): void {
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: 'device.event',
+      params: event,
+    };
+    for (const [connectionId] of this.connections) {
+      this.sendToConnection(connectionId, notification);
+    }
+    // Notify local listeners
+    for (const listener of this.deviceEventListeners) {
+      listener(event);
+    }
+  }
+
+  subscribeToJob(connectionId: string, jobId: string): void {
+    let subscribers = this.jobSubscriptions.get(jobId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.jobSubscriptions.set(jobId, subscribers);
+    }
+    subscribers.add(connectionId);
+  }
+
+  unsubscribeFromJob(connectionId: string, jobId: string): void {
+    const subscribers = this.jobSubscriptions.get(jobId);
+    if (!subscribers) return;
+    subscribers.delete(connectionId);
+    if (subscribers.size === 0) {
+      this.jobSubscriptions.delete(jobId);
+    }
+  }
+
+  /**
+   * Send a `queue.jobUpdated` notification to the connections subscribed to
+   * the job. Subscriptions end once the job reaches a final status.
+   */
+  publishJobUpdate(update: JobUpdate): void {
+    const subscribers = this.jobSubscriptions.get(update.jobId);
+    if (!subscribers) return;
+
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: 'queue.jobUpdated',
+      params: update,
+    };
+    for (const connectionId of subscribers) {
+      this.sendToConnection(connectionId, notification);
+    }
+
+    if (FINISHED_JOB_STATUSES.includes(update.status as FinishedJobStatus)) {
+      this.jobSubscriptions.delete(update.jobId);
+    }
+  }
+
+  /** Send a queued job's `print.progress` to the connections subscribed to it. */
+  private publishPrintProgress(progress: PrintProgress): void {
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: 'print.progress',
+      params: progress,
+    };
+    for (const connectionId of this.jobSubscriptions.get(progress.jobId) ?? []) {
+      this.sendToConnection(connectionId, notification);
+    }
+  }
+
+  private removeJobSubscriptions(connectionId: string): void {
+    for (const jobId of Array.from(this.jobSubscriptions.keys())) {
+      this.unsubscribeFromJob(connectionId, jobId);
+    }
+  }
+
+  /** Send a changed scale reading as `scale.reading` to the scale's subscribers. */
+  private publishScaleReading(reading: ScaleReading): void {
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: 'scale.reading',
+      params: reading,
+    };
+    for (const connectionId of this.scaleSubscriptions.get(reading.deviceId) ?? []) {
+      this.sendToConnection(connectionId, notification);
+    }
+  }
+
+  private unsubscribeFromScale(connectionId: string, deviceId: string): void {
+    const subscribers = this.scaleSubscriptions.get(deviceId);
+    if (!subscribers) return;
+    subscribers.delete(connectionId);
+    if (subscribers.size === 0) {
+      this.scaleSubscriptions.delete(deviceId);
+      this.scaleService.unwatch(deviceId);
+    }
+  }
+
+  private removeScaleSubscriptions(connectionId: string): void {
+    for (const deviceId of Array.from(this.scaleSubscriptions.keys())) {
+      this.unsubscribeFromScale(connectionId, deviceId);
+    }
+  }
+
+  /**
+   * Close the scales a connection opened, unless other connections are
+   * subscribed to them; the first of those then owns the scale instead.
+   */
+  private closeOwnedScales(connectionId: string): void {
+    for (const [deviceId, owner] of Array.from(this.scaleOwners)) {
+      if (owner !== connectionId) continue;
+      const [subscriber] = this.scaleSubscriptions.get(deviceId) ?? [];
+      if (subscriber) {
+        this.scaleOwners.set(deviceId, subscriber);
+        continue;
+      }
+      this.scaleOwners.delete(deviceId);
+      this.scaleService.close(deviceId).catch((error) => {
+        console.error(`[WebSocketServer] Failed to close scale ${deviceId}:`, error);
+      });
+    }
+  }
+
+  /** Close the serial ports a connection opened; nobody else would get their data. */
+  private closeOwnedSerialPorts(connectionId: string): void {
+    for (const [deviceId, owner] of Array.from(this.serialOwners)) {
+      if (owner.connectionId !== connectionId) continue;
+      this.serialOwners.delete(deviceId);
+      this.serialManager.close(deviceId).catch((error) => {
+        console.error(`[WebSocketServer] Failed to close serial port ${deviceId}:`, error);
+      });
+    }
   }
 
   onError(handler: (error: Error) => void): void {
@@ -175,6 +479,11 @@ export class CrossPlatformWebSocketServer {
     // Dispose network managers
     this.networkManager.dispose();
     this.tcpPrinterService.dispose();
+    this.scaleService.dispose();
+    this.scaleSubscriptions.clear();
+    this.scaleOwners.clear();
+    await this.serialManager.closeAll();
+    await this.capture.stopAll();
 
     return new Promise((resolve) => {
       if (this.wss) {
@@ -183,6 +492,7 @@ export class CrossPlatformWebSocketServer {
           ws.close(1000, 'Server shutting down');
         }
         this.connections.clear();
+        this.jobSubscriptions.clear();
 
         this.wss.close(() => {
           console.log('WebSocket server stopped');
@@ -226,11 +536,19 @@ export class CrossPlatformWebSocketServer {
     ws.on('close', (code: number, reason: string) => {
       console.log(`WebSocket connection closed: ${connectionId} (${code}: ${reason})`);
       this.connections.delete(connectionId);
+      this.removeJobSubscriptions(connectionId);
+      this.removeScaleSubscriptions(connectionId);
+      this.closeOwnedScales(connectionId);
+      this.closeOwnedSerialPorts(connectionId);
     });
 
     ws.on('error', (error: Error) => {
       console.error(`WebSocket error for connection ${connectionId}:`, error);
       this.connections.delete(connectionId);
+      this.removeJobSubscriptions(connectionId);
+      this.removeScaleSubscriptions(connectionId);
+      this.closeOwnedScales(connectionId);
+      this.closeOwnedSerialPorts(connectionId);
     });
 
     // Send welcome message
@@ -331,7 +649,11 @@ export class CrossPlatformWebSocketServer {
 
       const devices: any[] = [
         ...enumResult.printers,
-        ...enumResult.serialPorts,
+        // Open ports report their current settings and buffered data
+        ...enumResult.serialPorts.map((port) => {
+          const open = this.serialManager.getStatus(port.id);
+          return open ? { ...port, ...open, status: 'connected', isConnected: true } : port;
+        }),
       ];
 
       // Add connected network devices
@@ -413,73 +735,172 @@ export class CrossPlatformWebSocketServer {
     return { success: true, message: 'Stopped watching devices' };
   }
 
-  private async print(params: any, connectionId: string): Promise<any> {
-    const { deviceId, data, format = 'raw', host, port } = params;
+  /**
+   * Print through whichever backend reaches the device. RAW jobs report
+   * `print.progress` to `control.onProgress`, or to the requesting connection
+   * when none is given, and stop sending when `control.signal` aborts.
+   */
+  private async print(
+    params: any,
+    connectionId: string,
+    control: { onProgress?: (progress: PrintProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<any> {
+    const { deviceId, format = 'raw', host, port, queueName = 'lp', documentFormat, resetOnCancel } = params;
+    const data = this.resolvePrintData(params);
 
     if (!deviceId || !data) {
       throw new Error('Device ID and data are required');
     }
+    const output = readOutputOptions(params);
+
+    const protocol = this.resolvePrintProtocol(params);
 
-    // If host/port provided, do real TCP print
-    if (host && port) {
-      return this.tcpPrinterService.printRaw(deviceId, host, port, data, { format });
+    // IPP printers get a Print-Job request instead of raw bytes
+    if (protocol === 'ipp') {
+      const printerUri = this.resolvePrinterUri(params);
+      if (!printerUri) {
+        throw new Error('printerUri or host is required for IPP printing');
+      }
+      return this.tcpPrinterService.printIpp(deviceId, printerUri, data, { format, documentFormat, ...output });
     }
 
-    // If device is connected via network manager, send data through existing socket
-    if (this.networkManager.isConnected(deviceId)) {
-      const result = await this.networkManager.sendData(deviceId, data);
-      return {
-        success: result.success,
-        jobId: `job_${Date.now()}`,
-        bytesPrinted: result.bytesWritten,
-        timestamp: new Date(),
-        error: result.error,
-      };
+    if (protocol === 'lpd') {
+      if (!host) {
+        throw new Error('host is required for LPD printing');
+      }
+      return this.tcpPrinterService.printLpd(deviceId, host, port ?? 515, queueName, data, { format, ...output });
+    }
+
+    // A host/port gets a temporary socket; a connected device reuses its open one
+    if ((host && port) || this.networkManager.isConnected(deviceId)) {
+      const report = control.onProgress ?? (connectionId
+        ? (progress: PrintProgress) => this.sendToConnection(connectionId, { jsonrpc: '2.0', method: 'print.progress', params: progress })
+        : undefined);
+      return this.tcpPrinterService.printRaw(deviceId, host, port, data, {
+        format,
+        ...output,
+        onProgress: report && ((job) => report({ jobId: job.jobId, deviceId, bytesSent: job.bytesSent, totalBytes: job.totalBytes })),
+        signal: control.signal,
+        resetOnCancel: resetOnCancel === true,
+      });
     }
 
     // Try CUPS printing for OS-managed printers
     const enumResult = await this.deviceEnumerator.enumerate();
     const printer = enumResult.printers.find(p => p.id === deviceId);
     if (printer && printer.properties.source === 'os') {
-      return this.printViaCups(printer.model, data);
+      return this.tcpPrinterService.printCups(deviceId, printer.model, data, output);
     }
 
     // Fallback: simulated print
     return {
       success: true,
       jobId: `job_${Date.now()}`,
-      bytesPrinted: data.length,
+      bytesPrinted: data.length * output.copies,
       timestamp: new Date(),
     };
   }
 
-  private async printViaCups(cupsName: string, data: string): Promise<{
-    success: boolean; jobId?: string; bytesPrinted?: number; error?: string; timestamp: Date;
-  }> {
-    const { exec } = await import('child_process');
-    return new Promise((resolve) => {
-      const child = exec(`lp -d "${cupsName}" -`, { timeout: 15000 }, (error, stdout, _stderr) => {
-        if (error) {
-          resolve({
-            success: false,
-            error: `CUPS print failed: ${error.message}`,
-            timestamp: new Date(),
-          });
-        } else {
-          // Parse job ID from lp output: "request id is PRINTER-123 (1 file(s))"
-          const jobMatch = stdout.match(/request id is (\S+)/);
-          resolve({
-            success: true,
-            jobId: jobMatch ? jobMatch[1] : `cups_${Date.now()}`,
-            bytesPrinted: data.length,
-            timestamp: new Date(),
-          });
-        }
-      });
-      // Write print data to stdin
-      child.stdin?.write(data);
-      child.stdin?.end();
-    });
+  /**
+   * Print an `EscPosDocument`. It is compiled up front so an invalid
+   * document is rejected before it reaches the queue.
+   */
+  private async printDocument(params: any, connectionId: string): Promise<any> {
+    const { deviceId, document } = params ?? {};
+    if (!deviceId || !document) {
+      throw new Error('Device ID and document are required');
+    }
+    compileEscPosDocument(document);
+
+    const printParams = { ...params, data: undefined, format: 'escpos' };
+    return this.queue ? this.enqueuePrint(printParams, connectionId) : this.print(printParams, connectionId);
+  }
+
+  /**
+   * Print a base64 PNG or JPEG as ESC/POS, ZPL or EPL raster graphics. The
+   * image is converted up front so an unreadable one never reaches the queue.
+   */
+  private async printImage(params: any, connectionId: string): Promise<any> {
+    const { deviceId, image, format = 'escpos', maxPrintWidth, width, dither, threshold } = params ?? {};
+    if (!deviceId || !image) {
+      throw new Error('Device ID and image are required');
+    }
+    const imageOptions: ImageRasterOptions = { maxPrintWidth, width, dither, threshold };
+    imageToPrinterData(Buffer.from(image, 'base64'), format, imageOptions);
+
+    const printParams = { ...params, data: undefined, format, imageOptions };
+    return this.queue ? this.enqueuePrint(printParams, connectionId) : this.print(printParams, connectionId);
+  }
+
+  /**
+   * The bytes to send for a print request. Queued document and image jobs
+   * keep their source and are compiled when they run.
+   */
+  private resolvePrintData(params: any): string | Buffer {
+    if (params.document) {
+      return compileEscPosDocument(params.document);
+    }
+    if (params.image) {
+      return imageToPrinterData(Buffer.from(params.image, 'base64'), params.format, params.imageOptions);
+    }
+    return params.data;
+  }
+
+  /**
+   * Fill in a stored label template and print it. Variables are checked
+   * before anything is queued or sent.
+   */
+  private async printTemplate(params: any, connectionId: string): Promise<any> {
+    const { deviceId, template: name, variables, copies = 1 } = params ?? {};
+    if (!deviceId || !name) {
+      throw new Error('Device ID and template are required');
+    }
+
+    const template = await this.requireTemplates().getTemplate(name);
+    if (!template) {
+      throw new Error(`Template ${name} not found`);
+    }
+    const data = renderLabelTemplate(template, variables, copies);
+
+    // The rendered label already holds every copy
+    const printParams = { ...params, data, copies: undefined, format: template.language, jobName: params.jobName ?? name };
+    return this.queue ? this.enqueuePrint(printParams, connectionId) : this.print(printParams, connectionId);
+  }
+
+  /**
+   * How to reach a network printer, matching `NetworkPrinterDevice.printProtocol`:
+   * an explicit `protocol`, else inferred from `printerUri` or the well-known
+   * IPP (631) and LPD (515) ports. Undefined when no network target is given.
+   */
+  private resolvePrintProtocol(params: any): NetworkPrinterDevice['printProtocol'] | undefined {
+    const protocol = params?.protocol;
+    if (protocol !== undefined) {
+      if (protocol !== 'ipp' && protocol !== 'lpd' && protocol !== 'socket') {
+        throw new Error(`Unsupported print protocol: ${protocol}`);
+      }
+      return protocol;
+    }
+
+    if (params?.printerUri) return 'ipp';
+    const port = Number(params?.port);
+    if (params?.host && port === 631) return 'ipp';
+    if (params?.host && port === 515) return 'lpd';
+    if (params?.host && port) return 'socket';
+    return undefined;
+  }
+
+  /**
+   * The IPP printer URI for a print or status request: an explicit
+   * `printerUri`, or one derived from `host` when IPP is selected.
+   */
+  private resolvePrinterUri(params: any): string | undefined {
+    if (params?.printerUri) {
+      return params.printerUri;
+    }
+    if (params?.host && this.resolvePrintProtocol(params) === 'ipp') {
+      return IppClient.printerUriFor(params.host, params.port ? Number(params.port) : 631);
+    }
+    return undefined;
   }
 
   private async getPrinterStatus(params: any, connectionId: string): Promise<any> {
@@ -488,6 +909,28 @@ export class CrossPlatformWebSocketServer {
       throw new Error('Device ID is required');
     }
 
+    const printerUri = this.resolvePrinterUri(params);
+    if (printerUri) {
+      const printer = await new IppClient(printerUri).getPrinterAttributes();
+      return {
+        isConnected: true,
+        status: printer.state,
+        isReady: printer.state !== 'stopped' && printer.isAcceptingJobs,
+        isBusy: printer.state === 'processing',
+        isPaused: printer.state === 'stopped',
+        jobsInQueue: printer.queuedJobCount ?? 0,
+        stateReasons: printer.stateReasons,
+        stateMessage: printer.stateMessage,
+        timestamp: new Date()
+      };
+    }
+
+    if (this.networkManager.isConnected(deviceId)) {
+      const language = params?.commandLanguage
+        ?? this.networkManager.getActiveConnections().get(deviceId)?.commandLanguage;
+      return this.queryPrinterStatus(deviceId, language, params?.timeout);
+    }
+
     return {
       isConnected: false,
       status: 'ready',
@@ -499,12 +942,122 @@ export class CrossPlatformWebSocketServer {
     };
   }
 
+  /**
+   * Ask a connected printer for its status in its own command language:
+   * DLE EOT for ESC/POS, ~HS for ZPL, INFO STATUS for PJL.
+   */
+  private async queryPrinterStatus(deviceId: string, language: PrinterCommandLanguage | undefined, timeout?: number): Promise<any> {
+    if (!language) {
+      throw new Error(`Command language of ${deviceId} is unknown; pass commandLanguage or set it when connecting`);
+    }
+    if (language === 'pjl') {
+      const { status: pjlStatus, pageCount, raw } = await new PjlClient(this.networkManager, deviceId, timeout).getStatus();
+      const flags = pjlStatusToFlags(pjlStatus, raw);
+      const status = summarizePrinterStatus(flags);
+      return {
+        isConnected: true,
+        status,
+        isReady: status === 'ready',
+        // 10003 warming up, 10023 printing
+        isBusy: pjlStatus.code === 10003 || pjlStatus.code === 10023,
+        isPaused: false,
+        jobsInQueue: 0,
+        pageCount,
+        flags,
+        timestamp: new Date()
+      };
+    }
+    const query = statusQueryFor(language);
+    if (!query) {
+      throw new Error(`Status queries are not supported for ${language}`);
+    }
+
+    const result = await this.networkManager.sendAndReceive(deviceId, query, timeout);
+    if (!result.success) {
+      throw new Error(`Status query to ${deviceId} failed: ${result.error}`);
+    }
+
+    const flags = parseStatusResponse(language, result.response);
+    const status = summarizePrinterStatus(flags);
+    return {
+      isConnected: true,
+      status,
+      isReady: status === 'ready',
+      isBusy: (flags.formatsInBuffer ?? 0) > 0,
+      isPaused: flags.paused ?? false,
+      jobsInQueue: flags.formatsInBuffer ?? 0,
+      flags,
+      timestamp: new Date()
+    };
+  }
+
+  private async getPrintJobStatus(params: any, _connectionId: string): Promise<any> {
+    const jobId = params?.jobId;
+    if (!jobId) {
+      throw new Error('Job ID is required');
+    }
+
+    const job = await this.tcpPrinterService.refreshJobStatus(jobId);
+    if (!job) {
+      throw new Error(`Print job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Turn on PJL unsolicited status for a connected printer. Its USTATUS
+   * messages are broadcast as `device.event` with eventType `status_changed`.
+   */
+  private async watchPrinterStatus(params: any, _connectionId: string): Promise<any> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+    if (!this.networkManager.isConnected(deviceId)) {
+      throw new Error(`Device ${deviceId} is not connected`);
+    }
+
+    await new PjlClient(this.networkManager, deviceId).setUnsolicitedStatus(true);
+    this.watchedPrinters.add(deviceId);
+    return { success: true, deviceId };
+  }
+
+  private async unwatchPrinterStatus(params: any, _connectionId: string): Promise<any> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+
+    this.watchedPrinters.delete(deviceId);
+    if (this.networkManager.isConnected(deviceId)) {
+      await new PjlClient(this.networkManager, deviceId).setUnsolicitedStatus(false);
+    }
+    return { success: true, deviceId };
+  }
+
   private async getPrinterCapabilities(params: any, connectionId: string): Promise<any> {
     const deviceId = params?.deviceId;
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
 
+    const language = params?.commandLanguage
+      ?? this.networkManager.getActiveConnections().get(deviceId)?.commandLanguage;
+    if (language === 'pjl' && this.networkManager.isConnected(deviceId)) {
+      const config = await new PjlClient(this.networkManager, deviceId, params?.timeout).getConfig();
+      return {
+        supportedProtocols: config.languages,
+        maxPrintWidth: null,
+        supportsColor: false,
+        supportsDuplex: config.duplex,
+        maxResolution: config.resolution ?? null,
+        maxJobSize: config.memory ?? null,
+        trays: config.trays,
+        memory: config.memory,
+        config: config.entries
+      };
+    }
+
     return {
       supportedProtocols: ['ESC/POS', 'ZPL', 'EPL'],
       maxPrintWidth: 576,
@@ -515,93 +1068,200 @@ export class CrossPlatformWebSocketServer {
     };
   }
 
+  /**
+   * Open a serial port found by device enumeration with the requested line
+   * settings (9600 8N1 by default). Opening an open port applies the new settings.
+   * Received data is framed as requested and sent to this connection as
+   * `device.event` notifications with `eventType: 'data'`, decoded with
+   * `encoding`; the port is closed when the connection goes away.
+   */
   private async openSerialPort(params: any, connectionId: string): Promise<any> {
-    const { deviceId, baudRate = 9600, parity = 'None', dataBits = 8, stopBits = '1', flowControl = 'None' } = params;
-    
+    const deviceId = params?.deviceId;
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
+    const config = readSerialConfig(params);
+    const encoding: BufferEncoding = params.encoding ?? 'utf8';
+    if (!Buffer.isEncoding(encoding)) {
+      throw new Error(`Unknown encoding ${encoding}`);
+    }
+    const owner = this.serialOwners.get(deviceId);
+    if (owner && owner.connectionId !== connectionId) {
+      throw new Error(`Serial port ${deviceId} is open on another connection`);
+    }
 
+    const path = this.serialManager.getStatus(deviceId)?.portName ?? await this.resolveSerialPath(deviceId);
+    const status = await this.serialManager.open(deviceId, path, config);
+    this.serialOwners.set(deviceId, { connectionId, encoding });
     return {
       success: true,
-      portName: deviceId.replace('serial_', ''),
-      config: { baudRate, parity, dataBits, stopBits, flowControl },
-      openedAt: new Date()
+      portName: status.portName,
+      config,
+      openedAt: status.openedAt
     };
   }
 
-  private async closeSerialPort(params: any, connectionId: string): Promise<any> {
+  private async closeSerialPort(params: any, _connectionId: string): Promise<any> {
     const deviceId = params?.deviceId;
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
 
+    const portName = this.serialManager.getStatus(deviceId)?.portName;
+    if (!await this.serialManager.close(deviceId)) {
+      throw new Error(`Serial port ${deviceId} is not open`);
+    }
     return {
       success: true,
-      portName: deviceId.replace('serial_', ''),
+      portName,
       closedAt: new Date()
     };
   }
 
-  private async sendSerialData(params: any, connectionId: string): Promise<any> {
-    const { deviceId, data } = params;
-    
+  private async sendSerialData(params: any, _connectionId: string): Promise<any> {
+    const { deviceId, data, encoding = 'utf8' } = params ?? {};
     if (!deviceId || !data) {
       throw new Error('Device ID and data are required');
     }
 
+    const bytesTransferred = await this.serialManager.write(deviceId, Buffer.from(data, encoding as BufferEncoding));
     return {
       success: true,
-      bytesTransferred: data.length,
-      data: data,
+      bytesTransferred,
+      data,
       timestamp: new Date()
     };
   }
 
-  private async receiveSerialData(params: any, connectionId: string): Promise<any> {
-    const { deviceId, maxBytes = 1024, timeout = 10000 } = params;
-    
+  /**
+   * Return data the port has received (one message if it was opened with
+   * framing), waiting up to `timeout` ms if there is none yet.
+   */
+  private async receiveSerialData(params: any, _connectionId: string): Promise<any> {
+    const { deviceId, maxBytes = 1024, timeout = 10000, encoding = 'utf8' } = params ?? {};
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
 
-    // Simulate received data
-    const mockData = `Received ${maxBytes} bytes from ${deviceId}`;
-    
+    const received = await this.serialManager.read(deviceId, maxBytes, timeout);
     return {
       success: true,
-      bytesTransferred: mockData.length,
-      data: mockData,
+      bytesTransferred: received.length,
+      data: received.toString(encoding as BufferEncoding),
       timestamp: new Date()
     };
   }
 
-  private async getSerialPortStatus(params: any, connectionId: string): Promise<any> {
+  private async getSerialPortStatus(params: any, _connectionId: string): Promise<any> {
     const deviceId = params?.deviceId;
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
 
+    const status = this.serialManager.getStatus(deviceId);
+    if (!status) {
+      return { isConnected: false, status: 'closed', isOpen: false };
+    }
     return {
+      ...status,
       isConnected: true,
       status: 'connected',
-      portName: deviceId.replace('serial_', ''),
-      baudRate: 115200,
-      parity: 'None',
-      dataBits: 8,
-      stopBits: '1',
-      flowControl: 'None',
-      bytesToRead: 0,
-      bytesToWrite: 0,
-      isOpen: true,
-      cdHolding: false,
-      ctsHolding: true,
-      dsrHolding: false,
-      connectedAt: new Date(),
-      lastActivity: new Date()
+      connectedAt: status.openedAt
     };
   }
 
+  /**
+   * Weigh once. With `stable`, wait for a reading that is not in motion;
+   * `timeout` (default 5000 ms) bounds the wait either way.
+   */
+  private async readScale(params: any, connectionId: string): Promise<ScaleReading> {
+    const deviceId = await this.openScale(params, connectionId);
+    const { timeout = 5000, stable = false } = params;
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+      throw new Error('timeout must be a positive integer');
+    }
+    return this.scaleService.read(deviceId, { timeout, stable: Boolean(stable) });
+  }
+
+  private async tareScale(params: any, connectionId: string): Promise<any> {
+    const deviceId = await this.openScale(params, connectionId);
+    await this.scaleService.tare(deviceId);
+    return { success: true, timestamp: new Date() };
+  }
+
+  private async zeroScale(params: any, connectionId: string): Promise<any> {
+    const deviceId = await this.openScale(params, connectionId);
+    await this.scaleService.zero(deviceId);
+    return { success: true, timestamp: new Date() };
+  }
+
+  /**
+   * Send the scale's readings to this connection as `scale.reading`
+   * notifications whenever they change. Request-response scales are polled
+   * every `interval` ms while anyone is subscribed.
+   */
+  private async subscribeScale(params: any, connectionId: string): Promise<any> {
+    const deviceId = await this.openScale(params, connectionId);
+    const { interval } = params;
+    if (interval !== undefined && (!Number.isInteger(interval) || interval <= 0)) {
+      throw new Error('interval must be a positive integer');
+    }
+
+    this.scaleService.watch(deviceId, interval);
+    let subscribers = this.scaleSubscriptions.get(deviceId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.scaleSubscriptions.set(deviceId, subscribers);
+    }
+    subscribers.add(connectionId);
+    return { success: true };
+  }
+
+  private async unsubscribeScale(params: any, connectionId: string): Promise<any> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+
+    this.unsubscribeFromScale(connectionId, deviceId);
+    return { success: true };
+  }
+
+  /**
+   * The scale's device id. With `protocol`, its serial port is first opened
+   * (or reconfigured) for that protocol unless it already is; line settings
+   * in `params` override the protocol's usual ones. The connection that
+   * first opens a scale owns it: the port is closed when that connection goes
+   * away and nobody is subscribed to the scale.
+   */
+  private async openScale(params: any, connectionId: string): Promise<string> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+
+    const protocol = params.protocol;
+    if (protocol && protocol !== this.scaleService.protocolOf(deviceId)) {
+      const settings = readScaleSettings(protocol, params);
+      const path = this.serialManager.getStatus(deviceId)?.portName ?? await this.resolveSerialPath(deviceId);
+      await this.scaleService.open(deviceId, path, settings);
+      if (!this.scaleOwners.has(deviceId)) {
+        this.scaleOwners.set(deviceId, connectionId);
+      }
+    }
+    return deviceId;
+  }
+
+  /** The device path of an enumerated serial port, e.g. /dev/ttyUSB0. */
+  private async resolveSerialPath(deviceId: string): Promise<string> {
+    const { serialPorts } = await this.deviceEnumerator.enumerate();
+    const port = serialPorts.find(p => p.id === deviceId);
+    if (!port) {
+      throw new Error(`Serial port ${deviceId} not found`);
+    }
+    return port.properties?.path ?? port.portName;
+  }
+
   private async openUsbDevice(params: any, connectionId: string): Promise<any> {
     const deviceId = params?.deviceId;
     if (!deviceId) {
@@ -686,49 +1346,304 @@ export class CrossPlatformWebSocketServer {
     };
   }
 
-  private async getQueueStatus(params: any, connectionId: string): Promise<any> {
-    return {
-      totalJobs: Math.floor(Math.random() * 10),
-      pendingJobs: Math.floor(Math.random() * 5),
-      processingJobs: Math.floor(Math.random() * 2),
-      completedJobs: Math.floor(Math.random() * 20),
-      failedJobs: Math.floor(Math.random() * 3),
-      lastProcessed: new Date(),
-      averageProcessingTime: Math.random() * 1000
-    };
+  // Queue Operations
+  private requireQueue(): JobQueue {
+    if (!this.queue) {
+      throw new Error('Job queue is not configured');
+    }
+    return this.queue;
   }
 
-  private async getQueueJobs(params: any, connectionId: string): Promise<any> {
-    const jobs: any[] = [];
-    const statuses = ['pending', 'processing', 'completed', 'failed'];
-    const operations = ['print', 'serial.send', 'usb.sendReport'];
-    
-    for (let i = 0; i < 5; i++) {
-      jobs.push({
-        id: `job_${Date.now() + i}`,
-        deviceId: `device_${i}`,
-        deviceType: ['printer', 'serial', 'usbhid'][Math.floor(Math.random() * 3)],
-        operation: operations[Math.floor(Math.random() * operations.length)],
-        status: statuses[Math.floor(Math.random() * statuses.length)],
-        createdAt: new Date(Date.now() - Math.random() * 3600000),
-        startedAt: Math.random() > 0.3 ? new Date(Date.now() - Math.random() * 1800000) : null,
-        completedAt: Math.random() > 0.6 ? new Date(Date.now() - Math.random() * 900000) : null,
-        retryCount: Math.floor(Math.random() * 3)
-      });
+  private async enqueuePrint(params: any, connectionId: string): Promise<PrintResult> {
+    const {
+      deviceId, data, document, image, imageOptions, format = 'raw', host, port, protocol, printerUri, queueName, documentFormat,
+      resetOnCancel
+    } = params ?? {};
+    if (!deviceId || !(data || document || image)) {
+      throw new Error('Device ID and data are required');
     }
-    
-    return jobs;
+    const { copies, collate, jobName, cupsOptions } = readOutputOptions(params);
+
+    return this.enqueueJob({
+      deviceId,
+      deviceType: 'printer',
+      operation: 'print',
+      parameters: {
+        deviceId, data, document, image, imageOptions, format, host, port, protocol, printerUri, queueName, documentFormat,
+        copies, collate, jobName, cupsOptions, resetOnCancel
+      },
+      ...this.parseJobOptions(params)
+    }, connectionId);
+  }
+
+  private async enqueueNetworkData(params: any, connectionId: string): Promise<PrintResult> {
+    const { deviceId, data, encoding = 'utf8' } = params ?? {};
+    if (!deviceId || !data) {
+      throw new Error('deviceId and data are required');
+    }
+
+    return this.enqueueJob({
+      deviceId,
+      deviceType: 'network',
+      operation: 'network.send',
+      parameters: { deviceId, data, encoding },
+      ...this.parseJobOptions(params)
+    }, connectionId);
+  }
+
+  /**
+   * Queue the job and subscribe the calling connection to its updates. A
+   * repeated idempotency key returns the first submission in its current state.
+   */
+  private async enqueueJob(request: EnqueueRequest, connectionId: string): Promise<PrintResult> {
+    const { job, duplicate } = await this.requireQueue().enqueue(request);
+    this.subscribeToJob(connectionId, job.id);
+
+    if (duplicate) {
+      return {
+        success: job.status !== 'failed' && job.status !== 'dead_letter',
+        jobId: job.id,
+        status: job.status,
+        idempotencyKey: request.idempotencyKey,
+        duplicate: true,
+        error: job.error,
+        timestamp: job.createdAt
+      };
+    }
+
+    return { success: true, jobId: job.id, status: job.status, idempotencyKey: request.idempotencyKey, timestamp: new Date() };
+  }
+
+  /**
+   * Read the optional `priority` (integer, higher runs first), `notBefore`
+   * (ISO timestamp or epoch milliseconds) and `idempotencyKey` request params.
+   */
+  private parseJobOptions(params: any): Pick<EnqueueRequest, 'priority' | 'notBefore' | 'idempotencyKey'> {
+    const options: Pick<EnqueueRequest, 'priority' | 'notBefore' | 'idempotencyKey'> = {};
+
+    if (params?.priority !== undefined && params?.priority !== null) {
+      if (!Number.isInteger(params.priority)) {
+        throw new Error('priority must be an integer');
+      }
+      options.priority = params.priority;
+    }
+
+    if (params?.notBefore !== undefined && params?.notBefore !== null) {
+      const notBefore = new Date(params.notBefore);
+      if (isNaN(notBefore.getTime())) {
+        throw new Error('notBefore must be a valid date');
+      }
+      options.notBefore = notBefore;
+    }
+
+    if (params?.idempotencyKey !== undefined) {
+      if (typeof params.idempotencyKey !== 'string' || params.idempotencyKey.length === 0) {
+        throw new Error('idempotencyKey must be a non-empty string');
+      }
+      options.idempotencyKey = params.idempotencyKey;
+    }
+
+    return options;
+  }
+
+  private async getQueueStatus(_params: any, _connectionId: string): Promise<any> {
+    return this.requireQueue().getStatus();
+  }
+
+  private async getQueueJobs(params: any, _connectionId: string): Promise<any> {
+    return this.requireQueue().getJobs({
+      deviceId: params?.deviceId,
+      status: params?.status,
+      limit: params?.limit || 100
+    });
+  }
+
+  /**
+   * Cancel a queued job, or a direct RAW print that is still sending (its id
+   * comes with `print.progress`). Running jobs stop mid-transfer.
+   */
+  private async cancelQueueJob(params: any, _connectionId: string): Promise<any> {
+    const jobId = params?.jobId;
+    if (!jobId) {
+      throw new Error('Job ID is required');
+    }
+
+    if (this.tcpPrinterService.cancelJob(jobId)) {
+      return { success: true };
+    }
+    const cancelled = await this.requireQueue().cancelJob(jobId);
+    if (!cancelled) {
+      throw new Error(`Job ${jobId} not found or already finished`);
+    }
+    return { success: true };
+  }
+
+  private async retryQueueJob(params: any, connectionId: string): Promise<any> {
+    const jobId = params?.jobId;
+    if (!jobId) {
+      throw new Error('Job ID is required');
+    }
+
+    const queue = this.requireQueue();
+    this.subscribeToJob(connectionId, jobId);
+    const requeued = await queue.retryJob(jobId);
+    if (!requeued) {
+      this.unsubscribeFromJob(connectionId, jobId);
+      throw new Error(`Job ${jobId} not found or not in a failed or dead_letter state`);
+    }
+    return { success: true, jobId };
+  }
+
+  private async requeueDeadLetters(params: any, _connectionId: string): Promise<any> {
+    const count = await this.requireQueue().requeueDeadLetters(params?.deviceId);
+    return { success: true, count };
+  }
+
+  private async purgeQueue(params: any, _connectionId: string): Promise<any> {
+    const { statuses, olderThanHours, deviceId, keepLatest, vacuum } = params ?? {};
+    if (olderThanHours !== undefined && (typeof olderThanHours !== 'number' || olderThanHours < 0)) {
+      throw new Error('olderThanHours must be a non-negative number');
+    }
+    if (keepLatest !== undefined && (!Number.isInteger(keepLatest) || keepLatest < 0)) {
+      throw new Error('keepLatest must be a non-negative integer');
+    }
+
+    let criteria: PurgeCriteria | undefined;
+    if (statuses !== undefined || olderThanHours !== undefined || deviceId !== undefined || keepLatest !== undefined) {
+      criteria = {
+        statuses: statuses as FinishedJobStatus[] | undefined,
+        olderThan: olderThanHours !== undefined ? new Date(Date.now() - olderThanHours * 60 * 60 * 1000) : undefined,
+        deviceId,
+        keepLatest
+      };
+    }
+
+    const result = await this.requireQueue().purge(criteria, Boolean(vacuum));
+    return { success: true, ...result };
+  }
+
+  private async subscribeQueueJob(params: any, connectionId: string): Promise<any> {
+    const jobId = params?.jobId;
+    if (!jobId) {
+      throw new Error('Job ID is required');
+    }
+
+    const job = await this.requireQueue().getJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    this.subscribeToJob(connectionId, jobId);
+    return { success: true, job };
   }
 
-  private async cancelQueueJob(params: any, connectionId: string): Promise<any> {
+  private async unsubscribeQueueJob(params: any, connectionId: string): Promise<any> {
     const jobId = params?.jobId;
     if (!jobId) {
       throw new Error('Job ID is required');
     }
 
+    this.unsubscribeFromJob(connectionId, jobId);
     return { success: true };
   }
 
+  private async pauseDeviceQueue(params: any, _connectionId: string): Promise<any> {
+    return this.changeDeviceQueueState(params, 'paused');
+  }
+
+  private async resumeDeviceQueue(params: any, _connectionId: string): Promise<any> {
+    return this.changeDeviceQueueState(params, 'active');
+  }
+
+  private async drainDeviceQueue(params: any, _connectionId: string): Promise<any> {
+    return this.changeDeviceQueueState(params, 'draining');
+  }
+
+  private async getDeviceQueue(params: any, _connectionId: string): Promise<any> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+
+    return this.requireQueue().getDeviceQueue(deviceId);
+  }
+
+  /**
+   * Persist a device's queue state and announce the change to clients as a
+   * `device.event` notification.
+   */
+  private async changeDeviceQueueState(params: any, state: DeviceQueueState): Promise<any> {
+    const deviceId = params?.deviceId;
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+    const reason = typeof params?.reason === 'string' ? params.reason : undefined;
+
+    const queue = this.requireQueue();
+    const previousState = await queue.setDeviceState(deviceId, state, reason);
+    const deviceQueue = await queue.getDeviceQueue(deviceId);
+
+    if (previousState !== state) {
+      this.emitDeviceEvent({
+        eventType: 'status_changed',
+        deviceId,
+        deviceType: deviceQueue.jobs[0]?.deviceType ?? 'unknown',
+        timestamp: new Date(),
+        data: { queueState: state, previousQueueState: previousState, reason }
+      });
+    }
+
+    return {
+      success: true,
+      deviceId,
+      state,
+      previousState,
+      pendingJobs: deviceQueue.pendingJobs,
+      processingJobs: deviceQueue.processingJobs
+    };
+  }
+
+  // Label Templates
+  private async listTemplates(_params: any, _connectionId: string): Promise<any> {
+    return this.requireTemplates().listTemplates();
+  }
+
+  private async getTemplate(params: any, _connectionId: string): Promise<any> {
+    const name = params?.name;
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+
+    const template = await this.requireTemplates().getTemplate(name);
+    if (!template) {
+      throw new Error(`Template ${name} not found`);
+    }
+    return template;
+  }
+
+  private async saveTemplate(params: any, _connectionId: string): Promise<any> {
+    const { name, language, body, variables = [], description } = params ?? {};
+    const definition = { name, language, body, variables, description };
+    validateLabelTemplate(definition);
+    return this.requireTemplates().saveTemplate(definition);
+  }
+
+  private async deleteTemplate(params: any, _connectionId: string): Promise<any> {
+    const name = params?.name;
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+    return { success: await this.requireTemplates().deleteTemplate(name) };
+  }
+
+  private requireTemplates(): TemplateStore {
+    if (!this.templates) {
+      throw new Error('Template store is not configured');
+    }
+    return this.templates;
+  }
+
+  // System Information
   private async getSystemInfo(params: any, connectionId: string): Promise<any> {
     return {
       version: '1.0.0',
@@ -918,6 +1833,61 @@ export class CrossPlatformWebSocketServer {
     return this.networkManager.sendData(deviceId, buffer);
   }
 
+  // Traffic Capture
+  /**
+   * Start recording TX/RX traffic of an open serial port or TCP connection,
+   * keeping up to `maxBytes` in memory. `toDisk` also appends hex dumps to a
+   * file in the configured capture directory.
+   */
+  private async startCapture(params: any, _connectionId: string): Promise<any> {
+    const { deviceId, maxBytes, toDisk = false } = params ?? {};
+    if (!deviceId) throw new Error('deviceId is required');
+    if (!this.serialManager.isOpen(deviceId) && !this.networkManager.isConnected(deviceId)) {
+      throw new Error(`Device ${deviceId} is not open`);
+    }
+
+    let file: string | undefined;
+    if (toDisk) {
+      if (!this.config.captureDirectory) {
+        throw new Error('Capturing to disk is not configured; set captureDirectory in config.json');
+      }
+      await fs.promises.mkdir(this.config.captureDirectory, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      file = path.join(this.config.captureDirectory, `${deviceId.replace(/[^\w.-]/g, '_')}-${stamp}.log`);
+    }
+
+    await this.capture.start(deviceId, { maxBytes, file });
+    return { success: true, deviceId, file, timestamp: new Date() };
+  }
+
+  private async stopCapture(params: any, _connectionId: string): Promise<any> {
+    const { deviceId } = params ?? {};
+    if (!deviceId) throw new Error('deviceId is required');
+    const stopped = await this.capture.stop(deviceId);
+    return { success: true, deviceId, stopped, timestamp: new Date() };
+  }
+
+  /**
+   * The captured entries as hex and hex dumps, with the device's byte
+   * counters since it was opened while it still is.
+   */
+  private async getCapture(params: any, _connectionId: string): Promise<CaptureResult> {
+    const { deviceId, limit, clear = false } = params ?? {};
+    if (!deviceId) throw new Error('deviceId is required');
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new Error('limit must be a non-negative integer');
+    }
+
+    const capture = this.capture.get(deviceId, { limit, clear });
+    if (!capture) {
+      throw new Error(`No capture for device ${deviceId}`);
+    }
+    const status = this.serialManager.getStatus(deviceId) ?? this.networkManager.getConnectionStatus(deviceId);
+    return status
+      ? { ...capture, totals: { bytesRead: status.bytesRead, bytesWritten: status.bytesWritten } }
+      : capture;
+  }
+
   // Biometric Device Operations
   private async enrollBiometric(params: any, connectionId: string): Promise<any> {
     const { deviceId, userId, userName, biometricData } = params;